@@ -1,6 +1,12 @@
+import { Database } from "bun:sqlite";
+import type { AgentLike } from "smithers-orchestrator";
+import { extractAgentUsage, type AgentCallUsage } from "./usage";
+import { AgentRateLimitError, detectRateLimitInError, detectRateLimitInResult, rateLimitBackoffMs, type AgentRateLimit } from "./rateLimits";
+
 /**
  * AgentRegistry — tracks agent performance stats, rate limits, and current assignments.
  * Used by the TicketScheduler to make dynamic agent allocation decisions.
+ * Attach the workflow DB to keep stats across restarts.
  */
 
 export type AgentMetadata = {
@@ -8,6 +14,7 @@ export type AgentMetadata = {
   type: "claude-code" | "codex" | "gemini" | "kimi" | "amp" | "custom";
   model?: string;
   costPerToken?: number;
+  description?: string;
 };
 
 export type AgentStats = AgentMetadata & {
@@ -24,6 +31,16 @@ export type AgentStats = AgentMetadata & {
   currentTaskStartMs: number | null;
 };
 
+/** Token usage and cost one agent spent on one task */
+export type TaskUsage = {
+  agentId: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+};
+
 export type AgentRegistrySnapshot = {
   timestamp: string;
   agents: AgentStats[];
@@ -37,6 +54,8 @@ type InternalAgentState = {
   totalDurationMs: number;
   lastFailureReason: string | null;
   rateLimitedUntil: number | null;
+  /** Rate limits since the last success; drives backoff when no resume time is known */
+  consecutiveRateLimits: number;
   currentTaskId: string | null;
   currentTaskStartMs: number | null;
 };
@@ -63,8 +82,92 @@ function computeStats(state: InternalAgentState): AgentStats {
   };
 }
 
+const CREATE_AGENT_STATS_TABLE = `CREATE TABLE IF NOT EXISTS agent_stats (
+  agent_id TEXT PRIMARY KEY,
+  metadata_json TEXT NOT NULL,
+  success_count INTEGER NOT NULL,
+  failure_count INTEGER NOT NULL,
+  rate_limit_count INTEGER NOT NULL,
+  total_duration_ms INTEGER NOT NULL,
+  last_failure_reason TEXT,
+  rate_limited_until INTEGER,
+  updated_at_ms INTEGER NOT NULL
+)`;
+
 export class AgentRegistry {
   private agents = new Map<string, InternalAgentState>();
+  /** taskId -> agentId -> usage, until it is taken and written to the workflow outputs */
+  private usageByTask = new Map<string, Map<string, TaskUsage>>();
+  private runningTasks = new Set<string>();
+  private db: Database | null = null;
+  private dbPath: string | null = null;
+
+  /**
+   * Load persisted stats from the workflow DB and write every later update back.
+   * Calling it again with the same path is a no-op.
+   */
+  attachDatabase(dbPath: string): void {
+    if (this.dbPath === dbPath) return;
+    this.db?.close();
+    this.db = new Database(dbPath);
+    this.dbPath = dbPath;
+    this.db.exec(CREATE_AGENT_STATS_TABLE);
+
+    const rows = this.db.prepare(
+      `SELECT agent_id, metadata_json, success_count, failure_count, rate_limit_count, total_duration_ms, last_failure_reason, rate_limited_until FROM agent_stats`
+    ).all() as Array<{
+      agent_id: string;
+      metadata_json: string;
+      success_count: number;
+      failure_count: number;
+      rate_limit_count: number;
+      total_duration_ms: number;
+      last_failure_reason: string | null;
+      rate_limited_until: number | null;
+    }>;
+    for (const row of rows) {
+      const current = this.agents.get(row.agent_id);
+      this.agents.set(row.agent_id, {
+        metadata: current?.metadata ?? (JSON.parse(row.metadata_json) as AgentMetadata),
+        successCount: row.success_count,
+        failureCount: row.failure_count,
+        rateLimitCount: row.rate_limit_count,
+        totalDurationMs: row.total_duration_ms,
+        lastFailureReason: row.last_failure_reason,
+        rateLimitedUntil: row.rate_limited_until,
+        consecutiveRateLimits: current?.consecutiveRateLimits ?? 0,
+        currentTaskId: current?.currentTaskId ?? null,
+        currentTaskStartMs: current?.currentTaskStartMs ?? null,
+      });
+    }
+  }
+
+  private persist(state: InternalAgentState): void {
+    if (!this.db) return;
+    this.db.prepare(
+      `INSERT OR REPLACE INTO agent_stats (agent_id, metadata_json, success_count, failure_count, rate_limit_count, total_duration_ms, last_failure_reason, rate_limited_until, updated_at_ms) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      state.metadata.id,
+      JSON.stringify(state.metadata),
+      state.successCount,
+      state.failureCount,
+      state.rateLimitCount,
+      Math.round(state.totalDurationMs),
+      state.lastFailureReason,
+      state.rateLimitedUntil,
+      Date.now(),
+    );
+  }
+
+  /** Register an agent unless it is already known; metadata is refreshed either way */
+  ensureAgent(id: string, metadata: AgentMetadata): void {
+    const state = this.agents.get(id);
+    if (!state) {
+      this.registerAgent(id, metadata);
+      return;
+    }
+    state.metadata = { ...metadata, id };
+  }
 
   registerAgent(id: string, metadata: AgentMetadata): void {
     this.agents.set(id, {
@@ -75,9 +178,11 @@ export class AgentRegistry {
       totalDurationMs: 0,
       lastFailureReason: null,
       rateLimitedUntil: null,
+      consecutiveRateLimits: 0,
       currentTaskId: null,
       currentTaskStartMs: null,
     });
+    this.persist(this.agents.get(id)!);
   }
 
   recordSuccess(agentId: string, _taskId: string, durationMs: number): void {
@@ -85,8 +190,10 @@ export class AgentRegistry {
     if (!state) return;
     state.successCount++;
     state.totalDurationMs += durationMs;
+    state.consecutiveRateLimits = 0;
     state.currentTaskId = null;
     state.currentTaskStartMs = null;
+    this.persist(state);
   }
 
   recordFailure(
@@ -102,21 +209,74 @@ export class AgentRegistry {
     state.lastFailureReason = reason;
     state.currentTaskId = null;
     state.currentTaskStartMs = null;
+    this.persist(state);
   }
 
-  recordRateLimit(agentId: string, retryAfterMs?: number): void {
+  /**
+   * Put an agent on backoff. Without `retryAfterMs` the wait doubles with every
+   * consecutive limit (see rateLimitBackoffMs).
+   */
+  recordRateLimit(agentId: string, retryAfterMs?: number, reason = "Rate limited"): void {
     const state = this.agents.get(agentId);
     if (!state) return;
     state.rateLimitCount++;
-    state.lastFailureReason = "Rate limited";
-    if (retryAfterMs !== undefined) {
-      state.rateLimitedUntil = Date.now() + retryAfterMs;
-    }
+    state.consecutiveRateLimits++;
+    state.lastFailureReason = reason;
+    state.rateLimitedUntil = Date.now() + (retryAfterMs ?? rateLimitBackoffMs(state.consecutiveRateLimits));
     state.currentTaskId = null;
     state.currentTaskStartMs = null;
+    this.persist(state);
+  }
+
+  /**
+   * Add one call's token usage to a task. Cost is what the agent reported, else
+   * tokens × `costPerToken`, else 0.
+   */
+  recordUsage(agentId: string, taskId: string, usage: AgentCallUsage): void {
+    const costPerToken = this.agents.get(agentId)?.metadata.costPerToken ?? 0;
+    const byAgent = this.usageByTask.get(taskId) ?? new Map<string, TaskUsage>();
+    const current = byAgent.get(agentId) ?? {
+      agentId, calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0,
+    };
+    current.calls += 1;
+    current.inputTokens += usage.inputTokens;
+    current.outputTokens += usage.outputTokens;
+    current.totalTokens += usage.totalTokens;
+    current.costUsd += usage.costUsd ?? usage.totalTokens * costPerToken;
+    byAgent.set(agentId, current);
+    this.usageByTask.set(taskId, byAgent);
+  }
+
+  getTaskUsage(taskId: string): TaskUsage[] {
+    return Array.from(this.usageByTask.get(taskId)?.values() ?? []);
+  }
+
+  /** Usage recorded but not yet taken, across all tasks */
+  getPendingUsage(): Array<{ taskId: string; usage: TaskUsage }> {
+    return Array.from(this.usageByTask.entries()).flatMap(([taskId, byAgent]) =>
+      Array.from(byAgent.values()).map((usage) => ({ taskId, usage: { ...usage } })),
+    );
+  }
+
+  /** Remove and return one agent's pending usage on a task */
+  takeTaskUsage(taskId: string, agentId: string): TaskUsage | null {
+    const byAgent = this.usageByTask.get(taskId);
+    const usage = byAgent?.get(agentId) ?? null;
+    byAgent?.delete(agentId);
+    if (byAgent && byAgent.size === 0) this.usageByTask.delete(taskId);
+    return usage;
+  }
+
+  isTaskRunning(taskId: string): boolean {
+    return this.runningTasks.has(taskId);
+  }
+
+  finishTask(taskId: string): void {
+    this.runningTasks.delete(taskId);
   }
 
   assignTask(agentId: string, taskId: string): void {
+    this.runningTasks.add(taskId);
     const state = this.agents.get(agentId);
     if (!state) return;
     state.currentTaskId = taskId;
@@ -130,6 +290,29 @@ export class AgentRegistry {
     state.currentTaskStartMs = null;
   }
 
+  /**
+   * Apply a rate limit reported elsewhere (e.g. by the scheduler agent) without
+   * counting a new limit. Keeps whichever resume time is later.
+   */
+  markRateLimitedUntil(agentId: string, resumeAtMs: number): void {
+    const state = this.agents.get(agentId);
+    if (!state || (state.rateLimitedUntil ?? 0) >= resumeAtMs) return;
+    state.rateLimitedUntil = resumeAtMs;
+    this.persist(state);
+  }
+
+  /** Agents currently on backoff, in the shape of TicketSchedule.rateLimitedAgents */
+  getRateLimitedAgents(now = Date.now()): Array<{ agentId: string; resumeAtMs: number }> {
+    return Array.from(this.agents.values())
+      .filter((s) => s.rateLimitedUntil !== null && s.rateLimitedUntil > now)
+      .map((s) => ({ agentId: s.metadata.id, resumeAtMs: s.rateLimitedUntil! }));
+  }
+
+  isRateLimited(agentId: string, now = Date.now()): boolean {
+    const until = this.agents.get(agentId)?.rateLimitedUntil ?? null;
+    return until !== null && until > now;
+  }
+
   getAvailableAgents(): AgentStats[] {
     return Array.from(this.agents.values())
       .map(computeStats)
@@ -152,15 +335,18 @@ export class AgentRegistry {
     };
   }
 
-  toPromptContext(): string {
+  /** Markdown status table for scheduler prompts, optionally limited to the given agents */
+  toPromptContext(agentIds?: string[]): string {
     const now = new Date();
-    const stats = this.getAgentStats();
+    const stats = agentIds
+      ? this.getAgentStats().filter((s) => agentIds.includes(s.id))
+      : this.getAgentStats();
 
     const header = `## Agent Pool Status (as of ${now.toISOString()})`;
 
     const tableHeader = [
-      "| Agent | Type | Success Rate | Avg Duration | Status | Current Task |",
-      "|-------|------|-------------|-------------|--------|-------------|",
+      "| Agent | Type | Description | Success Rate | Avg Duration | Status | Current Task |",
+      "|-------|------|-------------|-------------|-------------|--------|-------------|",
     ].join("\n");
 
     const rows = stats.map((s) => {
@@ -185,7 +371,7 @@ export class AgentRegistry {
 
       const task = s.currentTaskId ?? "-";
 
-      return `| ${s.id} | ${s.type} | ${rateStr} | ${avgStr} | ${status} | ${task} |`;
+      return `| ${s.id} | ${s.type} | ${s.description ?? "-"} | ${rateStr} | ${avgStr} | ${status} | ${task} |`;
     });
 
     const failedAgents = stats.filter((s) => s.lastFailureReason);
@@ -200,6 +386,84 @@ export class AgentRegistry {
 
     return [header, "", tableHeader, ...rows, failureSection].join("\n");
   }
+
+  close(): void {
+    this.db?.close();
+    this.db = null;
+    this.dbPath = null;
+  }
+}
+
+const AGENT_TYPES_BY_CLASS: Record<string, AgentMetadata["type"]> = {
+  ClaudeCodeAgent: "claude-code",
+  CodexAgent: "codex",
+  GeminiAgent: "gemini",
+  KimiAgent: "kimi",
+  AmpAgent: "amp",
+};
+
+/** Best-effort agent type and model from an agent instance */
+export function describeAgent(agent: unknown): Pick<AgentMetadata, "type" | "model"> {
+  const className = (agent as { constructor?: { name?: string } } | null)?.constructor?.name ?? "";
+  const model = (agent as { model?: unknown; opts?: { model?: unknown } } | null);
+  const modelName = typeof model?.model === "string" ? model.model
+    : typeof model?.opts?.model === "string" ? model.opts.model
+    : undefined;
+  return { type: AGENT_TYPES_BY_CLASS[className] ?? "custom", model: modelName };
+}
+
+/**
+ * Wrap an agent so every `generate` call is recorded against `agentId`: the task is
+ * marked as assigned while it runs, then its duration is booked as a success or
+ * failure, and any token usage it reports is added to the task. Rate limits, whether
+ * thrown or returned as a usage-cap message, put the agent on backoff; the call is
+ * then retried once on `fallback()` when it offers another agent, and otherwise fails
+ * with an AgentRateLimitError. The wrapper inherits from the agent, so its other
+ * fields stay visible.
+ */
+export function trackAgentCalls<A extends AgentLike>(
+  registry: AgentRegistry,
+  agentId: string,
+  agent: A,
+  taskId: string,
+  fallback?: () => { agentId: string; agent: AgentLike } | null,
+): A {
+  const tracked = Object.create(agent) as AgentLike;
+  tracked.generate = async (args) => {
+    const startedAt = Date.now();
+    registry.assignTask(agentId, taskId);
+    let rateLimit: AgentRateLimit | null;
+    try {
+      const result = await agent.generate(args);
+      const usage = extractAgentUsage(result);
+      if (usage) registry.recordUsage(agentId, taskId, usage);
+      rateLimit = detectRateLimitInResult(result);
+      if (!rateLimit) {
+        registry.recordSuccess(agentId, taskId, Date.now() - startedAt);
+        return result;
+      }
+    } catch (err) {
+      rateLimit = detectRateLimitInError(err);
+      if (!rateLimit) {
+        registry.recordFailure(agentId, taskId, err instanceof Error ? err.message : String(err), Date.now() - startedAt);
+        throw err;
+      }
+    } finally {
+      registry.finishTask(taskId);
+    }
+
+    registry.recordRateLimit(
+      agentId,
+      rateLimit.resumeAtMs !== null ? Math.max(0, rateLimit.resumeAtMs - Date.now()) : undefined,
+      `Rate limited: ${rateLimit.message}`,
+    );
+    const next = fallback?.();
+    if (next && next.agentId !== agentId) {
+      return await trackAgentCalls(registry, next.agentId, next.agent, taskId).generate(args);
+    }
+    throw new AgentRateLimitError(agentId, rateLimit);
+  };
+  return tracked as A;
 }
 
 let instance: AgentRegistry | null = null;
@@ -212,5 +476,6 @@ export function getAgentRegistry(): AgentRegistry {
 }
 
 export function resetAgentRegistry(): void {
+  instance?.close();
   instance = null;
 }
@@ -0,0 +1,194 @@
+/**
+ * Parsers that turn compiler and linter output into structured diagnostics.
+ * Supports `tsc` (plain and --pretty), `go build`/`go vet`, `cargo build` and eslint
+ * (stylish and unix formatters). Lines that match none of them are ignored; the build
+ * step then passes or fails on its exit code alone.
+ */
+
+export type DiagnosticTool = "tsc" | "go" | "cargo" | "eslint";
+
+export type DiagnosticSeverity = "error" | "warning";
+
+export type BuildDiagnostic = {
+  tool: DiagnosticTool;
+  /** Path as the tool printed it, relative to the worktree where possible */
+  file: string;
+  line: number | null;
+  column: number | null;
+  severity: DiagnosticSeverity;
+  /** Tool-specific code or rule, e.g. "TS2322", "E0308", "no-unused-vars" */
+  code: string | null;
+  message: string;
+};
+
+// Colors from tools that ignore NO_COLOR would otherwise break every pattern below
+const ANSI = /\x1b\[[0-9;]*m/g;
+
+function lines(output: string): string[] {
+  return output.replace(ANSI, "").split(/\r?\n/);
+}
+
+function toNumber(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+export function parseTscOutput(output: string): BuildDiagnostic[] {
+  const diagnostics: BuildDiagnostic[] = [];
+  for (const line of lines(output)) {
+    // Plain: src/a.ts(12,5): error TS2322: ...   Pretty: src/a.ts:12:5 - error TS2322: ...
+    const match = line.match(/^(\S.*?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.*)$/)
+      ?? line.match(/^(\S.*?):(\d+):(\d+) - (error|warning) (TS\d+): (.*)$/);
+    if (!match) continue;
+    diagnostics.push({
+      tool: "tsc",
+      file: match[1]!,
+      line: toNumber(match[2]),
+      column: toNumber(match[3]),
+      severity: match[4] as DiagnosticSeverity,
+      code: match[5]!,
+      message: match[6]!.trim(),
+    });
+  }
+  return diagnostics;
+}
+
+export function parseGoBuildOutput(output: string): BuildDiagnostic[] {
+  const diagnostics: BuildDiagnostic[] = [];
+  for (const line of lines(output)) {
+    const match = line.match(/^(?:vet: )?(\S.*?\.go):(\d+)(?::(\d+))?: (.*)$/);
+    if (!match) continue;
+    diagnostics.push({
+      tool: "go",
+      file: match[1]!,
+      line: toNumber(match[2]),
+      column: toNumber(match[3]),
+      severity: "error",
+      code: null,
+      message: match[4]!.trim(),
+    });
+  }
+  return diagnostics;
+}
+
+export function parseCargoOutput(output: string): BuildDiagnostic[] {
+  const diagnostics: BuildDiagnostic[] = [];
+  let pending: { severity: DiagnosticSeverity; code: string | null; message: string } | null = null;
+  for (const line of lines(output)) {
+    const header = line.match(/^(error|warning)(?:\[(\w+)\])?: (.+)$/);
+    if (header) {
+      pending = { severity: header[1] as DiagnosticSeverity, code: header[2] ?? null, message: header[3]!.trim() };
+      continue;
+    }
+    // The location arrow follows the header; summaries like "could not compile" have none
+    const location = line.match(/^\s*--> (.+?):(\d+):(\d+)\s*$/);
+    if (location && pending) {
+      diagnostics.push({
+        tool: "cargo",
+        file: location[1]!,
+        line: toNumber(location[2]),
+        column: toNumber(location[3]),
+        ...pending,
+      });
+      pending = null;
+    }
+  }
+  return diagnostics;
+}
+
+export function parseEslintOutput(output: string): BuildDiagnostic[] {
+  const diagnostics: BuildDiagnostic[] = [];
+  let currentFile: string | null = null;
+  for (const line of lines(output)) {
+    // unix formatter: path:line:col: message [Error/rule]
+    const unix = line.match(/^(\S.*?):(\d+):(\d+): (.*?) \[(Error|Warning)(?:\/(\S+))?\]$/);
+    if (unix) {
+      diagnostics.push({
+        tool: "eslint",
+        file: unix[1]!,
+        line: toNumber(unix[2]),
+        column: toNumber(unix[3]),
+        severity: unix[5] === "Error" ? "error" : "warning",
+        code: unix[6] ?? null,
+        message: unix[4]!.trim(),
+      });
+      continue;
+    }
+    // stylish formatter: a file path on its own line, then indented "line:col  severity  message  rule"
+    const entry = line.match(/^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)(?:\s{2,}(\S+))?\s*$/);
+    if (entry && currentFile) {
+      diagnostics.push({
+        tool: "eslint",
+        file: currentFile,
+        line: toNumber(entry[1]),
+        column: toNumber(entry[2]),
+        severity: entry[3] as DiagnosticSeverity,
+        code: entry[5] ?? null,
+        message: entry[4]!.trim(),
+      });
+      continue;
+    }
+    if (/^\S.*\.(?:[cm]?[jt]sx?|vue|svelte|astro)$/.test(line.trim()) && !/\s/.test(line.trim())) currentFile = line.trim();
+    else if (!line.trim()) currentFile = null;
+  }
+  return diagnostics;
+}
+
+const severityRank: Record<DiagnosticSeverity, number> = { error: 0, warning: 1 };
+
+/**
+ * Parse a build command's combined stdout/stderr. Every parser runs, since one command
+ * often chains several tools (`tsc && eslint .`). Paths under `worktreePath` are made
+ * relative to it, duplicates are dropped, and errors sort before warnings.
+ */
+export function parseBuildOutput(output: string, worktreePath?: string): BuildDiagnostic[] {
+  const prefix = worktreePath ? `${worktreePath.replace(/\/+$/, "")}/` : null;
+  const seen = new Set<string>();
+  const diagnostics: BuildDiagnostic[] = [];
+  for (const diagnostic of [
+    ...parseTscOutput(output),
+    ...parseGoBuildOutput(output),
+    ...parseCargoOutput(output),
+    ...parseEslintOutput(output),
+  ]) {
+    let file = diagnostic.file;
+    if (prefix && file.startsWith(prefix)) file = file.slice(prefix.length);
+    file = file.replace(/^\.\//, "");
+    const key = `${file}:${diagnostic.line}:${diagnostic.column}:${diagnostic.code}:${diagnostic.message}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    diagnostics.push({ ...diagnostic, file });
+  }
+  return diagnostics.sort((a, b) => severityRank[a.severity] - severityRank[b.severity]);
+}
+
+/**
+ * Diagnostics as a prompt section grouped by file. When `relevantFiles` is given, only
+ * diagnostics in those files are kept, unless none match: a broken build elsewhere
+ * still needs fixing, so then everything is shown.
+ */
+export function formatDiagnosticsByFile(
+  diagnostics: BuildDiagnostic[],
+  relevantFiles?: string[] | null,
+  limit = 50,
+): string | null {
+  if (diagnostics.length === 0) return null;
+  const relevant = new Set((relevantFiles ?? []).map((f) => f.replace(/^\.\//, "")));
+  const matching = diagnostics.filter((d) => relevant.has(d.file));
+  const shown = (matching.length > 0 ? matching : diagnostics).slice(0, limit);
+
+  const byFile = new Map<string, BuildDiagnostic[]>();
+  for (const d of shown) byFile.set(d.file, [...(byFile.get(d.file) ?? []), d]);
+  const sections = [...byFile.entries()].map(([file, entries]) => [
+    `### ${file}`,
+    ...entries.map((d) => {
+      const where = d.line !== null ? `${d.line}${d.column !== null ? `:${d.column}` : ""}` : "?";
+      return `- ${where} ${d.severity}${d.code ? ` ${d.code}` : ""} (${d.tool}): ${d.message}`;
+    }),
+  ].join("\n"));
+
+  const hidden = diagnostics.length - shown.length;
+  if (hidden > 0) sections.push(`(${hidden} more diagnostic(s) not shown)`);
+  return sections.join("\n\n");
+}
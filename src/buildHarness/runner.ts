@@ -0,0 +1,125 @@
+import type { AgentLike } from "smithers-orchestrator";
+import { runShellCommand } from "../shellCommand";
+import { parseBuildOutput, type BuildDiagnostic } from "./diagnostics";
+
+/**
+ * Harness-run build verification. The harness runs each configured build command in
+ * the ticket's worktree and records the compiler and linter diagnostics it parsed. No
+ * agent is involved: fixes happen in the next implement round, which gets the
+ * diagnostics for the files it touched.
+ *
+ * Exposed as an AgentLike whose "prompt" carries a JSON request, like the test harness.
+ */
+
+export type BuildStepConfig = {
+  name: string;
+  command: string;
+};
+
+export type BuildVerifyRequest = {
+  ticketId: string;
+  worktreePath: string;
+  steps: BuildStepConfig[];
+  /** Per-command time limit (default 20 minutes) */
+  timeoutMs?: number;
+};
+
+export type BuildStepResult = {
+  name: string;
+  command: string;
+  passed: boolean;
+  exitCode: number | null;
+  durationMs: number | null;
+  /** Diagnostics parsed from this command's output */
+  diagnosticCount: number;
+};
+
+export type BuildVerifyResult = {
+  buildPassed: boolean;
+  /** One line per failed command */
+  errors: string[] | null;
+  commands: BuildStepResult[];
+  diagnostics: BuildDiagnostic[] | null;
+};
+
+const REQUEST_MARKER = "BUILD_VERIFY_REQUEST_JSON";
+const DEFAULT_TIMEOUT_MS = 20 * 60_000;
+const MAX_DIAGNOSTICS = 500;
+
+function lastLine(output: string): string | null {
+  return output.split("\n").map((l) => l.trim()).filter(Boolean).pop()?.slice(0, 300) ?? null;
+}
+
+/** Run every build step in order; a failing step doesn't stop the rest */
+export async function runBuildVerify(request: BuildVerifyRequest): Promise<BuildVerifyResult> {
+  const timeoutMs = request.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const commands: BuildStepResult[] = [];
+  const diagnostics: BuildDiagnostic[] = [];
+  const errors: string[] = [];
+
+  for (const step of request.steps) {
+    const run = await runShellCommand(step.command, request.worktreePath, timeoutMs);
+    const parsed = parseBuildOutput(run.output, request.worktreePath);
+    const errorCount = parsed.filter((d) => d.severity === "error").length;
+    const passed = run.exitCode === 0;
+    commands.push({
+      name: step.name,
+      command: step.command,
+      passed,
+      exitCode: run.exitCode,
+      durationMs: run.durationMs,
+      diagnosticCount: parsed.length,
+    });
+    diagnostics.push(...parsed);
+
+    if (run.timedOut) errors.push(`${step.name}: timed out after ${Math.round(timeoutMs / 1000)}s`);
+    else if (!passed) {
+      errors.push(errorCount > 0
+        ? `${step.name}: ${errorCount} error(s), exit code ${run.exitCode}`
+        : `${step.name}: exit code ${run.exitCode}: ${lastLine(run.output) ?? "no output"}`);
+    }
+  }
+
+  // Errors first, so a capped list never drops them
+  const kept = [
+    ...diagnostics.filter((d) => d.severity === "error"),
+    ...diagnostics.filter((d) => d.severity !== "error"),
+  ].slice(0, MAX_DIAGNOSTICS);
+  return {
+    buildPassed: commands.every((c) => c.passed),
+    errors: errors.length > 0 ? errors : null,
+    commands,
+    diagnostics: kept.length > 0 ? kept : null,
+  };
+}
+
+export function buildBuildVerifyPrompt(request: BuildVerifyRequest): string {
+  const steps = request.steps.length > 0
+    ? request.steps.map((s) => `- ${s.name}: \`${s.command}\``).join("\n")
+    : "- (none configured)";
+  return [
+    `BUILD VERIFICATION — Ticket: ${request.ticketId}`,
+    "",
+    "Run these build commands in the ticket worktree and record the parsed diagnostics:",
+    steps,
+    "",
+    REQUEST_MARKER,
+    JSON.stringify(request),
+  ].join("\n");
+}
+
+function extractBuildVerifyRequest(prompt: string): BuildVerifyRequest {
+  const markerIndex = prompt.indexOf(REQUEST_MARKER);
+  if (markerIndex === -1) throw new Error("Build verify request marker not found in prompt.");
+  return JSON.parse(prompt.slice(markerIndex + REQUEST_MARKER.length).trim()) as BuildVerifyRequest;
+}
+
+export function createBuildVerifyAgent(id = "super-ralph-build-verify"): AgentLike {
+  return {
+    id,
+    async generate(args) {
+      const output = await runBuildVerify(extractBuildVerifyRequest(args.prompt ?? ""));
+      return { output };
+    },
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * `super-ralph approve|reject <ticket-id>`: record a landing decision in the workflow DB,
+ * for the ticket's latest report in the run (`--run`, default: the latest run). A running
+ * workflow picks the decision up on its next scheduling pass.
+ */
+
+import { Database } from "bun:sqlite";
+import { existsSync } from "node:fs";
+import { userInfo } from "node:os";
+import { recordLandingDecision, type LandingDecision } from "../landingApproval";
+import { latestRunId, readReportIteration } from "../workflowDb";
+
+/** Login name recorded with decisions and ticket edits */
+export function currentUserName(): string | null {
+  try {
+    return userInfo().username || process.env.USER || null;
+  } catch {
+    return process.env.USER ?? null; // no passwd entry
+  }
+}
+
+export function runLandingDecisionCommand(params: {
+  dbPath: string;
+  decision: LandingDecision["decision"];
+  ticketId: string;
+  comment: string | null;
+  /** Run the decision is for; defaults to the latest */
+  runId?: string;
+}): void {
+  const { dbPath, decision, ticketId, comment } = params;
+  if (!existsSync(dbPath)) {
+    throw new Error(`No workflow database at ${dbPath}. Run super-ralph in this repo first, or pass --cwd.`);
+  }
+  if (decision === "rejected" && !comment) {
+    throw new Error("A rejection needs --comment explaining what to change; it goes into the ticket's next implement prompt.");
+  }
+
+  const decidedBy = currentUserName();
+  const db = new Database(dbPath);
+  let reportIteration: number;
+  try {
+    const runId = params.runId ?? latestRunId(db);
+    if (!runId) throw new Error("No runs recorded in the workflow database yet.");
+    reportIteration = readReportIteration(db, runId, ticketId);
+    if (reportIteration === 0) {
+      throw new Error(`${ticketId} has no report in run ${runId} yet; decide once its report is written.`);
+    }
+    recordLandingDecision(db, { runId, ticketId, reportIteration, decision, comment, decidedBy, decidedAtMs: Date.now() });
+  } finally {
+    db.close();
+  }
+  console.log(decision === "approved"
+    ? `✅ Approved report ${reportIteration} of ${ticketId} for landing.`
+    : `↩️  Rejected report ${reportIteration} of ${ticketId}; it goes back for rework with your comment.`);
+}
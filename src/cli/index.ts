@@ -9,6 +9,7 @@
  * 1. ClarifyingQuestions component generates and collects user preferences
  * 2. InterpretConfig component converts preferences into SuperRalph configuration
  * 3. SuperRalph + Monitor run in parallel to execute the workflow with live monitoring
+ *    (with --dashboard, a web dashboard served from this process replaces the terminal Monitor)
  *
  * Everything is orchestrated through Smithers, providing:
  * - Resumability (can restart from any step)
@@ -21,6 +22,13 @@ import { mkdir, readFile, writeFile } from "node:fs/promises";
 import { basename, dirname, join, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
 import { randomUUID } from "node:crypto";
+import { runLandingDecisionCommand } from "./approvals";
+import { TICKET_SUBCOMMANDS, runTicketCommand, type TicketSubcommand } from "./tickets";
+import { INSPECT_COMMANDS, runInspectCommand, type InspectCommand } from "./inspect";
+import { listRuns, openWorkflowDb } from "../workflowDb";
+import { startDashboardServer, type DashboardServer } from "../dashboard/server";
+import type { RunEventSinkConfig } from "../runEvents";
+import { DEFAULT_REPORT_INTERVAL_MINUTES, startStatusReporter, type StatusReporter } from "../statusReport";
 
 type ParsedArgs = {
   positional: string[];
@@ -33,19 +41,61 @@ function printHelp() {
 Usage:
   super-ralph "prompt text"
   super-ralph ./PROMPT.md
+  super-ralph approve <ticket-id> [--comment "..."]
+  super-ralph reject <ticket-id> --comment "..."
+  super-ralph status                Active jobs, tickets per stage and the merge queue
+  super-ralph tickets               Tickets with their stage (--stage, --state, --focus, --priority, --all)
+  super-ralph show <ticket-id>      Every stage output recorded for a ticket
+  super-ralph runs                  Past runs in the workflow database
+  super-ralph resume <run-id>       Continue a run with the last generated workflow
+  super-ralph dashboard             Serve the web dashboard for the workflow database (--run, --port, --host)
+  super-ralph ticket add "<title>"  Add a ticket to the backlog of a live run
+  super-ralph ticket edit <id>      Change a ticket's fields
+  super-ralph ticket priority <id> <critical|high|medium|low>
+  super-ralph ticket pause|resume <id>        Hold a ticket out of scheduling, or schedule it again
+  super-ralph ticket cancel|abandon <id>      Drop a ticket; cancelling also removes its worktree and bookmark
 
 Options:
   --cwd <path>                    Repo root (default: current directory)
   --max-concurrency <n>           Workflow max concurrency override
+  --report-interval-minutes <n>   Write a Markdown status report to .super-ralph/reports/ this often
+                                  (default: ${DEFAULT_REPORT_INTERVAL_MINUTES}; 0 turns reports off)
   --run-id <id>                   Explicit Smithers run id
   --dry-run                       Generate workflow files but do not execute
   --skip-questions                Skip the clarifying questions phase
+  --vcs <jj|git>                  Version control backend for landing (default: jj if available, else git)
+  --main-branch <name>            Branch tickets land on and status reports follow (default: main)
+  --worktree-root <path>          Directory for job worktrees; {projectId} and {runId} are expanded
+                                  (default: <tmpdir>/super-ralph/{projectId})
+  --max-worktree-disk-mb <n>      Disk cap for the worktree root; idle worktrees are removed past it
+  --landing-approval <policy>     Tickets needing approval before landing: always or never (default: never)
+  --import <files>                Seed tickets from tracker exports, comma-separated: GitHub issues JSON,
+                                  Linear/Jira CSV or Markdown checklists
+  --no-discovery                  Work only the imported tickets; no discovery jobs
+  --dashboard                     Serve the web dashboard while the run executes, instead of the terminal Monitor
+  --events-file <path>            Append run events (tickets, stages, reviews, landings) as NDJSON
+  --events-webhook <url>          POST each run event as JSON to a webhook
+  --events-hook <command>         Run a shell command per run event, with the event in $SUPER_RALPH_EVENT
+  --port <n>                      Dashboard port (default: the first free port from 4500)
+  --host <address>                Dashboard address (default: 127.0.0.1; 0.0.0.0 lets teammates connect)
+  --comment <text>                Comment recorded with approve/reject
+  --run <id>                      Run for status/tickets/approve/reject (default: the latest)
+  --json                          Print status/tickets/show/runs as JSON
+  --title, --description, --category, --priority <text>
+                                  Ticket fields for ticket add/edit
+  --criteria "<a>; <b>"           Acceptance criteria for ticket add/edit
+  --files <a,b>, --depends-on <ids>
+                                  Relevant files and dependencies for ticket add/edit
+  --id <ticket-id>                ID for ticket add (default: M-<n>)
+  --reason <text>                 Reason recorded with ticket pause/cancel/abandon
   --help                          Show this help
 
 Examples:
   super-ralph "Build a React todo app"
   super-ralph ./specs/feature.md --max-concurrency 8
   super-ralph "Add authentication" --skip-questions
+  super-ralph reject T-12 --comment "Keep the public API unchanged"
+  super-ralph dashboard --host 0.0.0.0
 `);
 }
 
@@ -249,6 +299,27 @@ function findSmithersCliPath(repoRoot: string): string | null {
   return null;
 }
 
+type Vcs = "jj" | "git";
+
+/**
+ * Pick the landing backend: an explicit --vcs wins, otherwise jj when the repo is
+ * jj-colocated or jj is installed, and plain git as a last resort.
+ */
+async function resolveVcs(flag: string | boolean | undefined, repoRoot: string): Promise<Vcs> {
+  if (flag === "jj" || flag === "git") return flag;
+  if (typeof flag === "string") {
+    throw new Error(`Unknown --vcs value "${flag}". Use "jj" or "git".`);
+  }
+  if (existsSync(join(repoRoot, ".jj"))) return "jj";
+  return (await commandExists("jj", repoRoot)) ? "jj" : "git";
+}
+
+async function ensureGitAvailable(repoRoot: string) {
+  const ok = await commandExists("git", repoRoot);
+  if (ok) return;
+  throw new Error("git is required for the git landing backend. Install git, or install jj and pass --vcs jj.");
+}
+
 async function ensureJjAvailable(repoRoot: string) {
   const ok = await commandExists("jj", repoRoot);
   if (ok) return;
@@ -284,8 +355,18 @@ function renderWorkflowFile(params: {
   detectedAgents: { claude: boolean; codex: boolean };
   fallbackConfig: any;
   clarificationSession: any | null;
+  vcs: Vcs;
+  worktreeRoot: string | null;
+  maxWorktreeDiskMb: number | null;
+  landingApproval: "always" | "never";
+  ticketImports: string[];
+  discovery: boolean;
+  /** Render the terminal Monitor next to SuperRalph; off when the web dashboard is served instead */
+  tuiMonitor: boolean;
+  eventSinks: RunEventSinkConfig[];
+  mainBranch: string;
 }): string {
-  const { promptText, promptSpecPath, repoRoot, dbPath, packageScripts, detectedAgents, fallbackConfig, clarificationSession } = params;
+  const { promptText, promptSpecPath, repoRoot, dbPath, packageScripts, detectedAgents, fallbackConfig, clarificationSession, vcs, worktreeRoot, maxWorktreeDiskMb, landingApproval, ticketImports, discovery, tuiMonitor, eventSinks, mainBranch } = params;
 
   // Determine import strategy:
   // If target repo is super-ralph itself, use relative imports
@@ -321,6 +402,15 @@ const PROMPT_SPEC_PATH = ${JSON.stringify(promptSpecPath)};
 const PACKAGE_SCRIPTS = ${JSON.stringify(packageScripts, null, 2)};
 const FALLBACK_CONFIG = ${JSON.stringify(fallbackConfig, null, 2)};
 const CLARIFICATION_SESSION = ${JSON.stringify(clarificationSession)};
+const VCS = ${JSON.stringify(vcs)};
+const MAIN_BRANCH = ${JSON.stringify(mainBranch)};
+const WORKTREE_ROOT = ${JSON.stringify(worktreeRoot)};
+const MAX_WORKTREE_DISK_MB = ${JSON.stringify(maxWorktreeDiskMb)};
+const LANDING_APPROVAL = ${JSON.stringify(landingApproval)};
+const TICKET_IMPORTS = ${JSON.stringify(ticketImports.map((path) => ({ path })))};
+const DISCOVERY = ${JSON.stringify(discovery)};
+const TUI_MONITOR = ${JSON.stringify(tuiMonitor)};
+const EVENT_SINKS = ${JSON.stringify(eventSinks, null, 2)};
 
 const { smithers, outputs, Workflow } = createSmithers(
   ralphOutputSchemas,
@@ -355,7 +445,7 @@ function choose(primary: "claude" | "codex", systemPrompt: string) {
 }
 
 const planningAgent = choose("claude", "Plan and research next tickets.");
-const implementationAgent = choose("claude", "Implement with test-driven development and jj workflows.");
+const implementationAgent = choose("claude", \`Implement with test-driven development and \${VCS} workflows.\`);
 const testingAgent = choose("claude", "Run tests and validate behavior changes.");
 const reviewingAgent = choose("codex", "Review for regressions, spec drift, and correctness.");
 const reportingAgent = choose("claude", "Write concise, accurate ticket status reports.");
@@ -384,6 +474,15 @@ export default smithers((ctx) => (
           ctx={ctx}
           outputs={outputs}
           {...((ctx.outputMaybe("interpret-config", outputs.interpret_config) as any) || FALLBACK_CONFIG)}
+          vcs={VCS}
+          commitConfig={{ mainBranch: MAIN_BRANCH }}
+          dbPath={DB_PATH}
+          worktreeRoot={WORKTREE_ROOT ?? undefined}
+          maxWorktreeDiskMb={MAX_WORKTREE_DISK_MB ?? undefined}
+          landingApproval={LANDING_APPROVAL}
+          ticketImports={TICKET_IMPORTS}
+          discovery={DISCOVERY}
+          eventSinks={EVENT_SINKS}
           agents={{
             planning: planningAgent,
             implementation: implementationAgent,
@@ -393,14 +492,18 @@ export default smithers((ctx) => (
           }}
         />
 
-        <Monitor
-          dbPath={DB_PATH}
-          runId={ctx.runId}
-          config={(ctx.outputMaybe("interpret-config", outputs.interpret_config) as any) || FALLBACK_CONFIG}
-          clarificationSession={CLARIFICATION_SESSION}
-          prompt={PROMPT_TEXT}
-          repoRoot={REPO_ROOT}
-        />
+        {TUI_MONITOR && (
+          <Monitor
+            dbPath={DB_PATH}
+            runId={ctx.runId}
+            config={{ ...((ctx.outputMaybe("interpret-config", outputs.interpret_config) as any) || FALLBACK_CONFIG), commitConfig: { mainBranch: MAIN_BRANCH } }}
+            clarificationSession={CLARIFICATION_SESSION}
+            prompt={PROMPT_TEXT}
+            repoRoot={REPO_ROOT}
+            vcs={VCS}
+            worktreeRoot={WORKTREE_ROOT ?? undefined}
+          />
+        )}
       </Parallel>
     </Sequence>
   </Workflow>
@@ -412,6 +515,26 @@ export default smithers((ctx) => (
  * Generate clarifying questions via claude --print, then launch the interactive UI.
  * Returns the completed ClarificationSession or null on failure.
  */
+/** Run event sinks from --events-file, --events-webhook and --events-hook */
+function parseEventSinks(flags: Record<string, string | boolean>, repoRoot: string): RunEventSinkConfig[] {
+  const sinks: RunEventSinkConfig[] = [];
+  for (const name of ["events-file", "events-webhook", "events-hook"]) {
+    if (flags[name] === true) throw new Error(`--${name} needs a value.`);
+  }
+  if (typeof flags["events-file"] === "string") {
+    sinks.push({ type: "ndjson", path: resolve(repoRoot, flags["events-file"]) });
+  }
+  if (typeof flags["events-webhook"] === "string") {
+    const url = flags["events-webhook"];
+    if (!/^https?:\/\//.test(url)) throw new Error(`--events-webhook must be an http(s) URL, got "${url}".`);
+    sinks.push({ type: "webhook", url });
+  }
+  if (typeof flags["events-hook"] === "string") {
+    sinks.push({ type: "command", command: flags["events-hook"], cwd: repoRoot });
+  }
+  return sinks;
+}
+
 async function runClarifyingQuestions(
   promptText: string,
   repoRoot: string,
@@ -580,6 +703,193 @@ Return ONLY valid JSON (no markdown fences, no commentary):
   return { answers, summary };
 }
 
+/**
+ * Run a generated workflow through the Smithers CLI; a known run ID resumes that run.
+ * Returns the exit code, so callers can stop the dashboard and reports before exiting.
+ */
+async function executeWorkflow(params: {
+  repoRoot: string;
+  smithersCliPath: string;
+  workflowPath: string;
+  /** Preload in the directory with node_modules */
+  preloadPath: string;
+  runId: string;
+  maxConcurrency: number;
+}): Promise<number> {
+  const { repoRoot, smithersCliPath, workflowPath, preloadPath, runId, maxConcurrency } = params;
+
+  // Execute the workflow using Smithers CLI
+  // Determine execution directory:
+  // - If running from super-ralph source, use super-ralph dir (has all deps including React)
+  // - Otherwise use smithers dir or repo root
+  let execCwd: string;
+  if (runningFromSource) {
+    execCwd = superRalphSourceRoot;
+  } else {
+    const smithersDir = dirname(dirname(smithersCliPath)); // Go up from src/cli to smithers root
+    execCwd = existsSync(join(smithersDir, "node_modules")) ? smithersDir : repoRoot;
+  }
+
+  const args = [
+    "-r",
+    preloadPath,
+    smithersCliPath,
+    "run",
+    workflowPath,
+    "--root",
+    repoRoot,
+    "--run-id",
+    runId,
+    "--max-concurrency",
+    String(maxConcurrency),
+  ];
+
+  const env = { ...process.env, USE_CLI_AGENTS: "1", SMITHERS_DEBUG: "1" };
+  delete (env as any).CLAUDECODE;
+
+  const proc = Bun.spawn(["bun", "--no-install", ...args], {
+    cwd: execCwd,
+    env: env as any,
+    stdout: "inherit",
+    stderr: "inherit",
+    stdin: "inherit",
+  });
+
+  const exitCode = await proc.exited;
+
+  if (exitCode === 0) {
+    console.log("\n✅ Super Ralph workflow completed successfully!\n");
+  } else {
+    console.error(`\n❌ Workflow exited with code ${exitCode}\n`);
+  }
+  return exitCode;
+}
+
+/** Start the web dashboard with --port/--host from the command line and print where it is */
+function startDashboard(dbPath: string, runId: string | undefined, flags: Record<string, string | boolean>): DashboardServer {
+  const port = typeof flags.port === "string" ? Number(flags.port) : undefined;
+  if (port !== undefined && !(Number.isInteger(port) && port > 0 && port < 65536)) {
+    throw new Error(`Invalid --port "${flags.port}".`);
+  }
+  const dashboard = startDashboardServer({
+    dbPath,
+    runId,
+    port,
+    host: typeof flags.host === "string" ? flags.host : undefined,
+  });
+  console.log(`📊 Dashboard: ${dashboard.url}`);
+  return dashboard;
+}
+
+/** --report-interval-minutes as a number of minutes; 0 means no reports */
+function parseReportInterval(flags: Record<string, string | boolean>): number {
+  const raw = flags["report-interval-minutes"];
+  if (raw === undefined) return DEFAULT_REPORT_INTERVAL_MINUTES;
+  const minutes = Number(raw);
+  if (typeof raw !== "string" || !Number.isFinite(minutes) || minutes < 0) {
+    throw new Error(`Invalid --report-interval-minutes "${raw}". Use a number of minutes, or 0 to turn reports off.`);
+  }
+  return minutes;
+}
+
+/** --main-branch, the branch tickets land on */
+function parseMainBranch(flags: Record<string, string | boolean>): string {
+  const raw = flags["main-branch"];
+  if (raw === undefined) return "main";
+  if (typeof raw !== "string" || raw === "") throw new Error("--main-branch needs a branch name.");
+  return raw;
+}
+
+/** The main branch a generated workflow lands on; "main" for workflows generated without one */
+async function readGeneratedMainBranch(workflowPath: string): Promise<string> {
+  const match = (await readFile(workflowPath, "utf8")).match(/^const MAIN_BRANCH = (".*");$/m);
+  return match ? JSON.parse(match[1]!) as string : "main";
+}
+
+/** The landing backend a generated workflow was written with; "jj" for workflows from before the git backend */
+async function readGeneratedVcs(workflowPath: string): Promise<Vcs> {
+  const match = (await readFile(workflowPath, "utf8")).match(/^const VCS = ("jj"|"git");$/m);
+  return match ? JSON.parse(match[1]!) as Vcs : "jj";
+}
+
+/** Write status reports for the run while it executes; null when they're turned off */
+function startStatusReports(repoRoot: string, runId: string, vcs: Vcs, mainBranch: string, intervalMinutes: number): StatusReporter | null {
+  if (intervalMinutes === 0) return null;
+  const reporter = startStatusReporter({
+    dbPath: join(repoRoot, ".super-ralph/workflow.db"),
+    runId,
+    repoRoot,
+    vcs,
+    mainBranch,
+    intervalMinutes,
+  });
+  console.log(`📝 Status reports: ${reporter.reportsDir} every ${intervalMinutes} min`);
+  return reporter;
+}
+
+/** Serve the dashboard until interrupted */
+async function runDashboard(repoRoot: string, flags: Record<string, string | boolean>) {
+  const dashboard = startDashboard(
+    join(repoRoot, ".super-ralph/workflow.db"),
+    typeof flags.run === "string" ? flags.run : undefined,
+    flags,
+  );
+  console.log("Press Ctrl+C to stop.");
+  await new Promise<void>((done) => {
+    process.once("SIGINT", () => {
+      dashboard.stop();
+      done();
+    });
+  });
+}
+
+/** Re-run the last generated workflow under an existing run ID, so Smithers picks up where it stopped */
+async function resumeRun(repoRoot: string, runId: string, flags: Record<string, string | boolean>) {
+  const generatedDir = join(repoRoot, ".super-ralph", "generated");
+  const workflowPath = join(generatedDir, "workflow.tsx");
+  if (!existsSync(workflowPath)) {
+    throw new Error(`No generated workflow at ${workflowPath}. Start a run with a prompt first.`);
+  }
+  const db = openWorkflowDb(join(repoRoot, ".super-ralph/workflow.db"));
+  const known = listRuns(db).some((r) => r.runId === runId);
+  db.close();
+  if (!known) {
+    throw new Error(`Run ${runId} not found. List runs with: super-ralph runs`);
+  }
+
+  const smithersCliPath = findSmithersCliPath(repoRoot);
+  if (!smithersCliPath) {
+    throw new Error(
+      "Could not find smithers CLI. Install smithers-orchestrator in this repo:\n  bun add smithers-orchestrator",
+    );
+  }
+  const superRalphPreload = join(superRalphSourceRoot, "preload.ts");
+  const fallbackConfig = buildFallbackConfig(repoRoot, join(generatedDir, "PROMPT.md"), await loadPackageScripts(repoRoot));
+  const maxConcurrency = typeof flags["max-concurrency"] === "string"
+    ? Math.max(1, Number(flags["max-concurrency"]) || fallbackConfig.maxConcurrency)
+    : fallbackConfig.maxConcurrency;
+  const reportInterval = parseReportInterval(flags);
+  // The run keeps the backend and branch it started with, whatever is installed now
+  const mainBranch = await readGeneratedMainBranch(workflowPath);
+  const vcs = await readGeneratedVcs(workflowPath);
+
+  console.log(`🔁 Resuming run ${runId}`);
+  console.log(`🔧 Workflow: ${workflowPath}\n`);
+  const dashboard = flags.dashboard ? startDashboard(join(repoRoot, ".super-ralph/workflow.db"), runId, flags) : null;
+  const reporter = startStatusReports(repoRoot, runId, vcs, mainBranch, reportInterval);
+  const exitCode = await executeWorkflow({
+    repoRoot,
+    smithersCliPath,
+    workflowPath,
+    preloadPath: existsSync(superRalphPreload) ? superRalphPreload : join(generatedDir, "preload.ts"),
+    runId,
+    maxConcurrency,
+  });
+  dashboard?.stop();
+  await reporter?.stop();
+  if (exitCode !== 0) process.exit(exitCode);
+}
+
 async function main() {
   const parsed = parseArgs(process.argv.slice(2));
 
@@ -592,6 +902,66 @@ async function main() {
     typeof parsed.flags.cwd === "string" ? parsed.flags.cwd : process.cwd(),
   );
 
+  const [command, ticketId] = parsed.positional;
+  if ((command === "approve" || command === "reject") && parsed.positional.length === 2) {
+    runLandingDecisionCommand({
+      dbPath: join(repoRoot, ".super-ralph/workflow.db"),
+      decision: command === "approve" ? "approved" : "rejected",
+      ticketId: ticketId!,
+      comment: typeof parsed.flags.comment === "string" ? parsed.flags.comment : null,
+      runId: typeof parsed.flags.run === "string" ? parsed.flags.run : undefined,
+    });
+    return;
+  }
+
+  if (INSPECT_COMMANDS.includes(command as InspectCommand) && parsed.positional.length === (command === "show" ? 2 : 1)) {
+    runInspectCommand({
+      dbPath: join(repoRoot, ".super-ralph/workflow.db"),
+      command: command as InspectCommand,
+      args: parsed.positional.slice(1),
+      flags: parsed.flags,
+    });
+    return;
+  }
+
+  if (command === "ticket" && TICKET_SUBCOMMANDS.includes(parsed.positional[1] as TicketSubcommand)) {
+    runTicketCommand({
+      dbPath: join(repoRoot, ".super-ralph/workflow.db"),
+      subcommand: parsed.positional[1] as TicketSubcommand,
+      args: parsed.positional.slice(2),
+      flags: parsed.flags,
+    });
+    return;
+  }
+
+  if (command === "dashboard" && parsed.positional.length === 1) {
+    await runDashboard(repoRoot, parsed.flags);
+    return;
+  }
+
+  if (command === "resume" && parsed.positional.length === 2) {
+    await resumeRun(repoRoot, parsed.positional[1]!, parsed.flags);
+    return;
+  }
+
+  const landingApproval = parsed.flags["landing-approval"] ?? "never";
+  if (landingApproval !== "always" && landingApproval !== "never") {
+    throw new Error(`Unknown --landing-approval value "${landingApproval}". Use "always" or "never".`);
+  }
+
+  const ticketImports = typeof parsed.flags.import === "string"
+    ? parsed.flags.import.split(",").map((p) => p.trim()).filter(Boolean).map((p) => resolve(repoRoot, p))
+    : [];
+  for (const path of ticketImports) {
+    if (!existsSync(path)) throw new Error(`Ticket import file not found: ${path}`);
+  }
+  if (parsed.flags["no-discovery"] && ticketImports.length === 0) {
+    throw new Error("--no-discovery needs tickets from --import; without either there is nothing to work on.");
+  }
+  const eventSinks = parseEventSinks(parsed.flags, repoRoot);
+  const reportInterval = parseReportInterval(parsed.flags);
+  const mainBranch = parseMainBranch(parsed.flags);
+
   const rawPromptInput = parsed.positional.join(" ").trim();
   const { promptText, promptSourcePath } = await readPromptInput(rawPromptInput, repoRoot);
 
@@ -601,7 +971,12 @@ async function main() {
 
   console.log("🚀 Super Ralph - Smithers Workflow Edition\n");
 
-  await ensureJjAvailable(repoRoot);
+  const vcs = await resolveVcs(parsed.flags.vcs, repoRoot);
+  if (vcs === "jj") {
+    await ensureJjAvailable(repoRoot);
+  } else {
+    await ensureGitAvailable(repoRoot);
+  }
 
   const smithersCliPath = findSmithersCliPath(repoRoot);
   if (!smithersCliPath) {
@@ -648,6 +1023,15 @@ async function main() {
     detectedAgents: { claude: detectedAgents.claude, codex: detectedAgents.codex },
     fallbackConfig,
     clarificationSession,
+    vcs,
+    worktreeRoot: typeof parsed.flags["worktree-root"] === "string" ? resolve(repoRoot, parsed.flags["worktree-root"]) : null,
+    maxWorktreeDiskMb: Number(parsed.flags["max-worktree-disk-mb"]) > 0 ? Number(parsed.flags["max-worktree-disk-mb"]) : null,
+    landingApproval,
+    ticketImports,
+    discovery: !parsed.flags["no-discovery"],
+    tuiMonitor: !parsed.flags.dashboard,
+    eventSinks,
+    mainBranch,
   });
 
   await writeFile(workflowPath, workflowSource, "utf8");
@@ -692,6 +1076,7 @@ async function main() {
   console.log(`🔧 Workflow: ${workflowPath}`);
   console.log(`💾 Database: ${dbPath}`);
   console.log(`🆔 Run ID: ${runId}`);
+  console.log(`🌿 VCS: ${vcs}`);
   console.log(`🤖 Agents: claude=${detectedAgents.claude} codex=${detectedAgents.codex} gh=${detectedAgents.gh}`);
   console.log(`⚡ Concurrency: ${maxConcurrencyOverride}\n`);
 
@@ -702,54 +1087,19 @@ async function main() {
 
   console.log("🎬 Starting workflow execution...\n");
 
-  // Execute the workflow using Smithers CLI
-  // Determine execution directory:
-  // - If running from super-ralph source, use super-ralph dir (has all deps including React)
-  // - Otherwise use smithers dir or repo root
-  let execCwd: string;
-  if (runningFromSource) {
-    execCwd = superRalphSourceRoot;
-  } else {
-    const smithersDir = dirname(dirname(smithersCliPath)); // Go up from src/cli to smithers root
-    execCwd = existsSync(join(smithersDir, "node_modules")) ? smithersDir : repoRoot;
-  }
-
-  // Use the preload that's in the directory with node_modules
-  const effectivePreload = useSharedPreload ? superRalphPreload : preloadPath;
-
-  const args = [
-    "-r",
-    effectivePreload,
+  const dashboard = parsed.flags.dashboard ? startDashboard(dbPath, runId, parsed.flags) : null;
+  const reporter = startStatusReports(repoRoot, runId, vcs, mainBranch, reportInterval);
+  const exitCode = await executeWorkflow({
+    repoRoot,
     smithersCliPath,
-    "run",
     workflowPath,
-    "--root",
-    repoRoot,
-    "--run-id",
+    preloadPath: useSharedPreload ? superRalphPreload : preloadPath,
     runId,
-    "--max-concurrency",
-    String(maxConcurrencyOverride),
-  ];
-
-  const env = { ...process.env, USE_CLI_AGENTS: "1", SMITHERS_DEBUG: "1" };
-  delete (env as any).CLAUDECODE;
-
-  const proc = Bun.spawn(["bun", "--no-install", ...args], {
-    cwd: execCwd,
-    env: env as any,
-    stdout: "inherit",
-    stderr: "inherit",
-    stdin: "inherit",
+    maxConcurrency: maxConcurrencyOverride,
   });
-
-  const exitCode = await proc.exited;
-
-  if (exitCode === 0) {
-    console.log("\n✅ Super Ralph workflow completed successfully!\n");
-  } else {
-    console.error(`\n❌ Workflow exited with code ${exitCode}\n`);
-    process.exit(exitCode);
-  }
+  dashboard?.stop();
+  await reporter?.stop();
+  if (exitCode !== 0) process.exit(exitCode);
 }
 
 main().catch((error) => {
@@ -0,0 +1,124 @@
+/**
+ * Read-only CLI commands over `.super-ralph/workflow.db`: `status`, `tickets`,
+ * `show <ticket-id>` and `runs`. Each prints a plain-text view, or JSON with --json.
+ */
+
+import type { Database } from "bun:sqlite";
+import {
+  latestRunId,
+  listRuns,
+  openWorkflowDb,
+  readRunStatus,
+  readTicketHistory,
+  readTicketSummaries,
+  type OutputRow,
+} from "../workflowDb";
+
+export const INSPECT_COMMANDS = ["status", "tickets", "show", "runs"] as const;
+export type InspectCommand = (typeof INSPECT_COMMANDS)[number];
+
+type Flags = Record<string, string | boolean>;
+
+function flagString(flags: Flags, name: string): string | undefined {
+  return typeof flags[name] === "string" ? (flags[name] as string) : undefined;
+}
+
+function table(header: string[], rows: string[][]): string {
+  if (rows.length === 0) return "(none)";
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((r) => (r[i] ?? "").length)));
+  const line = (cells: string[]) => cells.map((c, i) => (c ?? "").padEnd(widths[i]!)).join("  ").trimEnd();
+  return [line(header), line(widths.map((w) => "-".repeat(w))), ...rows.map(line)].join("\n");
+}
+
+function formatTime(ms: number | null): string {
+  return ms === null ? "—" : new Date(ms).toISOString().replace("T", " ").slice(0, 19);
+}
+
+function resolveRunId(db: Database, flags: Flags): string {
+  const runId = flagString(flags, "run") ?? latestRunId(db);
+  if (!runId) throw new Error("No runs recorded in the workflow database yet.");
+  return runId;
+}
+
+function printStatus(db: Database, flags: Flags): void {
+  const status = readRunStatus(db, resolveRunId(db, flags));
+  if (flags.json) return console.log(JSON.stringify(status, null, 2));
+
+  const stages = Object.entries(status.stageCounts).map(([stage, n]) => `${stage}=${n}`).join("  ") || "(no tickets)";
+  console.log(`Run: ${status.runId}`);
+  console.log(`Landed: ${status.landedCount}   Spend: $${status.spendUsd.toFixed(2)}`);
+  console.log(`Stages: ${stages}\n`);
+  console.log(`Active jobs (${status.activeJobs.length})`);
+  console.log(table(["JOB", "TYPE", "AGENT"], status.activeJobs.map((j) => [j.jobId, j.jobType, j.agentId])));
+  console.log(`\nMerge queue (${status.mergeQueue.length})`);
+  console.log(table(
+    ["TICKET", "PRIORITY", "APPROVAL", "TITLE"],
+    status.mergeQueue.map(({ ticket, decision }) => [ticket.id, ticket.priority, decision?.decision ?? "—", ticket.title]),
+  ));
+}
+
+function printTickets(db: Database, flags: Flags): void {
+  const runId = flags.all ? undefined : resolveRunId(db, flags);
+  const stage = flagString(flags, "stage");
+  const state = flagString(flags, "state");
+  const focus = flagString(flags, "focus");
+  const priority = flagString(flags, "priority");
+  const tickets = readTicketSummaries(db, runId).filter((t) =>
+    (!stage || t.stage === stage) &&
+    (!state || t.lifecycle === state) &&
+    (!focus || t.ticket.category === focus) &&
+    (!priority || t.ticket.priority === priority));
+  if (flags.json) return console.log(JSON.stringify(tickets, null, 2));
+
+  console.log(table(
+    ["TICKET", "STAGE", "STATE", "ROUND", "PRIORITY", "FOCUS", "REPORT", "TITLE"],
+    tickets.map((t) => [t.ticket.id, t.stage, t.lifecycle, String(t.reviewRound), t.ticket.priority, t.ticket.category, t.reportStatus ?? "—", t.ticket.title]),
+  ));
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "null";
+  if (typeof value === "string") return value.includes("\n") ? `\n    ${value.split("\n").join("\n    ")}` : value;
+  return JSON.stringify(value);
+}
+
+function printShow(db: Database, ticketId: string | undefined, flags: Flags): void {
+  if (!ticketId) throw new Error("Usage: super-ralph show <ticket-id>");
+  const rows: OutputRow[] = readTicketHistory(db, ticketId);
+  if (flags.json) return console.log(JSON.stringify(rows, null, 2));
+  if (rows.length === 0) return console.log(`No outputs recorded for ${ticketId}.`);
+
+  for (const row of rows) {
+    console.log(`── ${row.nodeId} [${row.table}] run=${row.runId} iteration=${row.iteration}`);
+    for (const [key, value] of Object.entries(row.values)) console.log(`  ${key}: ${formatValue(value)}`);
+    console.log("");
+  }
+}
+
+function printRuns(db: Database, flags: Flags): void {
+  const runs = listRuns(db);
+  if (flags.json) return console.log(JSON.stringify(runs, null, 2));
+  console.log(table(
+    ["RUN", "STARTED", "OUTPUTS", "TICKETS", "REPORTS", "LANDED"],
+    runs.map((r) => [r.runId, formatTime(r.startedAtMs), String(r.outputCount), String(r.ticketCount), String(r.reportCount), String(r.landedCount)]),
+  ));
+}
+
+export function runInspectCommand(params: { dbPath: string; command: InspectCommand; args: string[]; flags: Flags }): void {
+  const { dbPath, command, args, flags } = params;
+  const db = openWorkflowDb(dbPath);
+  try {
+    switch (command) {
+      case "status":
+        return printStatus(db, flags);
+      case "tickets":
+        return printTickets(db, flags);
+      case "show":
+        return printShow(db, args[0], flags);
+      case "runs":
+        return printRuns(db, flags);
+    }
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * `super-ralph ticket add|edit|priority|pause|resume|cancel|abandon`: add, change or take
+ * tickets out of scheduling in the workflow DB while a run is live. The running workflow
+ * applies the change on its next scheduling pass.
+ */
+
+import { Database } from "bun:sqlite";
+import { existsSync } from "node:fs";
+import { currentUserName } from "./approvals";
+import { loadManualTicketOverrides, recordManualTicketChange, type ManualTicketChange, type ManualTicketFields } from "../manualTickets";
+import { recordTicketLifecycleChange, type TicketLifecycleState } from "../ticketLifecycle";
+import { readTickets } from "../workflowDb";
+import type { Ticket } from "../selectors";
+
+export const TICKET_SUBCOMMANDS = ["add", "edit", "priority", "pause", "resume", "cancel", "abandon"] as const;
+export type TicketSubcommand = (typeof TICKET_SUBCOMMANDS)[number];
+
+type Flags = Record<string, string | boolean>;
+
+const LIFECYCLE_STATES: Record<string, { state: TicketLifecycleState; message: string }> = {
+  pause: { state: "paused", message: "⏸️  Paused {id}; resume it with: super-ralph ticket resume {id}" },
+  resume: { state: "active", message: "▶️  Resumed {id}; it is scheduled again." },
+  cancel: { state: "cancelled", message: "🛑 Cancelled {id}; its worktree and bookmark will be removed." },
+  abandon: { state: "abandoned", message: "🏳️  Abandoned {id}; its bookmark is kept for inspection." },
+};
+
+const PRIORITIES: Array<Ticket["priority"]> = ["critical", "high", "medium", "low"];
+
+function parsePriorityArg(value: string | undefined): Ticket["priority"] {
+  if (!value || !PRIORITIES.includes(value as Ticket["priority"])) {
+    throw new Error(`Priority must be one of ${PRIORITIES.join(", ")}${value ? ` (got "${value}")` : ""}.`);
+  }
+  return value as Ticket["priority"];
+}
+
+function list(value: string, separator: RegExp): string[] {
+  return value.split(separator).map((item) => item.trim()).filter(Boolean);
+}
+
+/** Ticket fields set by flags; `--criteria` is split on ";", `--files` and `--depends-on` on "," */
+function fieldsFromFlags(flags: Flags): ManualTicketFields {
+  const text = (name: string) => (typeof flags[name] === "string" ? (flags[name] as string) : undefined);
+  const fields: ManualTicketFields = {};
+  if (text("title") !== undefined) fields.title = text("title");
+  if (text("description") !== undefined) fields.description = text("description");
+  if (text("category") !== undefined) fields.category = text("category");
+  if (flags.priority !== undefined) fields.priority = parsePriorityArg(text("priority"));
+  if (text("criteria") !== undefined) fields.acceptanceCriteria = list(text("criteria")!, /;/);
+  if (text("files") !== undefined) fields.relevantFiles = list(text("files")!, /,/);
+  if (text("depends-on") !== undefined) fields.dependencies = list(text("depends-on")!, /,/);
+  return fields;
+}
+
+function nextManualId(knownIds: Set<string>): string {
+  let max = 0;
+  for (const id of knownIds) {
+    const n = Number(id.match(/^M-(\d+)$/)?.[1]);
+    if (n > max) max = n;
+  }
+  return `M-${max + 1}`;
+}
+
+export function runTicketCommand(params: { dbPath: string; subcommand: TicketSubcommand; args: string[]; flags: Flags }): void {
+  const { dbPath, subcommand, args, flags } = params;
+  if (!existsSync(dbPath)) {
+    throw new Error(`No workflow database at ${dbPath}. Run super-ralph in this repo first, or pass --cwd.`);
+  }
+
+  const db = new Database(dbPath);
+  try {
+    const knownIds = new Set([
+      ...readTickets(db).map((t) => t.id),
+      ...loadManualTicketOverrides(db).keys(),
+    ]);
+    const record = (change: Omit<ManualTicketChange, "changedBy" | "changedAtMs">) =>
+      recordManualTicketChange(db, { ...change, changedBy: currentUserName(), changedAtMs: Date.now() });
+
+    switch (subcommand) {
+      case "add": {
+        const title = args.join(" ").trim() || (typeof flags.title === "string" ? flags.title : "");
+        if (!title) throw new Error('Usage: super-ralph ticket add "<title>" [--priority <p>] [--category <c>] [--description <d>]');
+        const ticketId = typeof flags.id === "string" ? flags.id : nextManualId(knownIds);
+        if (knownIds.has(ticketId)) throw new Error(`Ticket ${ticketId} already exists; change it with: super-ralph ticket edit ${ticketId}`);
+        const fields = { priority: "medium" as const, category: "general", description: "", ...fieldsFromFlags(flags), title };
+        record({ ticketId, action: "add", fields });
+        console.log(`➕ Added ${ticketId} (${fields.priority}): ${title}`);
+        return;
+      }
+      case "edit": {
+        const [ticketId] = args;
+        if (!ticketId) throw new Error("Usage: super-ralph ticket edit <ticket-id> [--title ...] [--description ...] [--category ...] [--priority ...] [--criteria \"a; b\"]");
+        if (!knownIds.has(ticketId)) throw new Error(`Unknown ticket ${ticketId}. List tickets with: super-ralph tickets --all`);
+        const fields = fieldsFromFlags(flags);
+        if (Object.keys(fields).length === 0) throw new Error("Nothing to change: pass at least one of --title, --description, --category, --priority, --criteria, --files, --depends-on.");
+        record({ ticketId, action: "edit", fields });
+        console.log(`✏️  Updated ${ticketId}: ${Object.keys(fields).join(", ")}`);
+        return;
+      }
+      case "priority": {
+        const [ticketId, level] = args;
+        if (!ticketId || !level) throw new Error(`Usage: super-ralph ticket priority <ticket-id> <${PRIORITIES.join("|")}>`);
+        if (!knownIds.has(ticketId)) throw new Error(`Unknown ticket ${ticketId}. List tickets with: super-ralph tickets --all`);
+        const priority = parsePriorityArg(level);
+        record({ ticketId, action: "priority", fields: { priority } });
+        console.log(`🔀 ${ticketId} is now ${priority} priority.`);
+        return;
+      }
+      case "pause":
+      case "resume":
+      case "cancel":
+      case "abandon": {
+        const [ticketId] = args;
+        if (!ticketId) throw new Error(`Usage: super-ralph ticket ${subcommand} <ticket-id> [--reason "..."]`);
+        if (!knownIds.has(ticketId)) throw new Error(`Unknown ticket ${ticketId}. List tickets with: super-ralph tickets --all`);
+        const { state, message } = LIFECYCLE_STATES[subcommand]!;
+        recordTicketLifecycleChange(db, {
+          ticketId,
+          state,
+          reason: typeof flags.reason === "string" ? flags.reason : null,
+          changedBy: currentUserName(),
+          changedAtMs: Date.now(),
+        });
+        console.log(message.replaceAll("{id}", ticketId));
+        return;
+      }
+    }
+  } finally {
+    db.close();
+  }
+}
@@ -2,6 +2,7 @@ import React from "react";
 import { Task } from "smithers-orchestrator";
 import type { SmithersCtx } from "smithers-orchestrator";
 import { z } from "zod";
+import type { MergeQueueVcs } from "../mergeQueue/coordinator";
 
 export const mergeQueueResultSchema = z.object({
   ticketsLanded: z.array(z.object({
@@ -43,6 +44,7 @@ export type AgenticMergeQueueProps = {
   preLandChecks: string[];
   repoRoot: string;
   mainBranch?: string;
+  vcs?: MergeQueueVcs;
   maxSpeculativeDepth?: number;
   output: any;
 };
@@ -69,14 +71,49 @@ function buildQueueStatusTable(tickets: AgenticMergeQueueTicket[]): string {
   return [header, separator, ...rows].join("\n");
 }
 
+type VcsCommands = {
+  rebase: string;
+  fastForward: string;
+  push: string;
+  fetch: string;
+  log: string;
+  diff: string;
+  cleanup: string[];
+};
+
+function vcsCommands(vcs: MergeQueueVcs, mainBranch: string): VcsCommands {
+  if (vcs === "git") {
+    return {
+      rebase: `git rebase ${mainBranch} ticket/{ticketId}`,
+      fastForward: `git checkout ${mainBranch} && git merge --ff-only ticket/{ticketId}`,
+      push: `git push origin ${mainBranch}`,
+      fetch: `git fetch origin`,
+      log: `git log --oneline --reverse ${mainBranch}..ticket/{ticketId}`,
+      diff: `git diff --name-status ${mainBranch}...ticket/{ticketId}`,
+      cleanup: ["git worktree remove --force {worktreePath}", "git branch -D ticket/{ticketId}"],
+    };
+  }
+  return {
+    rebase: `jj rebase -b bookmark("ticket/{ticketId}") -d ${mainBranch}`,
+    fastForward: `jj bookmark set ${mainBranch} -r bookmark("ticket/{ticketId}")`,
+    push: `jj git push --bookmark ${mainBranch}`,
+    fetch: `jj git fetch`,
+    log: `jj log -r "main..bookmark(\\"ticket/{ticketId}\\")" --reversed`,
+    diff: `jj diff -r "roots(main..bookmark(\\"ticket/{ticketId}\\"))" --summary`,
+    cleanup: ["jj bookmark delete ticket/{ticketId}", "jj workspace close {worktreeName}"],
+  };
+}
+
 function buildMergeQueuePrompt(
   tickets: AgenticMergeQueueTicket[],
   repoRoot: string,
   mainBranch: string,
+  vcs: MergeQueueVcs,
   preLandChecks: string[],
   postLandChecks: string[],
   maxSpeculativeDepth: number,
 ): string {
+  const cmd = vcsCommands(vcs, mainBranch);
   const readyTickets = tickets.filter((t) => t.reportComplete && !t.landed);
   const queueTable = buildQueueStatusTable(readyTickets);
 
@@ -114,7 +151,7 @@ ${preLandCmds}
 
 2. **Rebase onto ${mainBranch}** — Rebase the ticket branch onto the current tip of ${mainBranch}:
    \`\`\`
-   jj rebase -b bookmark("ticket/{ticketId}") -d ${mainBranch}
+   ${cmd.rebase}
    \`\`\`
    If conflicts occur, attempt to understand the conflict. If it's trivially resolvable (e.g. lockfile, generated code), resolve it. Otherwise evict the ticket with detailed context about what conflicted and why.
 
@@ -123,18 +160,17 @@ ${postLandCmds}
 
 4. **Fast-forward ${mainBranch}** — If all checks pass:
    \`\`\`
-   jj bookmark set ${mainBranch} -r bookmark("ticket/{ticketId}")
+   ${cmd.fastForward}
    \`\`\`
 
 5. **Push** — Push the updated ${mainBranch}:
    \`\`\`
-   jj git push --bookmark ${mainBranch}
+   ${cmd.push}
    \`\`\`
 
-6. **Cleanup** — Delete the ticket bookmark and close the worktree:
+6. **Cleanup** — Delete the ticket ${vcs === "git" ? "branch" : "bookmark"} and close the worktree:
    \`\`\`
-   jj bookmark delete ticket/{ticketId}
-   jj workspace close {worktreeName}
+${cmd.cleanup.map((c) => `   ${c}`).join("\n")}
    \`\`\`
 
 ## Handling Failures
@@ -146,17 +182,16 @@ ${postLandCmds}
 - **CI failures**: Check if the failure is flaky (retry once). If it fails again, evict with the full CI output.
 - **Push failures**: This usually means ${mainBranch} moved. Fetch, re-rebase, and retry. If it fails 3 times, evict.
 
-## Available jj Operations
+## Available ${vcs} Operations
 
-All operations use \`jj\` (NOT git). Key commands:
-- \`jj rebase -b bookmark("ticket/{ticketId}") -d ${mainBranch}\` — Rebase ticket onto main
-- \`jj bookmark set ${mainBranch} -r bookmark("ticket/{ticketId}")\` — Fast-forward main
-- \`jj git push --bookmark ${mainBranch}\` — Push main to remote
-- \`jj git fetch\` — Fetch latest from remote
-- \`jj log -r "main..bookmark(\\"ticket/{ticketId}\\")" --reversed\` — Show ticket commits
-- \`jj diff -r "roots(main..bookmark(\\"ticket/{ticketId}\\"))" --summary\` — Show changed files
-- \`jj bookmark delete ticket/{ticketId}\` — Remove ticket bookmark
-- \`jj workspace close {name}\` — Close a worktree
+All operations use \`${vcs}\`${vcs === "jj" ? " (NOT git)" : ""}. Key commands:
+- \`${cmd.rebase}\` — Rebase ticket onto main
+- \`${cmd.fastForward}\` — Fast-forward main
+- \`${cmd.push}\` — Push main to remote
+- \`${cmd.fetch}\` — Fetch latest from remote
+- \`${cmd.log}\` — Show ticket commits
+- \`${cmd.diff}\` — Show changed files
+${cmd.cleanup.map((c) => `- \`${c}\` — Clean up after landing or eviction`).join("\n")}
 
 ## Output Format
 
@@ -175,6 +210,7 @@ export function AgenticMergeQueue({
   preLandChecks,
   repoRoot,
   mainBranch = "main",
+  vcs = "jj",
   maxSpeculativeDepth = 4,
   output,
 }: AgenticMergeQueueProps) {
@@ -188,6 +224,7 @@ export function AgenticMergeQueue({
     tickets,
     repoRoot,
     mainBranch,
+    vcs,
     preLandChecks,
     postLandChecks,
     maxSpeculativeDepth,
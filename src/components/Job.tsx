@@ -1,9 +1,17 @@
 import React from "react";
-import { Worktree, Task } from "smithers-orchestrator";
+import { Worktree, Task, Parallel } from "smithers-orchestrator";
 import type { SmithersCtx, AgentLike } from "smithers-orchestrator";
-import { selectResearch, selectPlan, selectImplement, selectTestResults, selectSpecReview, selectCodeReviews, selectLand } from "../selectors";
-import type { RalphOutputs, Ticket } from "../selectors";
+import { selectResearch, selectPlan, selectImplement, selectTestResults, selectTestSuiteStatuses, selectBuildVerify, selectSpecReview, selectCodeReviews, selectCodeReviewConsensus, selectReviewLoop, selectLand, isEvictedForRework, selectReportIteration } from "../selectors";
+import type { CodeReviewConsensusConfig, RalphOutputs, Ticket } from "../selectors";
+import { CODE_REVIEWER_SLOTS, codeReviewNodeId, type CodeReviewerSlot } from "../reviewConsensus";
+import { reviewRoundOfNodeId, type ReviewLoopConfig } from "../reviewLoop";
+import { buildTestHarnessPrompt, createTestHarnessAgent, type TestSuiteConfig } from "../testHarness/runner";
+import { buildBuildVerifyPrompt, createBuildVerifyAgent } from "../buildHarness/runner";
+import { formatDiagnosticsByFile } from "../buildHarness/diagnostics";
 import type { ScheduledJob } from "../scheduledTasks";
+import { jobWorktreeId, worktreePathFor } from "../worktreeManager";
+import { formatRejectionContext, type LandingDecision } from "../landingApproval";
+import { withStageEvents } from "../runEvents";
 import { jobNodeId } from "./TicketScheduler";
 import UpdateProgressPrompt from "../prompts/UpdateProgress.mdx";
 import DiscoverPrompt from "../prompts/Discover.mdx";
@@ -11,8 +19,6 @@ import IntegrationTestPrompt from "../prompts/IntegrationTest.mdx";
 import ResearchPrompt from "../prompts/Research.mdx";
 import PlanPrompt from "../prompts/Plan.mdx";
 import ImplementPrompt from "../prompts/Implement.mdx";
-import TestPrompt from "../prompts/Test.mdx";
-import BuildVerifyPrompt from "../prompts/BuildVerify.mdx";
 import SpecReviewPrompt from "../prompts/SpecReview.mdx";
 import CodeReviewPrompt from "../prompts/CodeReview.mdx";
 import ReviewFixPrompt from "../prompts/ReviewFix.mdx";
@@ -24,7 +30,13 @@ export type JobProps = {
   ctx: SmithersCtx<RalphOutputs>;
   outputs: RalphOutputs;
   agent: AgentLike;
+  /** Pool ID `agent` runs as, for run events; defaults to the scheduled one */
+  agentId?: string;
   retries: number;
+  /** Reviewers a code-review job fans out to; defaults to the "claude" slot run by `agent` */
+  codeReviewers?: Array<{ slot: CodeReviewerSlot; agent: AgentLike; agentId?: string }>;
+  reviewConsensus: CodeReviewConsensusConfig;
+  reviewLoop: ReviewLoopConfig;
 
   // Lookups
   ticketMap: Map<string, Ticket>;
@@ -32,6 +44,10 @@ export type JobProps = {
 
   // Project config
   projectName: string;
+  /** Directory holding this project's worktrees */
+  worktreeRoot: string;
+  /** Latest landing approval decision per ticket of the run */
+  landingDecisions: Map<string, LandingDecision>;
   specsPath: string;
   referenceFiles: string[];
   buildCmds: Record<string, string>;
@@ -42,18 +58,24 @@ export type JobProps = {
   findingsFile: string;
   prefix: string;
   mainBranch: string;
+  /** Backend agents commit and push ticket branches with; the prompts spell out its commands */
+  vcs: "jj" | "git";
   emojiPrefixes: string;
-  testSuites: Array<{ name: string; command: string; description: string }>;
+  testSuites: Array<TestSuiteConfig & { description: string }>;
+  /** Times the ticket's agent may fix failing suites before test results are recorded */
+  testFixAttempts: number;
   focusTestSuites: Record<string, { suites: string[]; setupHints: string[]; testDirs: string[] }>;
   focusDirs: Record<string, string[]>;
   completedTicketIds: string[];
   progressSummary: string | null;
   reviewFindings: string | null;
+  /** Cancelled and abandoned tickets discovery must not suggest again */
+  droppedTickets: string | null;
   focuses: ReadonlyArray<{ readonly id: string; readonly name: string }>;
 };
 
 function formatEvictionContext(land: any): string | null {
-  if (!land || land.merged === true || land.evicted !== true) return null;
+  if (!isEvictedForRework(land)) return null;
   const sections = [
     land.evictionReason ? `Reason: ${land.evictionReason}` : null,
     land.evictionDetails ? `Details:\n${land.evictionDetails}` : null,
@@ -64,37 +86,41 @@ function formatEvictionContext(land: any): string | null {
   return sections.length > 0 ? sections.join("\n\n") : null;
 }
 
-function wrapWorktree(id: string, child: React.ReactElement) {
-  return <Worktree id={`wt-${id}`} path={`/tmp/workflow-wt-${id}`}>{child}</Worktree>;
-}
 
 export function Job({
-  job, ctx, outputs, agent, retries,
+  job, ctx, outputs, agent, agentId, retries, codeReviewers, reviewConsensus, reviewLoop,
   ticketMap, focusMap,
-  projectName, specsPath, referenceFiles, buildCmds, testCmds,
+  projectName, worktreeRoot, landingDecisions, specsPath, referenceFiles, buildCmds, testCmds,
   codeStyle, reviewChecklist, progressFile, findingsFile,
-  prefix, mainBranch, emojiPrefixes, testSuites, focusTestSuites, focusDirs,
-  completedTicketIds, progressSummary, reviewFindings, focuses,
+  prefix, mainBranch, vcs, emojiPrefixes, testSuites, testFixAttempts, focusTestSuites, focusDirs,
+  completedTicketIds, progressSummary, reviewFindings, droppedTickets, focuses,
 }: JobProps) {
+  const worktreePath = (id: string) => worktreePathFor(worktreeRoot, id);
+  const wrapWorktree = (child: React.ReactElement) => {
+    const id = jobWorktreeId(job);
+    return id ? <Worktree id={`wt-${id}`} path={worktreePath(id)}>{child}</Worktree> : null;
+  };
+
   switch (job.jobType) {
     // --- Global jobs ---
     case "discovery":
-      return wrapWorktree("discover",
+      return wrapWorktree(
         <Task id={jobNodeId(job)} output={outputs.discover} agent={agent} retries={retries}>
           <DiscoverPrompt
             projectName={projectName} specsPath={specsPath} referenceFiles={referenceFiles}
             categories={focuses} completedTicketIds={completedTicketIds}
             previousProgress={progressSummary} reviewFindings={reviewFindings}
+            droppedTickets={droppedTickets}
           />
         </Task>
       );
 
     case "progress-update":
-      return wrapWorktree("update-progress",
+      return wrapWorktree(
         <Task id={jobNodeId(job)} output={outputs.progress} agent={agent} retries={retries}>
           <UpdateProgressPrompt
             projectName={projectName} progressFile={progressFile}
-            commitMessage={`${prefix} docs: update progress`} completedTickets={completedTicketIds}
+            commitMessage={`${prefix} docs: update progress`} completedTickets={completedTicketIds} vcs={vcs}
           />
         </Task>
       );
@@ -102,7 +128,7 @@ export function Job({
     case "codebase-review": {
       const focus = job.focusId ? focusMap.get(job.focusId) : null;
       if (!focus) return null;
-      return wrapWorktree(`codebase-review-${focus.id}`,
+      return wrapWorktree(
         <Task id={jobNodeId(job)} output={outputs.category_review} agent={agent} retries={retries}>
           <CategoryReviewPrompt categoryId={focus.id} categoryName={focus.name} relevantDirs={focusDirs[focus.id] ?? null} />
         </Task>
@@ -113,12 +139,12 @@ export function Job({
       const focus = job.focusId ? focusMap.get(job.focusId) : null;
       if (!focus) return null;
       const suiteInfo = focusTestSuites[focus.id] ?? { suites: [], setupHints: [], testDirs: [] };
-      return wrapWorktree(`integration-test-${focus.id}`,
+      return wrapWorktree(
         <Task id={jobNodeId(job)} output={outputs.integration_test} agent={agent} retries={retries}>
           <IntegrationTestPrompt
             categoryId={focus.id} categoryName={focus.name}
             suites={suiteInfo.suites} setupHints={suiteInfo.setupHints}
-            testDirs={suiteInfo.testDirs} findingsFile={findingsFile}
+            testDirs={suiteInfo.testDirs} findingsFile={findingsFile} vcs={vcs}
           />
         </Task>
       );
@@ -134,102 +160,125 @@ export function Job({
       const planData = selectPlan(ctx, ticket.id);
       const latestImpl = selectImplement(ctx, ticket.id);
       const latestTest = selectTestResults(ctx, ticket.id);
+      const configuredSuites = testSuites.length > 0 ? testSuites : Object.entries(testCmds).map(([name, command]) => ({
+        name: `${name} tests`, command, description: `Run ${name} tests`,
+      }));
+      const testStatuses = selectTestSuiteStatuses(ctx, ticket.id, configuredSuites);
+      const latestBuild = selectBuildVerify(ctx, ticket.id);
+      const buildDiagnostics = latestBuild && !latestBuild.buildPassed
+        ? formatDiagnosticsByFile(latestBuild.diagnostics ?? [], [...(latestImpl?.filesCreated ?? []), ...(latestImpl?.filesModified ?? [])])
+          ?? (latestBuild.errors ?? []).join("\n")
+        : null;
       const latestSpecReview = selectSpecReview(ctx, ticket.id);
-      const { worstSeverity: worstCodeSeverity, mergedIssues: mergedCodeIssues, mergedFeedback: mergedCodeFeedback } = selectCodeReviews(ctx, ticket.id);
+      const { mergedIssues: mergedCodeIssues, mergedFeedback: mergedCodeFeedback } = selectCodeReviews(ctx, ticket.id);
+      const codeConsensus = selectCodeReviewConsensus(ctx, ticket.id, reviewConsensus);
+      const codeSeverity = codeConsensus?.severity ?? "none";
+      const loop = selectReviewLoop(ctx, ticket.id, reviewConsensus, reviewLoop);
       const contextFilePath = researchData?.contextFilePath ?? `docs/context/${ticket.id}.md`;
       const planFilePath = planData?.planFilePath ?? `docs/plans/${ticket.id}.md`;
-      const evictionContext = formatEvictionContext(selectLand(ctx, ticket.id));
+      // A rework implement opens its round; the eviction or rejection it answers ended the one before
+      const reworkOfRound = job.jobType === "ticket:implement" ? reviewRoundOfNodeId(job.jobId) - 1 : 0;
+      const evictionContext = reworkOfRound >= 1 ? formatEvictionContext(selectLand(ctx, ticket.id, reworkOfRound)) : null;
+      const decision = landingDecisions.get(ticket.id);
+      const rejectionContext = reworkOfRound >= 1 && decision?.reportIteration === selectReportIteration(ctx, ticket.id)
+        ? formatRejectionContext(decision)
+        : null;
 
       const toArray = (v: unknown): string[] => Array.isArray(v) ? v : typeof v === "string" ? [v] : [];
       const reviewFeedback = (() => {
         const parts: string[] = [];
         const specApproved = latestSpecReview?.severity === "none";
-        const codeApproved = worstCodeSeverity === "none";
+        const codeApproved = !codeConsensus?.blocking;
         if (latestSpecReview && !specApproved) {
           parts.push(`SPEC REVIEW (${latestSpecReview.severity}): ${latestSpecReview.feedback}`);
           if (latestSpecReview.issues) parts.push(`Issues: ${toArray(latestSpecReview.issues).join("; ")}`);
         }
         if (!codeApproved && mergedCodeFeedback) {
-          parts.push(`CODE REVIEW (${worstCodeSeverity}): ${mergedCodeFeedback}`);
+          parts.push(`CODE REVIEW (${codeSeverity}): ${mergedCodeFeedback}`);
           if (mergedCodeIssues.length > 0) parts.push(`Issues: ${mergedCodeIssues.join("; ")}`);
         }
         return parts.length > 0 ? parts.join("\n\n") : null;
       })();
 
       const stage = job.jobType.replace("ticket:", "");
+      // Ticket stages report stage_started / stage_completed run events
+      const stageAgent = (stageAgentLike: AgentLike, nodeId: string, stageAgentId?: string) =>
+        withStageEvents(stageAgentLike, { runId: ctx.runId, ticketId: ticket.id, stage, jobId: job.jobId, nodeId, agentId: stageAgentId });
+      const ticketAgentId = agentId ?? job.agentId;
+      const ticketAgent = stageAgent(agent, jobNodeId(job), ticketAgentId);
       const taskElement = (() => {
         switch (stage) {
           case "research":
             return (
-              <Task id={jobNodeId(job)} output={outputs.research} agent={agent} retries={retries}>
+              <Task id={jobNodeId(job)} output={outputs.research} agent={ticketAgent} retries={retries}>
                 <ResearchPrompt
                   ticketId={ticket.id} ticketTitle={ticket.title} ticketDescription={ticket.description}
                   ticketCategory={ticket.category} referenceFiles={ticket.referenceFiles ?? []}
                   relevantFiles={ticket.relevantFiles ?? []} contextFilePath={contextFilePath}
-                  referencePaths={[specsPath, ...referenceFiles]} evictionContext={evictionContext}
+                  referencePaths={[specsPath, ...referenceFiles]} evictionContext={evictionContext} vcs={vcs}
                 />
               </Task>
             );
           case "plan":
             return (
-              <Task id={jobNodeId(job)} output={outputs.plan} agent={agent} retries={retries}>
+              <Task id={jobNodeId(job)} output={outputs.plan} agent={ticketAgent} retries={retries}>
                 <PlanPrompt
                   ticketId={ticket.id} ticketTitle={ticket.title} ticketDescription={ticket.description}
                   ticketCategory={ticket.category} acceptanceCriteria={ticket.acceptanceCriteria ?? []}
                   contextFilePath={contextFilePath} researchSummary={researchData?.summary ?? null}
                   evictionContext={evictionContext} planFilePath={planFilePath}
                   tddPatterns={["Write tests FIRST, then implementation"]}
-                  commitPrefix={prefix} mainBranch={mainBranch}
+                  commitPrefix={prefix} mainBranch={mainBranch} vcs={vcs}
                 />
               </Task>
             );
           case "implement":
             return (
-              <Task id={jobNodeId(job)} output={outputs.implement} agent={agent} retries={retries}>
+              <Task id={jobNodeId(job)} output={outputs.implement} agent={ticketAgent} retries={retries}>
                 <ImplementPrompt
                   ticketId={ticket.id} ticketTitle={ticket.title} ticketCategory={ticket.category}
                   planFilePath={planFilePath} contextFilePath={contextFilePath}
                   implementationSteps={planData?.implementationSteps ?? null}
                   previousImplementation={latestImpl ?? null} evictionContext={evictionContext}
+                  rejectionContext={rejectionContext}
                   reviewFeedback={reviewFeedback} failingTests={latestTest?.failingSummary ?? null}
+                  buildDiagnostics={buildDiagnostics || null}
                   testWritingGuidance={["Write unit tests AND integration tests"]}
                   implementationGuidance={["Follow architecture patterns from specs"]}
                   formatterCommands={Object.entries(buildCmds).map(([lang]) => `Format ${lang}`)}
                   verifyCommands={Object.values(buildCmds)}
                   architectureRules={[`Read ${specsPath} for patterns`]}
-                  commitPrefix={prefix} mainBranch={mainBranch} emojiPrefixes={emojiPrefixes}
+                  commitPrefix={prefix} mainBranch={mainBranch} vcs={vcs} emojiPrefixes={emojiPrefixes}
                 />
               </Task>
             );
           case "test":
             return (
-              <Task id={jobNodeId(job)} output={outputs.test_results} agent={agent} retries={retries}>
-                <TestPrompt
-                  ticketId={ticket.id} ticketTitle={ticket.title} ticketCategory={ticket.category}
-                  testSuites={testSuites.length > 0 ? testSuites : Object.entries(testCmds).map(([name, command]) => ({
-                    name: `${name} tests`, command, description: `Run ${name} tests`,
-                  }))}
-                  fixCommitPrefix="🐛 fix" mainBranch={mainBranch}
-                />
+              // The harness runs the suites; the agent is only called to fix failures
+              <Task id={jobNodeId(job)} output={outputs.test_results} agent={stageAgent(createTestHarnessAgent(agent), jobNodeId(job), ticketAgentId)} retries={retries}>
+                {buildTestHarnessPrompt({
+                  ticketId: ticket.id, ticketTitle: ticket.title, worktreePath: worktreePath(ticket.id),
+                  suites: configuredSuites, maxFixAttempts: testFixAttempts, fixCommitPrefix: "🐛 fix", vcs,
+                })}
               </Task>
             );
           case "build-verify":
             return (
-              <Task id={jobNodeId(job)} output={outputs.build_verify} agent={agent} retries={retries}>
-                <BuildVerifyPrompt
-                  ticketId={ticket.id} ticketTitle={ticket.title} ticketCategory={ticket.category}
-                  filesCreated={latestImpl?.filesCreated ?? null} filesModified={latestImpl?.filesModified ?? null}
-                  whatWasDone={latestImpl?.whatWasDone ?? null}
-                />
+              // The harness runs buildCmds itself and parses the diagnostics; no agent is called
+              <Task id={jobNodeId(job)} output={outputs.build_verify} agent={stageAgent(createBuildVerifyAgent(), jobNodeId(job))} retries={retries}>
+                {buildBuildVerifyPrompt({
+                  ticketId: ticket.id, worktreePath: worktreePath(ticket.id),
+                  steps: Object.entries(buildCmds).map(([name, command]) => ({ name, command })),
+                })}
               </Task>
             );
           case "spec-review":
             return (
-              <Task id={jobNodeId(job)} output={outputs.spec_review} agent={agent} retries={retries}>
+              <Task id={jobNodeId(job)} output={outputs.spec_review} agent={ticketAgent} retries={retries}>
                 <SpecReviewPrompt
                   ticketId={ticket.id} ticketTitle={ticket.title} ticketCategory={ticket.category}
                   filesCreated={latestImpl?.filesCreated ?? null} filesModified={latestImpl?.filesModified ?? null}
-                  testResults={[{ name: "Tests", status: latestTest?.goTestsPassed ? "PASS" : "FAIL" }]}
+                  testResults={testStatuses}
                   failingSummary={latestTest?.failingSummary ?? null}
                   specChecks={[
                     { name: "Code Style", items: [codeStyle] },
@@ -238,42 +287,70 @@ export function Job({
                 />
               </Task>
             );
-          case "code-review":
+          case "code-review": {
+            // Each reviewer writes its own output; consensus is decided once all are in
+            const reviewers = codeReviewers ?? [{ slot: "claude" as const, agent, agentId: ticketAgentId }];
+            const round = reviewRoundOfNodeId(job.jobId);
             return (
-              <Task id={jobNodeId(job)} output={outputs.code_review} agent={agent} retries={retries}>
-                <CodeReviewPrompt
-                  ticketId={ticket.id} ticketTitle={ticket.title} ticketCategory={ticket.category}
-                  filesCreated={latestImpl?.filesCreated ?? null} filesModified={latestImpl?.filesModified ?? null}
-                  reviewChecklist={reviewChecklist}
-                />
-              </Task>
+              <Parallel>
+                {reviewers.map(({ slot, agent: reviewerAgent, agentId: reviewerAgentId }) => (
+                  <Task
+                    key={slot} id={codeReviewNodeId(ticket.id, slot, round)}
+                    output={outputs[CODE_REVIEWER_SLOTS[slot].output]}
+                    agent={stageAgent(reviewerAgent, codeReviewNodeId(ticket.id, slot, round), reviewerAgentId)} retries={retries}
+                  >
+                    <CodeReviewPrompt
+                      ticketId={ticket.id} ticketTitle={ticket.title} ticketCategory={ticket.category}
+                      filesCreated={latestImpl?.filesCreated ?? null} filesModified={latestImpl?.filesModified ?? null}
+                      reviewChecklist={reviewChecklist}
+                    />
+                  </Task>
+                ))}
+              </Parallel>
             );
+          }
           case "review-fix":
             return (
-              <Task id={jobNodeId(job)} output={outputs.review_fix} agent={agent} retries={retries}>
+              <Task id={jobNodeId(job)} output={outputs.review_fix} agent={ticketAgent} retries={retries}>
                 <ReviewFixPrompt
                   ticketId={ticket.id} ticketTitle={ticket.title} ticketCategory={ticket.category}
                   specSeverity={latestSpecReview?.severity ?? "none"} specFeedback={latestSpecReview?.feedback ?? ""}
-                  specIssues={latestSpecReview?.issues ?? null} codeSeverity={worstCodeSeverity}
+                  specIssues={latestSpecReview?.issues ?? null} codeSeverity={codeSeverity}
                   codeFeedback={mergedCodeFeedback} codeIssues={mergedCodeIssues.length > 0 ? mergedCodeIssues : null}
                   validationCommands={Object.values(testCmds)}
-                  commitPrefix="🐛 fix" mainBranch={mainBranch} emojiPrefixes={emojiPrefixes}
+                  commitPrefix="🐛 fix" mainBranch={mainBranch} vcs={vcs} emojiPrefixes={emojiPrefixes}
                 />
               </Task>
             );
           case "report":
+            // Out of fix rounds: report the ticket as blocked rather than ask an agent to
+            if (loop.blocked) {
+              const filesChanged = [...(latestImpl?.filesCreated ?? []), ...(latestImpl?.filesModified ?? [])];
+              return (
+                <Task id={jobNodeId(job)} output={outputs.report}>
+                  {() => ({
+                    ticketId: ticket.id,
+                    status: "blocked" as const,
+                    summary: `Reviews still report ${loop.outstandingIssues.length} issue(s) after ${loop.round} review round(s). Needs a human decision before landing.`,
+                    filesChanged: filesChanged.length > 0 ? filesChanged : null,
+                    testsAdded: null,
+                    reviewRounds: loop.round,
+                    struggles: null,
+                    lessonsLearned: null,
+                    outstandingIssues: loop.outstandingIssues,
+                  })}
+                </Task>
+              );
+            }
             return (
-              <Task id={jobNodeId(job)} output={outputs.report} agent={agent} retries={retries}>
+              <Task id={jobNodeId(job)} output={outputs.report} agent={ticketAgent} retries={retries}>
                 <ReportPrompt
                   ticketId={ticket.id} ticketTitle={ticket.title} ticketCategory={ticket.category}
                   acceptanceCriteria={ticket.acceptanceCriteria ?? []}
-                  specSeverity={latestSpecReview?.severity ?? "none"} codeSeverity={worstCodeSeverity}
-                  allIssuesResolved={(ctx.latest("review_fix", `${ticket.id}:review-fix`) as any)?.allIssuesResolved ?? true}
-                  reviewRounds={1}
-                  goTests={latestTest?.goTestsPassed ? "PASS" : "FAIL"}
-                  rustTests={latestTest?.rustTestsPassed ? "PASS" : "FAIL"}
-                  e2eTests={latestTest?.e2eTestsPassed ? "PASS" : "FAIL"}
-                  sqlcGen={latestTest?.sqlcGenPassed ? "PASS" : "FAIL"}
+                  specSeverity={latestSpecReview?.severity ?? "none"} codeSeverity={codeSeverity}
+                  allIssuesResolved={loop.fixNeeded === false}
+                  reviewRounds={loop.round}
+                  testResults={testStatuses}
                 />
               </Task>
             );
@@ -283,7 +360,7 @@ export function Job({
       })();
 
       if (!taskElement) return null;
-      return wrapWorktree(ticket.id, taskElement);
+      return wrapWorktree(taskElement);
     }
   }
 }
@@ -1,7 +1,23 @@
 import React from "react";
 import { Task } from "smithers-orchestrator";
 import { z } from "zod";
+import { currentUserName } from "../cli/approvals";
 import type { ClarificationSession } from "../cli/clarifications";
+import { recordManualTicketChange } from "../manualTickets";
+import type { CodeReviewerSlot } from "../reviewConsensus";
+import type { Ticket } from "../selectors";
+import { loadPendingTicketControls, requestQueueHold, requestStageRetry, type PendingTicketControls } from "../ticketControls";
+import { loadTicketLifecycle, recordTicketLifecycleChange, type TicketLifecycleChange } from "../ticketLifecycle";
+import { readWorktreeDiff, resolveWorktreeRoot, worktreePathFor } from "../worktreeManager";
+import {
+  hasTable,
+  readAgentPool,
+  readMergeQueueState,
+  readTicketPipelines,
+  type AgentPoolEntry,
+  type MergeQueueState,
+  type TicketPipeline,
+} from "../workflowDb";
 
 export const monitorOutputSchema = z.object({
   started: z.boolean(),
@@ -17,25 +33,75 @@ export type MonitorProps = {
   clarificationSession: ClarificationSession | null;
   prompt: string;
   repoRoot: string;
+  /** Size of the speculative merge queue window shown in the queue pane (default 3, as in SuperRalph) */
+  maxSpeculativeDepth?: number;
+  /** Version control backend and worktree root template, as given to SuperRalph, for ticket diffs */
+  vcs?: "jj" | "git";
+  worktreeRoot?: string;
 };
 
-type TaskStatus = "pending" | "running" | "completed" | "failed" | "blocked";
+type TaskStatus = "pending" | "running" | "completed" | "failed" | "blocked" | "paused" | "cancelled" | "abandoned";
 
-interface TaskInfo {
-  id: string;
-  nodeId: string;
+interface TicketRow {
+  pipeline: TicketPipeline;
   status: TaskStatus;
-  iteration: number;
-  output?: string;
+  lifecycle: TicketLifecycleChange | null;
+}
+
+/** When the Monitor saw each ticket enter its stage, and how long its earlier stages took */
+interface StageClock {
+  stage: string;
+  sinceMs: number;
+  /** The stage was already under way when the Monitor started, so its time is a lower bound */
+  partial: boolean;
+  durations: Array<{ stage: string; ms: number; partial: boolean }>;
+}
+
+/** Kanban columns of the board view, each covering one or more pipeline stages */
+const BOARD_COLUMNS: Array<{ title: string; stages: string[] }> = [
+  { title: "Backlog", stages: ["not_started"] },
+  { title: "Research", stages: ["research", "plan"] },
+  { title: "Implement", stages: ["implement", "test", "build_verify"] },
+  { title: "Review", stages: ["spec_review", "code_review", "review_fix"] },
+  { title: "Report", stages: ["report"] },
+  { title: "Landed", stages: ["landed"] },
+];
+
+const STAGE_ORDER = BOARD_COLUMNS.flatMap((column) => column.stages);
+
+const PRIORITIES: Array<Ticket["priority"]> = ["critical", "high", "medium", "low"];
+
+const MAX_DIFF_LINES = 2000;
+
+function ticketStatus(t: TicketPipeline): TaskStatus {
+  if (t.lifecycle !== "active") return t.lifecycle;
+  if (t.landed) return "completed";
+  if (t.evicted) return "failed";
+  if (t.reportStatus === "blocked") return "blocked";
+  return t.activeJob ? "running" : "pending";
+}
+
+function formatDuration(ms: number): string {
+  const s = Math.max(0, Math.round(ms / 1000));
+  if (s < 60) return `${s}s`;
+  const m = Math.floor(s / 60);
+  if (m < 60) return `${m}m`;
+  return `${Math.floor(m / 60)}h${String(m % 60).padStart(2, "0")}m`;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max - 1) + "…" : text;
 }
 
 /**
  * Monitor Smithers Component - OpenTUI Dashboard
- * 
+ *
  * Features:
- * - Real-time task list with status indicators  
- * - Navigate tasks with arrow keys
- * - View task details
+ * - Every ticket with its pipeline stage, active job and agent, time in stage and review severities
+ * - List view with ticket details, or a full-width kanban board grouped by stage (V to switch)
+ * - Merge queue window and agent pool pane
+ * - Keys acting on the selected ticket: pause/resume, retry its stage, raise its priority,
+ *   take it out of the merge queue, show its worktree diff
  * - Overall workflow progress
  */
 export function Monitor({
@@ -43,6 +109,9 @@ export function Monitor({
   runId,
   config,
   prompt,
+  maxSpeculativeDepth = 3,
+  vcs = "jj",
+  worktreeRoot,
 }: MonitorProps) {
   return (
     <Task
@@ -65,9 +134,20 @@ export function Monitor({
         });
 
         // State
-        let tasks: TaskInfo[] = [];
+        let tickets: TicketRow[] = [];
+        let queue: MergeQueueState | null = null;
+        let pool: AgentPoolEntry[] = [];
+        let controls: PendingTicketControls = { retries: [], queueHolds: new Set() };
+        const codeReviewerSlots = Object.keys(config.codeReviewers ?? {}) as CodeReviewerSlot[];
+        if (codeReviewerSlots.length === 0) codeReviewerSlots.push("claude");
+        // Last action's outcome, shown in the footer until the next key
+        let notice = "";
+        let diff: { ticketId: string; text: string } | null = null;
+        const clocks = new Map<string, StageClock>();
+        let firstPoll = true;
         let selectedIndex = 0;
         let focus: "list" | "detail" = "list";
+        let view: "list" | "board" = "list";
         let isRunning = true;
 
         // Colors
@@ -118,11 +198,11 @@ export function Monitor({
         });
         root.add(content);
 
-        // Task list
+        // Ticket list
         const listBox = new BoxRenderable(renderer, {
           id: "listBox",
           border: true,
-          title: " Tasks ",
+          title: " Tickets ",
           width: "45%",
           flexDirection: "column",
           borderColor: c.border,
@@ -142,6 +222,41 @@ export function Monitor({
         });
         listScroll.add(listContent);
 
+        // Board: one column per group of stages, shown instead of the list
+        const boardBox = new BoxRenderable(renderer, {
+          id: "boardBox",
+          border: false,
+          flexDirection: "row",
+          flexGrow: 1,
+          gap: 1,
+        });
+        boardBox.visible = false;
+        content.add(boardBox);
+
+        const boardColumns = BOARD_COLUMNS.map((column, i) => {
+          const box = new BoxRenderable(renderer, {
+            id: `boardColumn${i}`,
+            border: true,
+            title: ` ${column.title} `,
+            flexGrow: 1,
+            flexDirection: "column",
+            borderColor: c.border,
+          });
+          boardBox.add(box);
+          const scroll = new ScrollBoxRenderable(renderer, {
+            id: `boardScroll${i}`,
+            flexGrow: 1,
+            scrollY: true,
+          });
+          box.add(scroll);
+          const text = new TextRenderable(renderer, {
+            id: `boardText${i}`,
+            content: "",
+          });
+          scroll.add(text);
+          return { column, box, text };
+        });
+
         // Detail panel
         const detailBox = new BoxRenderable(renderer, {
           id: "detailBox",
@@ -162,14 +277,52 @@ export function Monitor({
 
         const detailContent = new TextRenderable(renderer, {
           id: "detailContent",
-          content: "Select a task",
+          content: "Select a ticket",
         });
         detailScroll.add(detailContent);
 
+        // Merge queue and agent pool pane
+        const bottom = new BoxRenderable(renderer, {
+          id: "bottom",
+          border: false,
+          flexDirection: "row",
+          height: 10,
+          gap: 1,
+        });
+        root.add(bottom);
+
+        const queueBox = new BoxRenderable(renderer, {
+          id: "queueBox",
+          border: true,
+          title: " Merge queue ",
+          width: "50%",
+          borderColor: c.border,
+        });
+        bottom.add(queueBox);
+        const queueContent = new TextRenderable(renderer, {
+          id: "queueContent",
+          content: "Loading...",
+        });
+        queueBox.add(queueContent);
+
+        const poolBox = new BoxRenderable(renderer, {
+          id: "poolBox",
+          border: true,
+          title: " Agent pool ",
+          flexGrow: 1,
+          borderColor: c.border,
+        });
+        bottom.add(poolBox);
+        const poolContent = new TextRenderable(renderer, {
+          id: "poolContent",
+          content: "Loading...",
+        });
+        poolBox.add(poolContent);
+
         // Footer
         const footer = new TextRenderable(renderer, {
           id: "footer",
-          content: "↑↓: Navigate | Tab: Switch | Q: Quit",
+          content: "",
           height: 1,
         });
         root.add(footer);
@@ -182,91 +335,255 @@ export function Monitor({
             case "completed": return "✓";
             case "failed": return "✗";
             case "blocked": return "⊘";
+            case "paused": return "⏸";
+            case "cancelled": return "⊗";
+            case "abandoned": return "⊖";
           }
         };
 
+        const inStage = (t: TicketRow) => {
+          const clock = clocks.get(t.pipeline.ticket.id);
+          if (!clock || t.pipeline.landed) return "";
+          return `${clock.partial ? "≥" : ""}${formatDuration(Date.now() - clock.sinceMs)}`;
+        };
+
+        const reviewLine = (t: TicketRow) =>
+          t.pipeline.reviews.map((r) => `${r.reviewer}=${r.severity}`).join(" ");
+
+        function detail(t: TicketRow): string {
+          const p = t.pipeline;
+          const clock = clocks.get(p.ticket.id);
+          const stageTimes = clock
+            ? [
+                ...clock.durations.map((d) => `${d.stage} ${d.partial ? "≥" : ""}${formatDuration(d.ms)}`),
+                ...(p.landed ? [] : [`${clock.stage} ${inStage(t)} (current)`]),
+              ].join(" · ")
+            : "—";
+          const retry = controls.retries.find((r) => r.ticketId === p.ticket.id);
+          return [
+            `${p.ticket.id}: ${p.ticket.title}`,
+            `Status: ${t.status.toUpperCase()} | Priority: ${p.ticket.priority} | Focus: ${p.ticket.category}`,
+            `Stage: ${p.stage} | Review round: ${p.reviewRound}`,
+            `Job: ${p.activeJob ? `${p.activeJob.jobId} (${p.activeJob.jobType}) on ${p.activeJob.agentId || "—"}` : "none"}`,
+            `Reviews: ${reviewLine(t) || "—"}`,
+            `Report: ${p.reportStatus ?? "—"}${p.evicted ? " | evicted from the merge queue" : ""}`,
+            `Stage times: ${stageTimes}`,
+            retry ? `Retrying: ${retry.jobId}` : null,
+            controls.queueHolds.has(p.ticket.id) ? "Held out of the merge queue (D to requeue)" : null,
+            t.lifecycle
+              ? `\n${t.lifecycle.state} ${new Date(t.lifecycle.changedAtMs).toISOString()}${t.lifecycle.changedBy ? ` by ${t.lifecycle.changedBy}` : ""}${t.lifecycle.reason ? `\nReason: ${t.lifecycle.reason}` : ""}`
+              : null,
+            p.ticket.description ? `\n${p.ticket.description}` : null,
+          ].filter((line) => line !== null).join("\n");
+        }
+
+        function queueText(): string {
+          if (!queue) {
+            const awaiting = tickets.filter((t) => t.pipeline.reportStatus === "complete" && !t.pipeline.landed && t.status !== "failed" && t.pipeline.lifecycle === "active" &&
+              !controls.queueHolds.has(t.pipeline.ticket.id));
+            return awaiting.length
+              ? `Awaiting landing (${awaiting.length}):\n` + awaiting.map((t) => `  ${t.pipeline.ticket.id} ${t.pipeline.ticket.priority}`).join("\n")
+              : "Queue empty";
+          }
+          const entry = (e: MergeQueueState["window"][number], i: number) =>
+            `  ${i + 1}. ${e.ticketId} ${e.priority}${e.invalidatedCount ? ` ↺${e.invalidatedCount}` : ""}${e.flakyRequeues ? ` flaky×${e.flakyRequeues}` : ""}`;
+          return [
+            `Window (${queue.window.length}/${maxSpeculativeDepth}):`,
+            ...(queue.window.length ? queue.window.map(entry) : ["  (empty)"]),
+            `Waiting: ${queue.waiting.map((e) => e.ticketId).join(", ") || "—"}`,
+            queue.landing ? `Landing: ${queue.landing.ticketIds.join(", ")} (${queue.landing.phase}, ${formatDuration(Date.now() - queue.landing.startedAtMs)})` : null,
+            controls.queueHolds.size ? `Held: ${[...controls.queueHolds].join(", ")}` : null,
+            `Recent: ${queue.resolved.map((e) => `${e.merged ? "✓" : "✗"}${e.ticketId}${e.evictionReason ? ` ${e.evictionReason}` : ""}`).join("  ") || "—"}`,
+          ].filter((line) => line !== null).join("\n");
+        }
+
+        function poolText(): string {
+          if (!pool.length) return "No agents yet...";
+          const now = Date.now();
+          return pool.map((a) => {
+            const state = a.rateLimitedUntil && a.rateLimitedUntil > now
+              ? `rate-limited ${formatDuration(a.rateLimitedUntil - now)}`
+              : a.jobs.length ? `◐ ${a.jobs.join(", ")}` : "idle";
+            const stats = a.successCount + a.failureCount > 0
+              ? ` | ${a.successCount}✓ ${a.failureCount}✗ avg ${formatDuration(a.avgDurationMs)}`
+              : "";
+            return `${truncate(a.agentId, 14).padEnd(14)} ${state}${stats}`;
+          }).join("\n");
+        }
+
         // Update display
         function update() {
           listBox.borderColor = focus === "list" ? c.selected : c.border;
           detailBox.borderColor = focus === "detail" ? c.selected : c.border;
+          listBox.visible = view === "list";
+          detailBox.visible = view === "list";
+          boardBox.visible = view === "board";
 
-          // Task list
-          listContent.content = tasks.length 
-            ? tasks.map((t, i) => {
+          const selected = tickets[selectedIndex];
+
+          // Ticket list
+          listContent.content = tickets.length
+            ? tickets.map((t, i) => {
                 const sel = i === selectedIndex ? "> " : "  ";
-                const name = t.nodeId.length > 30 ? t.nodeId.slice(0, 27) + "..." : t.nodeId;
-                return `${sel}${icon(t.status)} ${name}`;
+                const id = truncate(t.pipeline.ticket.id, 10).padEnd(10);
+                const agent = t.pipeline.activeJob?.agentId ?? "";
+                return `${sel}${icon(t.status)} ${id} ${t.pipeline.stage.padEnd(12)} ${inStage(t).padStart(5)} ${agent}`;
               }).join("\n")
-            : "No tasks yet...";
+            : "No tickets yet...";
+
+          // Board
+          for (const { column, box, text } of boardColumns) {
+            const cards = tickets.filter((t) => column.stages.includes(t.pipeline.stage));
+            box.title = ` ${column.title} (${cards.length}) `;
+            text.content = cards.map((t) => {
+              const sel = t === selected ? "> " : "  ";
+              const meta = [inStage(t), t.pipeline.activeJob?.agentId, reviewLine(t)].filter(Boolean).join(" ");
+              return `${sel}${icon(t.status)} ${t.pipeline.ticket.id}\n    ${truncate(t.pipeline.ticket.title, 16)}${meta ? `\n    ${meta}` : ""}`;
+            }).join("\n");
+          }
+
+          // Detail, or the selected ticket's worktree diff
+          const showDiff = !!selected && diff?.ticketId === selected.pipeline.ticket.id;
+          detailBox.title = showDiff ? ` Diff: ${diff!.ticketId} (Esc to close) ` : " Details ";
+          detailContent.content = showDiff ? diff!.text : selected ? detail(selected) : "Select a ticket";
+          footer.content = notice ||
+            "↑↓: Navigate | Tab: Switch | Enter: Details | V: List/Board | P: Pause/Resume | R: Retry stage | +: Priority | D: Dequeue/Requeue | G: Diff | Q: Quit";
 
-          // Detail
-          const task = tasks[selectedIndex];
-          detailContent.content = task
-            ? `Task: ${task.nodeId}\nStatus: ${task.status.toUpperCase()}\n\n${task.output || "No output"}`
-            : "Select a task";
+          queueContent.content = queueText();
+          poolContent.content = poolText();
 
           // Stats
-          const total = tasks.length;
-          const running = tasks.filter(t => t.status === "running").length;
-          const completed = tasks.filter(t => t.status === "completed").length;
-          const failed = tasks.filter(t => t.status === "failed").length;
-          statsText.content = `Total: ${total} | Running: ${running} | Completed: ${completed} | Failed: ${failed}`;
+          const total = tickets.length;
+          const running = tickets.filter(t => t.status === "running").length;
+          const completed = tickets.filter(t => t.status === "completed").length;
+          const failed = tickets.filter(t => t.status === "failed").length;
+          const paused = tickets.filter(t => t.status === "paused").length;
+          const dropped = tickets.filter(t => t.status === "cancelled" || t.status === "abandoned").length;
+          statsText.content = `Tickets: ${total} | Running: ${running} | Landed: ${completed} | Evicted: ${failed} | Paused: ${paused} | Cancelled/Abandoned: ${dropped}`;
 
           renderer.requestRender();
         }
 
+        // Track when each ticket entered its current stage
+        function tickClocks(rows: TicketRow[]) {
+          const now = Date.now();
+          for (const { pipeline } of rows) {
+            const clock = clocks.get(pipeline.ticket.id);
+            if (!clock) {
+              clocks.set(pipeline.ticket.id, { stage: pipeline.stage, sinceMs: now, partial: firstPoll && pipeline.stage !== "not_started", durations: [] });
+            } else if (clock.stage !== pipeline.stage) {
+              clock.durations.push({ stage: clock.stage, ms: now - clock.sinceMs, partial: clock.partial });
+              Object.assign(clock, { stage: pipeline.stage, sinceMs: now, partial: false });
+            }
+          }
+          firstPoll = false;
+        }
+
         // Poll database
         async function poll() {
           try {
             const db = new Database(dbPath, { readonly: true });
-            const taskMap = new Map<string, TaskInfo>();
-
-            // Query reports
             try {
-              const rows = db.query(`SELECT node_id, status, summary FROM report WHERE run_id = ?`).all(runId) as any[];
-              for (const row of rows) {
-                const status: TaskStatus = row.status === "complete" ? "completed" : 
-                                          row.status === "blocked" ? "blocked" : "running";
-                taskMap.set(row.node_id, {
-                  id: row.node_id,
-                  nodeId: row.node_id,
-                  status,
-                  iteration: 0,
-                  output: row.summary,
-                });
-              }
-            } catch {}
-
-            // Query land
-            try {
-              const rows = db.query(`SELECT node_id, merged, evicted, summary FROM land WHERE run_id = ?`).all(runId) as any[];
-              for (const row of rows) {
-                const status: TaskStatus = row.merged ? "completed" : row.evicted ? "failed" : "running";
-                taskMap.set(row.node_id, {
-                  id: row.node_id,
-                  nodeId: row.node_id,
-                  status,
-                  iteration: 0,
-                  output: row.summary,
-                });
-              }
-            } catch {}
-
-            db.close();
-
-            tasks = Array.from(taskMap.values()).sort((a, b) => {
-              if (a.status === "running" && b.status !== "running") return -1;
-              if (a.status !== "running" && b.status === "running") return 1;
-              return a.nodeId.localeCompare(b.nodeId);
-            });
-
-            if (selectedIndex >= tasks.length) selectedIndex = Math.max(0, tasks.length - 1);
+              const lifecycle = hasTable(db, "ticket_lifecycle") ? loadTicketLifecycle(db) : new Map<string, TicketLifecycleChange>();
+              const rows = readTicketPipelines(db, runId).map((pipeline) => ({
+                pipeline,
+                status: ticketStatus(pipeline),
+                lifecycle: pipeline.lifecycle !== "active" ? lifecycle.get(pipeline.ticket.id) ?? null : null,
+              }));
+              queue = readMergeQueueState(db, runId, maxSpeculativeDepth);
+              pool = readAgentPool(db, runId);
+              controls = hasTable(db, "ticket_controls")
+                ? loadPendingTicketControls(db, runId, codeReviewerSlots)
+                : { retries: [], queueHolds: new Set() };
+
+              // Keep the selection on the same ticket as rows move between stages
+              const selectedId = tickets[selectedIndex]?.pipeline.ticket.id;
+              tickets = rows.sort((a, b) =>
+                STAGE_ORDER.indexOf(b.pipeline.stage) - STAGE_ORDER.indexOf(a.pipeline.stage) ||
+                a.pipeline.ticket.id.localeCompare(b.pipeline.ticket.id));
+              tickClocks(tickets);
+              const kept = tickets.findIndex((t) => t.pipeline.ticket.id === selectedId);
+              selectedIndex = kept >= 0 ? kept : Math.min(selectedIndex, Math.max(0, tickets.length - 1));
+            } finally {
+              db.close();
+            }
           } catch {}
         }
 
-        // Input handler
-        renderer.addInputHandler((seq: string) => {
+        // Ticket actions write control records to the workflow DB; SuperRalph picks them
+        // up on its next render
+        function act(action: (db: InstanceType<typeof Database>, row: TicketRow) => string) {
+          const selected = tickets[selectedIndex];
+          if (!selected) return;
+          try {
+            const db = new Database(dbPath);
+            try {
+              notice = action(db, selected);
+            } finally {
+              db.close();
+            }
+          } catch (err) {
+            notice = `Failed: ${err instanceof Error ? err.message : String(err)}`;
+          }
+          void poll().then(update);
+        }
+
+        const togglePause = (db: InstanceType<typeof Database>, { pipeline }: TicketRow) => {
+          const id = pipeline.ticket.id;
+          if (pipeline.landed) return `${id} has already landed`;
+          if (pipeline.lifecycle !== "active" && pipeline.lifecycle !== "paused") {
+            return `${id} is ${pipeline.lifecycle}; change it with: super-ralph ticket resume ${id}`;
+          }
+          const state = pipeline.lifecycle === "paused" ? "active" : "paused";
+          recordTicketLifecycleChange(db, { ticketId: id, state, reason: null, changedBy: currentUserName(), changedAtMs: Date.now() });
+          return state === "paused" ? `Paused ${id}` : `Resumed ${id}`;
+        };
+
+        const retryStage = (db: InstanceType<typeof Database>, { pipeline }: TicketRow) => {
+          const control = requestStageRetry(db, { runId, ticketId: pipeline.ticket.id, requestedBy: currentUserName() });
+          return control ? `Retrying ${control.jobId}` : `${pipeline.ticket.id} has no stage to retry`;
+        };
+
+        const bumpPriority = (db: InstanceType<typeof Database>, { pipeline }: TicketRow) => {
+          const id = pipeline.ticket.id;
+          const index = PRIORITIES.indexOf(pipeline.ticket.priority);
+          if (index === 0) return `${id} is already critical`;
+          const priority = PRIORITIES[index < 0 ? PRIORITIES.length - 1 : index - 1]!;
+          recordManualTicketChange(db, { ticketId: id, action: "priority", fields: { priority }, changedBy: currentUserName(), changedAtMs: Date.now() });
+          return `${id} is now ${priority} priority`;
+        };
+
+        const toggleQueueHold = (db: InstanceType<typeof Database>, { pipeline }: TicketRow) => {
+          const id = pipeline.ticket.id;
+          const held = controls.queueHolds.has(id);
+          if (!held && (pipeline.reportStatus !== "complete" || pipeline.landed)) return `${id} isn't in the merge queue`;
+          requestQueueHold(db, { runId, ticketId: id, hold: !held, requestedBy: currentUserName() });
+          return held ? `Requeued ${id}` : `Removed ${id} from the merge queue`;
+        };
+
+        function openDiff() {
+          const selected = tickets[selectedIndex];
+          if (!selected) return;
+          const ticketId = selected.pipeline.ticket.id;
+          const root = resolveWorktreeRoot(worktreeRoot, { projectId: config.projectId ?? "default", runId });
+          diff = { ticketId, text: "Loading diff..." };
+          view = "list";
+          focus = "detail";
+          update();
+          void readWorktreeDiff(worktreePathFor(root, ticketId), vcs, config.commitConfig?.mainBranch ?? "main").then((text) => {
+            if (diff?.ticketId !== ticketId) return;
+            const lines = text.split("\n");
+            diff.text = lines.length > MAX_DIFF_LINES
+              ? [...lines.slice(0, MAX_DIFF_LINES), `… ${lines.length - MAX_DIFF_LINES} more lines`].join("\n")
+              : text;
+            update();
+          });
+        }
+
+        // Input handler, ahead of the renderer's own key parsing, which would consume the keys
+        renderer.prependInputHandler((seq: string) => {
           if (!isRunning) return false;
+          notice = "";
 
           if (seq === "q" || seq === "Q") {
             isRunning = false;
@@ -274,24 +591,57 @@ export function Monitor({
             return true;
           }
 
-          if (seq === "\t") {
+          if (seq === "\t" && view === "list") {
             focus = focus === "list" ? "detail" : "list";
             update();
             return true;
           }
 
-          if (focus === "list") {
+          if (seq === "v" || seq === "V") {
+            view = view === "list" ? "board" : "list";
+            update();
+            return true;
+          }
+
+          switch (seq) {
+            case "p":
+            case "P":
+              act(togglePause);
+              return true;
+            case "r":
+            case "R":
+              act(retryStage);
+              return true;
+            case "+":
+            case "=":
+              act(bumpPriority);
+              return true;
+            case "d":
+            case "D":
+              act(toggleQueueHold);
+              return true;
+            case "g":
+            case "G":
+              openDiff();
+              return true;
+          }
+
+          if (focus === "list" || view === "board") {
             switch (seq) {
               case "\x1b[A": // Up
                 selectedIndex = Math.max(0, selectedIndex - 1);
+                diff = null;
                 update();
                 return true;
               case "\x1b[B": // Down
-                selectedIndex = Math.min(tasks.length - 1, selectedIndex + 1);
+                selectedIndex = Math.min(tickets.length - 1, selectedIndex + 1);
+                diff = null;
                 update();
                 return true;
               case "\r":
               case "\n":
+                // From the board, Enter opens the selected ticket's details in the list view
+                view = "list";
                 focus = "detail";
                 update();
                 return true;
@@ -306,6 +656,7 @@ export function Monitor({
                 return true;
               case "\x1b":
                 focus = "list";
+                diff = null;
                 update();
                 return true;
             }
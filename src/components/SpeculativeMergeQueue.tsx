@@ -0,0 +1,96 @@
+import React from "react";
+import { Task } from "smithers-orchestrator";
+import type { SmithersCtx } from "smithers-orchestrator";
+import {
+  buildSpeculativeMergeQueuePrompt,
+  createSpeculativeMergeQueueAgent,
+  offerSpeculativeMergeQueueTickets,
+  type CiRetryPolicy,
+  type MergeQueueCiMode,
+  type MergeQueueOrderingStrategy,
+  type MergeQueueTicket,
+  type MergeQueueVcs,
+} from "../mergeQueue/coordinator";
+import { selectReportIteration, selectReviewRound } from "../selectors";
+import { reviewRoundNodeId } from "../reviewLoop";
+import type { AgenticMergeQueueTicket } from "./AgenticMergeQueue";
+
+export type SpeculativeMergeQueueProps = {
+  ctx: SmithersCtx<any>;
+  tickets: AgenticMergeQueueTicket[];
+  postLandChecks: string[];
+  repoRoot: string;
+  mainBranch?: string;
+  vcs?: MergeQueueVcs;
+  orderingStrategy?: MergeQueueOrderingStrategy;
+  maxSpeculativeDepth?: number;
+  queueId?: string;
+  ciMode?: MergeQueueCiMode;
+  ciRetries?: CiRetryPolicy;
+  dbPath?: string;
+  output: any;
+};
+
+const coordinatorAgent = createSpeculativeMergeQueueAgent();
+
+/**
+ * Deterministic alternative to AgenticMergeQueue: one `<ticketId>:land` task per
+ * ready ticket (`:r<round>` from review round 2 on), all handled by the in-process SpeculativeMergeQueueCoordinator,
+ * which batches them into speculative windows.
+ */
+export function SpeculativeMergeQueue({
+  ctx,
+  tickets,
+  postLandChecks,
+  repoRoot,
+  mainBranch = "main",
+  vcs = "jj",
+  orderingStrategy = "report-complete-fifo",
+  maxSpeculativeDepth = 3,
+  queueId = "default",
+  ciMode = "parallel",
+  ciRetries = 0,
+  dbPath,
+  output,
+}: SpeculativeMergeQueueProps) {
+  const readyTickets = tickets.filter((t) => t.reportComplete && !t.landed);
+  offerSpeculativeMergeQueueTickets(ctx.runId, queueId, readyTickets.map((t) => t.ticketId));
+  if (readyTickets.length === 0) return null;
+
+  const queueSnapshot: MergeQueueTicket[] = readyTickets.map((t) => ({
+    ticketId: t.ticketId,
+    ticketTitle: t.ticketTitle,
+    ticketCategory: t.ticketCategory,
+    priority: t.priority,
+    reportIteration: selectReportIteration(ctx, t.ticketId),
+    worktreePath: t.worktreePath,
+  }));
+
+  return (
+    <>
+      {queueSnapshot.map((ticket) => (
+        <Task
+          key={ticket.ticketId} id={reviewRoundNodeId(`${ticket.ticketId}:land`, selectReviewRound(ctx, ticket.ticketId))}
+          output={output} agent={coordinatorAgent}
+        >
+          {buildSpeculativeMergeQueuePrompt({
+            runId: ctx.runId,
+            queueId,
+            repoRoot,
+            postLandChecks,
+            orderingStrategy,
+            maxSpeculativeDepth,
+            ticket,
+            queueSnapshot,
+            readyForQueue: true,
+            dbPath,
+            vcs,
+            ciMode,
+            ciRetries,
+            mainBranch,
+          })}
+        </Task>
+      ))}
+    </>
+  );
+}
@@ -1,15 +1,32 @@
-import { Ralph, Parallel } from "smithers-orchestrator";
+import { Ralph, Parallel, Task } from "smithers-orchestrator";
 import type { SmithersCtx, AgentLike } from "smithers-orchestrator";
-import { selectAllTickets, selectReviewTickets, selectProgressSummary, selectLand, selectTicketReport } from "../selectors";
-import type { RalphOutputs, Ticket } from "../selectors";
+import { selectAllTickets, selectReviewTickets, selectProgressSummary, selectLand, selectTicketReport, isEvictedForRework, selectAgentUsage, selectRunSpendUsd, selectReviewLoop, selectSpecReview, selectCodeReviewConsensus, selectDecidedReviewRounds, selectReviewRulings, selectReportIteration } from "../selectors";
+import type { CodeReviewConsensusConfig, RalphOutputs, Ticket } from "../selectors";
 import React, { type ReactNode } from "react";
-import { type MergeQueueOrderingStrategy } from "../mergeQueue/coordinator";
-import { computePipelineStage, isJobComplete, type TicketSchedule, type TicketState } from "./TicketScheduler";
+import { type CiRetryPolicy, type MergeQueueCiMode, type MergeQueueOrderingStrategy, type MergeQueueVcs } from "../mergeQueue/coordinator";
+import { computePipelineStage, isImplementBlocked, isJobComplete, startsNewWork, type TicketSchedule, type TicketState } from "./TicketScheduler";
 import { TicketScheduler } from "./TicketScheduler";
 import { AgenticMergeQueue } from "./AgenticMergeQueue";
+import { SpeculativeMergeQueue } from "./SpeculativeMergeQueue";
 import { Job } from "./Job";
 import { Monitor } from "./Monitor";
 import type { ScheduledJob } from "../scheduledTasks";
+import { computeTicketBlockers } from "../ticketGraph";
+import { computeDeterministicSchedule, type SchedulerMode } from "../deterministicScheduler";
+import { getAgentRegistry, describeAgent, trackAgentCalls, type AgentRegistry } from "../agentRegistry";
+import { codeReviewNodeId, reviewerWeight, type CodeReviewerSlot, type ReviewConsensusPolicy } from "../reviewConsensus";
+import { readReviewHistory, reviewWeightsKey, tallyReviewerOutcomes, writeReviewHistory } from "../reviewHistory";
+import { reviewRoundOfNodeId, type ReviewLoopConfig } from "../reviewLoop";
+import type { TestSuiteConfig } from "../testHarness/runner";
+import { buildWorktreeGcPrompt, createWorktreeGcAgent, jobWorktreeId, resolveWorktreeRoot, worktreePathFor, type WorktreeGcResult } from "../worktreeManager";
+import { getResumableTickets } from "../durability";
+import { readManualTicketOverrides } from "../manualTickets";
+import { formatDroppedTickets, readTicketLifecycle, ticketLifecycleState, type TicketLifecycleChange } from "../ticketLifecycle";
+import { readPendingTicketControls, type PendingTicketControls } from "../ticketControls";
+import { buildTicketCleanupPrompt, createTicketCleanupAgent, type TicketCleanupResult } from "../ticketCleanup";
+import { buildTicketImportPrompt, createTicketImportAgent, type TicketImportSource } from "../ticketImport";
+import { getRunEventBus, type RunEventSinkConfig } from "../runEvents";
+import { landingApprovalState, readLandingDecisions, requiresLandingApproval, type LandingApprovalPolicy, type LandingDecision } from "../landingApproval";
 
 // --- Props ---
 
@@ -29,18 +46,29 @@ export type SuperRalphProps = {
 
   maxConcurrency: number;
   taskRetries?: number;
+  /**
+   * How jobs get scheduled: "agent" prompts the scheduler agent every time,
+   * "deterministic" uses rule-based scheduling only, and "hybrid" runs the rules
+   * first and only asks the agent when they find nothing to run.
+   */
+  scheduler?: SchedulerMode;
 
   agents: Record<string, {
     agent: any;
     description: string;
     isScheduler?: boolean;
     isMergeQueue?: boolean;
+    /** USD per token, used when the agent doesn't report its own cost */
+    costPerToken?: number;
   }>;
 
   progressFile?: string;
   findingsFile?: string;
   commitConfig?: { prefix?: string; mainBranch?: string; emojiPrefixes?: string };
-  testSuites?: Array<{ name: string; command: string; description: string }>;
+  /** Suites the test harness runs; `reportFile` points at a JUnit XML report the command writes */
+  testSuites?: Array<TestSuiteConfig & { description: string }>;
+  /** Times a ticket's agent may fix failing tests before the results are recorded (default 2) */
+  testFixAttempts?: number;
   focusTestSuites?: Record<string, { suites: string[]; setupHints: string[]; testDirs: string[] }>;
   focusDirs?: Record<string, string[]>;
   preLandChecks?: string[];
@@ -48,21 +76,97 @@ export type SuperRalphProps = {
   mergeQueueOrdering?: MergeQueueOrderingStrategy;
   maxSpeculativeDepth?: number;
   mergeQueueId?: string;
+  /**
+   * "agentic" lands tickets through the merge queue agent's prompt; "speculative"
+   * uses the in-process SpeculativeMergeQueueCoordinator.
+   */
+  mergeQueue?: "agentic" | "speculative";
+  /** CI strategy for the speculative queue: test every window entry, or the tip then bisect */
+  mergeQueueCiMode?: MergeQueueCiMode;
+  /** Retries for failing post-land checks in the speculative queue, overall or per command */
+  mergeQueueCiRetries?: CiRetryPolicy;
+  /** Version control backend used for landing (default "jj") */
+  vcs?: MergeQueueVcs;
+  /** Workflow SQLite DB: agent stats, speculative merge queue state, and tickets added or edited from the CLI */
+  dbPath?: string;
+  /**
+   * Run budget in USD. Once spent, no new tickets, discovery or reviews are scheduled;
+   * tickets already in flight still run to completion.
+   */
+  maxSpendUsd?: number;
+  /**
+   * Reviewers for `ticket:code-review`, as reviewer slot → pool agent ID. They run in
+   * parallel, each writing its own output. By default the scheduled agent reviews alone
+   * in the "claude" slot.
+   */
+  codeReviewers?: Partial<Record<CodeReviewerSlot, string>>;
+  /** How the code reviewers' verdicts decide whether a ticket needs review-fix (default "any-blocks") */
+  reviewConsensus?: ReviewConsensusPolicy;
+  /**
+   * Review rounds (spec-review + code-review, then review-fix) before a ticket whose
+   * reviews still find issues is escalated (default 3).
+   */
+  maxReviewRounds?: number;
+  /**
+   * Pool agent that gets one more review-fix round once `maxReviewRounds` is reached.
+   * Without one, or if its round still fails review, the ticket is reported as blocked
+   * with the outstanding issues.
+   */
+  reviewEscalationAgent?: string;
+  /**
+   * Directory for job worktrees; `{projectId}` and `{runId}` are expanded.
+   * Defaults to `<tmpdir>/super-ralph/{projectId}`.
+   */
+  worktreeRoot?: string;
+  /** Disk cap for the worktree root in MB; least recently used idle worktrees are removed past it */
+  maxWorktreeDiskMb?: number;
+  /** Minutes between worktree GC passes; one also runs at startup (default 30) */
+  worktreeGcIntervalMinutes?: number;
+  /**
+   * Which tickets need a human approval (`super-ralph approve|reject <ticket>`) before
+   * entering the merge queue (default "never"). Decisions are read from `dbPath`.
+   */
+  landingApproval?: LandingApprovalPolicy;
+  /**
+   * Tracker exports to seed the backlog from at the start of each run: GitHub issues
+   * JSON, Linear/Jira CSV or Markdown checklists. Paths are relative to the repo root.
+   */
+  ticketImports?: TicketImportSource[];
+  /** Schedule discovery jobs for new tickets (default true). Turn off to work only an imported backlog. */
+  discovery?: boolean;
+  /**
+   * Where run events (tickets discovered, stages, review verdicts, landings, evictions,
+   * rate limits) are sent: an NDJSON file, an HTTP webhook or a shell command
+   */
+  eventSinks?: RunEventSinkConfig[];
   children?: ReactNode;
 };
 
-type AgentPool = Record<string, { agent: any; description: string; isScheduler?: boolean; isMergeQueue?: boolean }>;
+type AgentPool = Record<string, { agent: any; description: string; isScheduler?: boolean; isMergeQueue?: boolean; costPerToken?: number }>;
 
-function resolveAgent(pool: AgentPool, agentId: string | undefined): AgentLike {
-  if (agentId && pool[agentId]) return pool[agentId].agent;
-  return Object.values(pool)[0]?.agent;
+/**
+ * Pick the pool agent to run as `agentId`. While that agent is rate-limited another
+ * available agent stands in, preferring ones that are neither scheduler nor merge
+ * queue; when every agent is limited the requested one is kept.
+ */
+function resolveAgentId(pool: AgentPool, agentId: string | undefined, registry: AgentRegistry): string | undefined {
+  const ids = Object.keys(pool);
+  const requested = agentId && pool[agentId] ? agentId : ids[0];
+  if (!requested || !registry.isRateLimited(requested)) return requested;
+  const available = ids.filter(id => id !== requested && !registry.isRateLimited(id));
+  return available.find(id => !pool[id]!.isScheduler && !pool[id]!.isMergeQueue) ?? available[0] ?? requested;
 }
 
-function buildAgentPoolDescription(pool: AgentPool): string {
-  const entries = Object.entries(pool);
-  if (entries.length === 0) return "(no agents registered)";
-  const rows = entries.map(([id, { description }]) => `| ${id} | ${description} |`);
-  return ["| Agent ID | Description |", "|----------|-------------|", ...rows].join("\n");
+/** Resolve an agent and record its calls in the AgentRegistry under the ID it resolved to */
+function resolveTrackedAgent(pool: AgentPool, agentId: string | undefined, taskId: string): AgentLike {
+  const registry = getAgentRegistry();
+  const resolvedId = resolveAgentId(pool, agentId, registry);
+  if (!resolvedId) return Object.values(pool)[0]?.agent;
+  const fallback = () => {
+    const nextId = resolveAgentId(pool, resolvedId, registry);
+    return nextId && nextId !== resolvedId ? { agentId: nextId, agent: pool[nextId]!.agent } : null;
+  };
+  return trackAgentCalls(registry, resolvedId, pool[resolvedId].agent, taskId, fallback);
 }
 
 /**
@@ -73,6 +177,8 @@ function hasTicketsReadyToAdvance(ticketStates: TicketState[]): boolean {
   return ticketStates.some(t => {
     // If ticket has landed or report is complete, it's done
     if (t.landed || t.reportComplete) return false;
+    // Evicted from the merge queue or rejected: implement runs again
+    if (t.reworkNeeded) return true;
 
     // Tickets at any stage can potentially advance to the next stage
     // as long as they haven't completed the entire pipeline
@@ -95,57 +201,189 @@ export function SuperRalph({
   ctx, focuses, outputs,
   projectId, projectName, specsPath, referenceFiles, buildCmds, testCmds,
   codeStyle, reviewChecklist, maxConcurrency, taskRetries = 3,
+  scheduler = "agent",
   agents: agentPool,
   progressFile = "PROGRESS.md",
   findingsFile = "docs/test-suite-findings.md",
   commitConfig = {},
   testSuites = [],
+  testFixAttempts = 2,
   focusTestSuites = {},
   focusDirs = {},
   preLandChecks = [],
   postLandChecks = [],
+  mergeQueueOrdering = "report-complete-fifo",
   maxSpeculativeDepth = 3,
+  mergeQueueId = "default",
+  mergeQueue = "agentic",
+  mergeQueueCiMode = "parallel",
+  mergeQueueCiRetries = 0,
+  vcs = "jj",
+  dbPath,
+  maxSpendUsd,
+  codeReviewers,
+  reviewConsensus = "any-blocks",
+  maxReviewRounds = 3,
+  reviewEscalationAgent,
+  worktreeRoot: worktreeRootTemplate,
+  maxWorktreeDiskMb,
+  worktreeGcIntervalMinutes = 30,
+  landingApproval = "never",
+  ticketImports = [],
+  discovery = true,
+  eventSinks = [],
 }: SuperRalphProps) {
 
   const { findings: reviewFindings } = selectReviewTickets(ctx, focuses);
-  const { completed: completedTicketIds, unfinished: unfinishedTickets } = selectAllTickets(ctx, focuses);
+  // Tickets added or edited from the CLI (`super-ralph ticket ...`) take effect on the next pass
+  const manualTickets = dbPath ? readManualTicketOverrides(dbPath) : [];
+  const { all: allTickets, completed: completedTicketIds, unfinished: unfinishedTickets } = selectAllTickets(ctx, focuses, manualTickets);
   const progressSummary = selectProgressSummary(ctx);
+
+  // Run events. Ones derived from outputs are keyed, so each is sent once per run.
+  const runEvents = getRunEventBus();
+  runEvents.configure(eventSinks);
+  if (dbPath) runEvents.attachDatabase(dbPath);
+  for (const ticket of allTickets) {
+    runEvents.emit({
+      type: "ticket_discovered", runId: ctx.runId,
+      ticketId: ticket.id, title: ticket.title, priority: ticket.priority, category: ticket.category,
+    }, `ticket_discovered:${ticket.id}`);
+  }
   const { prefix = "📝", mainBranch = "main", emojiPrefixes = "✨ feat, 🐛 fix, ♻️ refactor, 📝 docs, 🧪 test" } = commitConfig;
 
-  // Resolve scheduler + merge queue agents from pool flags
+  // Live agent stats (success rate, duration, rate limits). Limits the scheduler agent
+  // reported are applied too, so agent resolution avoids those agents until they resume.
   const agentIds = Object.keys(agentPool);
+  const agentRegistry = getAgentRegistry();
+  if (dbPath) agentRegistry.attachDatabase(dbPath);
+  for (const [id, entry] of Object.entries(agentPool)) {
+    agentRegistry.ensureAgent(id, {
+      id, ...describeAgent(entry.agent), description: entry.description, costPerToken: entry.costPerToken,
+    });
+  }
+  const latestSchedule = ctx.latest("ticket_schedule", "ticket-scheduler") as TicketSchedule | undefined;
+  for (const { agentId, resumeAtMs } of latestSchedule?.rateLimitedAgents ?? []) {
+    agentRegistry.markRateLimitedUntil(agentId, resumeAtMs);
+  }
+  for (const { agentId, resumeAtMs } of agentRegistry.getRateLimitedAgents()) {
+    runEvents.emit({
+      type: "agent_rate_limited", runId: ctx.runId, agentId, resumeAtMs,
+      reason: agentRegistry.getAgentStatsById(agentId)?.lastFailureReason ?? null,
+    }, `agent_rate_limited:${agentId}:${resumeAtMs}`);
+  }
+
+  // Resolve scheduler + merge queue agents from pool flags
   const defaultAgentId = agentIds[0];
   const schedulerAgentId = Object.entries(agentPool).find(([, e]) => e.isScheduler)?.[0] ?? defaultAgentId;
   const mergeQueueAgentId = Object.entries(agentPool).find(([, e]) => e.isMergeQueue)?.[0] ?? schedulerAgentId;
-  const schedulerAgent = resolveAgent(agentPool, schedulerAgentId);
-  const agentPoolContext = buildAgentPoolDescription(agentPool);
+  const schedulerAgent = resolveTrackedAgent(agentPool, schedulerAgentId, "ticket-scheduler");
+  const agentPoolContext = agentIds.length > 0
+    ? agentRegistry.toPromptContext(agentIds)
+    : "(no agents registered)";
   const ciCommands = postLandChecks.length > 0 ? postLandChecks : Object.values(testCmds);
 
+  // Code review fan-out. Under "weighted" consensus each reviewer's vote counts by how
+  // its earlier verdicts held up in the merge queue. A round keeps the weights it was
+  // decided with; newly decided rounds and new merge queue rulings are recorded here.
+  const reviewerEntries = Object.entries(codeReviewers ?? {}) as Array<[CodeReviewerSlot, string]>;
+  const reviewerSlots: CodeReviewerSlot[] = reviewerEntries.length > 0 ? reviewerEntries.map(([slot]) => slot) : ["claude"];
+  const reviewHistory = dbPath ? readReviewHistory(dbPath, ctx.runId) : { roundWeights: new Map(), rulings: [] };
+  const reviewerOutcomes = tallyReviewerOutcomes(reviewHistory.rulings);
+  const reviewConsensusConfig: CodeReviewConsensusConfig = {
+    policy: reviewConsensus,
+    slots: reviewerSlots,
+    weights: Object.fromEntries(reviewerSlots.map((slot) => [slot, reviewerWeight(reviewerOutcomes[slot])])),
+    roundWeights: reviewHistory.roundWeights,
+  };
+  if (dbPath) {
+    const reviewedTicketIds = allTickets.map(t => t.id);
+    writeReviewHistory(dbPath, ctx.runId, {
+      decidedRounds: selectDecidedReviewRounds(ctx, reviewedTicketIds, reviewConsensusConfig)
+        .filter(({ ticketId, round }) => !reviewHistory.roundWeights.has(reviewWeightsKey(ticketId, round))),
+      weights: reviewConsensusConfig.weights,
+      rulings: selectReviewRulings(ctx, reviewedTicketIds, reviewConsensusConfig),
+    });
+  }
+  const resolveCodeReviewers = (job: ScheduledJob) =>
+    reviewerEntries.length === 0 || !job.ticketId ? undefined : reviewerEntries.map(([slot, agentId]) => ({
+      slot,
+      agent: resolveTrackedAgent(agentPool, agentId, codeReviewNodeId(job.ticketId!, slot, reviewRoundOfNodeId(job.jobId))),
+      agentId: resolveAgentId(agentPool, agentId, agentRegistry),
+    }));
+  const escalationAgentId = reviewEscalationAgent && agentPool[reviewEscalationAgent] ? reviewEscalationAgent : undefined;
+  const reviewLoopConfig: ReviewLoopConfig = { maxRounds: Math.max(1, maxReviewRounds), escalate: !!escalationAgentId };
+  // Review-fix jobs past the round cap go to the escalation agent, whoever was scheduled
+  const jobAgentId = (job: ScheduledJob) =>
+    escalationAgentId && job.jobType === "ticket:review-fix" && reviewRoundOfNodeId(job.jobId) >= reviewLoopConfig.maxRounds
+      ? escalationAgentId
+      : job.agentId;
+
+  const worktreeRoot = resolveWorktreeRoot(worktreeRootTemplate, { projectId, runId: ctx.runId });
+
   // Lookups
   const ticketMap = new Map<string, Ticket>(unfinishedTickets.map(t => [t.id, t]));
   const focusMap = new Map(focuses.map(f => [f.id, f]));
+  const ticketBlockers = computeTicketBlockers(allTickets, completedTicketIds);
+
+  // Landing decisions recorded from the CLI for this run. A rejection reopens the ticket for rework.
+  const landingDecisions: Map<string, LandingDecision> = dbPath ? readLandingDecisions(dbPath, ctx.runId) : new Map();
+
+  // Paused, cancelled and abandoned tickets (`super-ralph ticket pause|cancel|abandon`)
+  // are left out of scheduling and the merge queue
+  const ticketLifecycle: Map<string, TicketLifecycleChange> = dbPath ? readTicketLifecycle(dbPath) : new Map();
+  const isActiveTicket = (ticketId: string) => ticketLifecycleState(ticketLifecycle, ticketId) === "active";
+
+  // Retries and merge queue holds requested from the Monitor
+  const ticketControls: PendingTicketControls = dbPath
+    ? readPendingTicketControls(dbPath, ctx.runId, reviewerSlots)
+    : { retries: [], queueHolds: new Set() };
+  const retryingTicketIds = new Set(ticketControls.retries.map(r => r.ticketId));
 
   // Ticket pipeline states (for scheduler context)
-  const ticketStates: TicketState[] = unfinishedTickets.map(ticket => ({
-    ticket,
-    pipelineStage: computePipelineStage(ctx, ticket.id),
-    landed: selectLand(ctx, ticket.id)?.merged === true,
-    reportComplete: (() => {
-      const land = selectLand(ctx, ticket.id);
-      const report = selectTicketReport(ctx, ticket.id);
-      const evicted = land?.evicted === true && land?.merged !== true;
-      return report?.status === "complete" && !evicted;
-    })(),
-  }));
-
-  // Merge queue tickets
+  const ticketStates: TicketState[] = unfinishedTickets.filter(ticket => isActiveTicket(ticket.id)).map(ticket => {
+    const reviewLoop = selectReviewLoop(ctx, ticket.id, reviewConsensusConfig, reviewLoopConfig);
+    const approval = landingApprovalState(
+      requiresLandingApproval(ticket, landingApproval, focuses), landingDecisions.get(ticket.id), selectReportIteration(ctx, ticket.id),
+    );
+    const land = selectLand(ctx, ticket.id, reviewLoop.round);
+    const report = selectTicketReport(ctx, ticket.id, reviewLoop.round);
+    return {
+      ticket,
+      pipelineStage: computePipelineStage(ctx, ticket.id),
+      landed: land?.merged === true,
+      reportComplete: report?.status === "complete" && !isEvictedForRework(land) && approval !== "rejected",
+      blocker: ticketBlockers.get(ticket.id) ?? null,
+      reviewRound: reviewLoop.round,
+      reviewFixNeeded: reviewLoop.fixNeeded,
+      reviewBlocked: reviewLoop.blocked,
+      // A rejection holds for its report; the rework's round has none yet
+      reworkNeeded: isEvictedForRework(land) || (!!report && approval === "rejected"),
+      landingApproval: approval,
+    };
+  });
+  const ticketStateMap = new Map(ticketStates.map(t => [t.ticket.id, t]));
+
+  // A round's verdict is in once both reviews are
+  for (const t of ticketStates) {
+    if (t.reviewFixNeeded === null) continue;
+    runEvents.emit({
+      type: "review_verdict", runId: ctx.runId, ticketId: t.ticket.id, round: t.reviewRound,
+      approved: !t.reviewFixNeeded, blocked: t.reviewBlocked,
+      specSeverity: selectSpecReview(ctx, t.ticket.id, t.reviewRound)?.severity ?? null,
+      codeSeverity: selectCodeReviewConsensus(ctx, t.ticket.id, reviewConsensusConfig, t.reviewRound)?.severity ?? null,
+    }, `review_verdict:${t.ticket.id}:${t.reviewRound}`);
+  }
+
+  // Merge queue tickets; ones awaiting approval, pulled from the queue or re-running a stage are held back
   const mergeQueueTickets = ticketStates
-    .filter(t => t.reportComplete && !t.landed)
+    .filter(t => t.reportComplete && !t.landed && t.landingApproval !== "awaiting")
+    .filter(t => !ticketControls.queueHolds.has(t.ticket.id) && !retryingTicketIds.has(t.ticket.id))
     .map(t => ({
       ticketId: t.ticket.id, ticketTitle: t.ticket.title,
       ticketCategory: t.ticket.category, priority: t.ticket.priority,
       reportComplete: t.reportComplete, landed: t.landed,
-      worktreePath: `/tmp/workflow-wt-${t.ticket.id}`,
+      worktreePath: worktreePathFor(worktreeRoot, t.ticket.id),
     }));
 
   // --- Derive active jobs from ALL scheduler outputs (not just the latest) ---
@@ -167,30 +405,153 @@ export function SuperRalph({
       });
     }
   }
-  const activeJobs: ScheduledJob[] = [...jobsByJobId.values()]
-    .filter(job => !isJobComplete(ctx, job));
+  // Spend = usage already written + usage recorded but not yet flushed
+  const pendingUsage = agentRegistry.getPendingUsage();
+  const spentUsd = selectRunSpendUsd(ctx) + pendingUsage.reduce((sum, p) => sum + p.usage.costUsd, 0);
+  const budgetExhausted = maxSpendUsd !== undefined && spentUsd >= maxSpendUsd;
+
+  // A retried stage runs again as its own job, on the agent it was scheduled on; the
+  // ticket's other jobs wait for it unless already running
+  const retryJobs: ScheduledJob[] = ticketControls.retries
+    .filter(r => isActiveTicket(r.ticketId))
+    .map(r => ({
+      jobId: r.jobId!,
+      jobType: r.jobType!,
+      agentId: jobsByJobId.get(r.jobId!)?.agentId ?? defaultAgentId,
+      ticketId: r.ticketId,
+      focusId: null,
+      createdAtMs: r.requestedAtMs,
+    }));
+  const scheduledJobs: ScheduledJob[] = [...jobsByJobId.values()]
+    .filter(job => !isJobComplete(ctx, job, reviewerSlots))
+    .filter(job => discovery || job.jobType !== "discovery")
+    .filter(job => !job.ticketId || isActiveTicket(job.ticketId) || agentRegistry.isTaskRunning(job.jobId))
+    .filter(job => !job.ticketId || !retryingTicketIds.has(job.ticketId) || agentRegistry.isTaskRunning(job.jobId))
+    // Implement jobs for tickets whose dependencies haven't landed are held back
+    // until they have, whatever the scheduler asked for.
+    .filter(job => !(job.jobType === "ticket:implement" && job.ticketId && isImplementBlocked(ticketStateMap.get(job.ticketId))))
+    // Over budget, jobs that would open new work are dropped unless already running
+    .filter(job => !budgetExhausted || agentRegistry.isTaskRunning(job.jobId) ||
+      !startsNewWork(job, job.ticketId ? ticketStateMap.get(job.ticketId) : undefined));
+  const activeJobs: ScheduledJob[] = [
+    ...scheduledJobs,
+    ...retryJobs.filter(retry => !scheduledJobs.some(job => job.jobId === retry.jobId)),
+  ];
   const activeCount = activeJobs.length;
 
+  // Rule-based schedule (deterministic/hybrid modes). Agents on backoff in the registry
+  // are left out until they resume.
+  const deterministicSchedule = scheduler === "agent" ? null : computeDeterministicSchedule({
+    ctx, ticketStates, activeJobs, agentPool, focuses, maxConcurrency, completedTicketIds,
+    rateLimitedAgents: agentRegistry.getRateLimitedAgents(),
+    budgetExhausted,
+    discovery,
+    codeReviewers: reviewerSlots,
+  });
+  const useRuleSchedule = deterministicSchedule !== null &&
+    (scheduler === "deterministic" || deterministicSchedule.jobs.length > 0);
+
+  // Flush recorded token usage into agent_usage rows. Node IDs are numbered per
+  // task + agent, so repeat tasks (scheduler, merge queue, retries) add new rows.
+  const usageRowCounts = new Map<string, number>();
+  for (const row of selectAgentUsage(ctx)) {
+    const key = `${row.jobId}:${row.agentId}`;
+    usageRowCounts.set(key, (usageRowCounts.get(key) ?? 0) + 1);
+  }
+  // Extra code reviewers run under their own node IDs but bill to the code-review job
+  const reviewerTaskJobs = new Map<string, ScheduledJob>();
+  for (const job of jobsByJobId.values()) {
+    if (job.jobType !== "ticket:code-review" || !job.ticketId) continue;
+    const round = reviewRoundOfNodeId(job.jobId);
+    for (const slot of reviewerSlots) reviewerTaskJobs.set(codeReviewNodeId(job.ticketId, slot, round), job);
+  }
+  const usageFlushes = pendingUsage.map(({ taskId, usage }) => {
+    const job = jobsByJobId.get(taskId) ?? reviewerTaskJobs.get(taskId);
+    return {
+      nodeId: `usage:${taskId}:${usage.agentId}:${usageRowCounts.get(`${taskId}:${usage.agentId}`) ?? 0}`,
+      taskId,
+      agentId: usage.agentId,
+      ticketId: job?.ticketId ?? null,
+      stage: job ? job.jobType.replace("ticket:", "") : taskId,
+      usage,
+    };
+  });
+
+  // Worktree GC at startup, then every interval. Worktrees of tickets still in flight
+  // in earlier runs are kept so those tickets can resume.
+  const gcRuns = ctx.outputs("worktree_gc") as WorktreeGcResult[];
+  const lastGcAtMs = Math.max(0, ...gcRuns.map(r => r.ranAtMs ?? 0));
+  const worktreeGc = gcRuns.length === 0 || Date.now() - lastGcAtMs >= worktreeGcIntervalMinutes * 60_000
+    ? {
+        nodeId: `worktree-gc:${gcRuns.length}`,
+        request: {
+          root: worktreeRoot,
+          repoRoot: process.cwd(),
+          vcs,
+          liveIds: [
+            ...ticketStates.filter(t => !t.landed).map(t => t.ticket.id),
+            ...unfinishedTickets.filter(t => ticketLifecycleState(ticketLifecycle, t.id) === "paused").map(t => t.id),
+            ...(dbPath ? getResumableTickets(dbPath, ctx.runId).map(t => t.ticketId) : [])
+              .filter(id => ["active", "paused"].includes(ticketLifecycleState(ticketLifecycle, id))),
+            "discover", "update-progress",
+            ...focuses.flatMap(f => [`codebase-review-${f.id}`, `integration-test-${f.id}`]),
+          ],
+          activeIds: activeJobs.map(jobWorktreeId).filter((id): id is string => id !== null),
+          maxDiskBytes: maxWorktreeDiskMb !== undefined ? maxWorktreeDiskMb * 1024 * 1024 : null,
+        },
+      }
+    : null;
+
+  // Cancelled tickets get their worktree and bookmark removed once nothing of theirs is running
+  const cleanups = ctx.outputs("ticket_cleanup") as TicketCleanupResult[];
+  const ticketCleanups = [...ticketLifecycle.values()]
+    .filter(c => c.state === "cancelled")
+    .filter(c => !activeJobs.some(job => job.ticketId === c.ticketId))
+    .filter(c => !cleanups.some(r => r.ticketId === c.ticketId && r.cleanedAtMs >= c.changedAtMs))
+    .map(c => ({
+      ticketId: c.ticketId,
+      repoRoot: process.cwd(),
+      worktreePath: worktreePathFor(worktreeRoot, c.ticketId),
+      vcs,
+      mainBranch,
+    }));
+
+  // Imported tickets are read once per run, before the first schedule
+  const importPending = ticketImports.length > 0 && !ctx.latest("ticket_import", "ticket-import");
+
   // Shared props for <Job /> components
   const jobProps = {
-    ctx, outputs, retries: taskRetries,
+    ctx, outputs, retries: taskRetries, reviewConsensus: reviewConsensusConfig, reviewLoop: reviewLoopConfig,
     ticketMap, focusMap,
-    projectName, specsPath, referenceFiles, buildCmds, testCmds,
+    projectName, worktreeRoot, landingDecisions, specsPath, referenceFiles, buildCmds, testCmds,
     codeStyle, reviewChecklist, progressFile, findingsFile,
-    prefix, mainBranch, emojiPrefixes, testSuites, focusTestSuites, focusDirs,
+    prefix, mainBranch, vcs, emojiPrefixes, testSuites, testFixAttempts, focusTestSuites, focusDirs,
     completedTicketIds, progressSummary, reviewFindings, focuses,
+    droppedTickets: formatDroppedTickets(ticketLifecycle, allTickets),
   };
 
   return (
     <>
       {/* Scheduler loop - runs continuously, schedules jobs whenever there's capacity */}
       <Ralph until={false} maxIterations={Infinity} onMaxReached="return-last">
-        {activeCount < maxConcurrency && (
+        {importPending && (
+          <Task id="ticket-import" output={outputs.ticket_import} agent={createTicketImportAgent()}>
+            {buildTicketImportPrompt({ repoRoot: process.cwd(), sources: ticketImports })}
+          </Task>
+        )}
+        {!importPending && activeCount < maxConcurrency && useRuleSchedule && deterministicSchedule.jobs.length > 0 && (
+          <Task id="ticket-scheduler" output={outputs.ticket_schedule}>
+            {() => deterministicSchedule}
+          </Task>
+        )}
+        {!importPending && activeCount < maxConcurrency && !useRuleSchedule && (
           <TicketScheduler
             ctx={ctx} ticketStates={ticketStates} activeJobs={activeJobs}
             agentPoolContext={agentPoolContext} focuses={focuses}
             maxConcurrency={maxConcurrency} agent={schedulerAgent}
             output={outputs.ticket_schedule} completedTicketIds={completedTicketIds}
+            budget={maxSpendUsd !== undefined ? { spentUsd, maxSpendUsd } : null}
+            discovery={discovery}
           />
         )}
         <Monitor
@@ -203,20 +564,48 @@ export function SuperRalph({
       <Ralph until={false} maxIterations={Infinity} onMaxReached="return-last">
         <Parallel maxConcurrency={maxConcurrency}>
           {activeJobs.map(job => (
-            <Job key={job.jobId} job={job} agent={resolveAgent(agentPool, job.agentId)} {...jobProps} />
+            <Job
+              key={job.jobId} job={job} agent={resolveTrackedAgent(agentPool, jobAgentId(job), job.jobId)}
+              agentId={resolveAgentId(agentPool, jobAgentId(job), agentRegistry)}
+              codeReviewers={job.jobType === "ticket:code-review" ? resolveCodeReviewers(job) : undefined} {...jobProps}
+            />
           ))}
         </Parallel>
+        {usageFlushes.map(({ nodeId, taskId, agentId, ticketId, stage, usage }) => (
+          <Task key={nodeId} id={nodeId} output={outputs.agent_usage}>
+            {() => ({ ...(agentRegistry.takeTaskUsage(taskId, agentId) ?? usage), jobId: taskId, ticketId, stage })}
+          </Task>
+        ))}
+        {ticketCleanups.map(request => (
+          <Task key={request.ticketId} id={`${request.ticketId}:cleanup`} output={outputs.ticket_cleanup} agent={createTicketCleanupAgent()}>
+            {buildTicketCleanupPrompt(request)}
+          </Task>
+        ))}
+        {worktreeGc && (
+          <Task id={worktreeGc.nodeId} output={outputs.worktree_gc} agent={createWorktreeGcAgent()}>
+            {buildWorktreeGcPrompt(worktreeGc.request)}
+          </Task>
+        )}
       </Ralph>
 
       {/* Merge queue loop - runs independently */}
       <Ralph until={false} maxIterations={Infinity} onMaxReached="return-last">
-        <AgenticMergeQueue
-          ctx={ctx} outputs={outputs} tickets={mergeQueueTickets}
-          agent={resolveAgent(agentPool, mergeQueueAgentId)}
-          postLandChecks={ciCommands} preLandChecks={preLandChecks}
-          repoRoot={process.cwd()} mainBranch={mainBranch}
-          maxSpeculativeDepth={maxSpeculativeDepth} output={outputs.land}
-        />
+        {mergeQueue === "speculative" ? (
+          <SpeculativeMergeQueue
+            ctx={ctx} tickets={mergeQueueTickets}
+            postLandChecks={ciCommands} repoRoot={process.cwd()} mainBranch={mainBranch}
+            vcs={vcs} orderingStrategy={mergeQueueOrdering} maxSpeculativeDepth={maxSpeculativeDepth}
+            queueId={mergeQueueId} ciMode={mergeQueueCiMode} ciRetries={mergeQueueCiRetries} dbPath={dbPath} output={outputs.land}
+          />
+        ) : (
+          <AgenticMergeQueue
+            ctx={ctx} outputs={outputs} tickets={mergeQueueTickets}
+            agent={resolveTrackedAgent(agentPool, mergeQueueAgentId, "merge-queue")}
+            postLandChecks={ciCommands} preLandChecks={preLandChecks}
+            repoRoot={process.cwd()} mainBranch={mainBranch} vcs={vcs}
+            maxSpeculativeDepth={maxSpeculativeDepth} output={outputs.land}
+          />
+        )}
       </Ralph>
     </>
   );
@@ -2,8 +2,12 @@ import React from "react";
 import { Task } from "smithers-orchestrator";
 import type { SmithersCtx } from "smithers-orchestrator";
 import { z } from "zod";
-import type { Ticket } from "../selectors";
-import type { ScheduledJob } from "../scheduledTasks";
+import { selectReviewRound, type Ticket } from "../selectors";
+import { JOB_TYPE_TO_OUTPUT_KEY, jobNodeId, type ScheduledJob } from "../scheduledTasks";
+import { formatTicketBlocker, type TicketBlocker } from "../ticketGraph";
+import { CODE_REVIEWER_SLOTS, codeReviewNodeId, type CodeReviewerSlot } from "../reviewConsensus";
+import { reviewRoundNodeId, reviewRoundOfNodeId } from "../reviewLoop";
+import type { LandingApprovalState } from "../landingApproval";
 
 // --- Schemas ---
 
@@ -49,8 +53,9 @@ export type TicketSchedule = z.infer<typeof ticketScheduleSchema>;
 const PIPELINE_STAGES_REVERSE = [
   { output: "land",         nodeId: (id: string) => `${id}:land`,         stage: "landed" },
   { output: "report",       nodeId: (id: string) => `${id}:report`,       stage: "report" },
-  { output: "review_fix",   nodeId: (id: string) => `${id}:review-fix`,   stage: "review_fix" },
   { output: "code_review",  nodeId: (id: string) => `${id}:code-review`,  stage: "code_review" },
+  { output: "code_review_codex",  nodeId: (id: string) => `${id}:code-review-codex`,  stage: "code_review" },
+  { output: "code_review_gemini", nodeId: (id: string) => `${id}:code-review-gemini`, stage: "code_review" },
   { output: "spec_review",  nodeId: (id: string) => `${id}:spec-review`,  stage: "spec_review" },
   { output: "build_verify", nodeId: (id: string) => `${id}:build-verify`, stage: "build_verify" },
   { output: "test_results", nodeId: (id: string) => `${id}:test`,         stage: "test" },
@@ -59,49 +64,43 @@ const PIPELINE_STAGES_REVERSE = [
   { output: "research",     nodeId: (id: string) => `${id}:research`,     stage: "research" },
 ] as const;
 
+const REVIEW_ROUND_STAGES = new Set(["landed", "report", "code_review", "spec_review", "build_verify", "test", "implement"]);
+
 export function computePipelineStage(ctx: SmithersCtx<any>, ticketId: string): string {
+  // Implement (as a rework), tests, the build, reviews, the report and the landing attempt
+  // are read for the current round. A review-fix or a rework always opens a new round, so
+  // past round 1 "implement" or "review_fix" means that round's tests have not run yet.
+  const round = selectReviewRound(ctx, ticketId);
   for (const entry of PIPELINE_STAGES_REVERSE) {
-    if (ctx.latest(entry.output, entry.nodeId(ticketId))) {
+    const nodeId = REVIEW_ROUND_STAGES.has(entry.stage) ? reviewRoundNodeId(entry.nodeId(ticketId), round) : entry.nodeId(ticketId);
+    const output = ctx.latest(entry.output, nodeId);
+    // Only a merge lands the ticket; after an eviction it is back at its report
+    if (entry.stage === "landed" && output && !(output as { merged?: boolean }).merged) return "report";
+    if (output) {
       return entry.stage;
     }
+    if (entry.stage === "implement" && round > 1) return "review_fix";
   }
   return "not_started";
 }
 
-/** Map from jobType to the Smithers output key used to detect completion */
-export const JOB_TYPE_TO_OUTPUT_KEY: Record<string, string> = {
-  "discovery": "discover",
-  "progress-update": "progress",
-  "codebase-review": "category_review",
-  "integration-test": "integration_test",
-  "ticket:research": "research",
-  "ticket:plan": "plan",
-  "ticket:implement": "implement",
-  "ticket:test": "test_results",
-  "ticket:build-verify": "build_verify",
-  "ticket:spec-review": "spec_review",
-  "ticket:code-review": "code_review",
-  "ticket:review-fix": "review_fix",
-  "ticket:report": "report",
-};
-
-/** Map jobId to the nodeId that selectors expect */
-const GLOBAL_JOB_NODE_IDS: Record<string, string> = {
-  "discovery": "discover",
-  "progress-update": "update-progress",
-};
-
-export function jobNodeId(job: { jobId: string; jobType: string }): string {
-  return GLOBAL_JOB_NODE_IDS[job.jobId] ?? job.jobId;
-}
-
-/** Check if a scheduled job has already completed (output exists in Smithers) */
-export function isJobComplete(ctx: SmithersCtx<any>, job: ScheduledJob): boolean {
+/**
+ * Check if a scheduled job has already completed (output exists in Smithers).
+ * A code review is complete once every configured reviewer slot has written its output.
+ */
+export function isJobComplete(ctx: SmithersCtx<any>, job: ScheduledJob, codeReviewers: CodeReviewerSlot[] = ["claude"]): boolean {
+  if (job.jobType === "ticket:code-review" && job.ticketId) {
+    const ticketId = job.ticketId;
+    const round = reviewRoundOfNodeId(job.jobId);
+    return codeReviewers.every(slot => !!ctx.latest(CODE_REVIEWER_SLOTS[slot].output, codeReviewNodeId(ticketId, slot, round)));
+  }
   const outputKey = JOB_TYPE_TO_OUTPUT_KEY[job.jobType];
   if (!outputKey) return false;
   return !!ctx.latest(outputKey, jobNodeId(job));
 }
 
+export { JOB_TYPE_TO_OUTPUT_KEY, jobNodeId };
+
 // --- Component ---
 
 export type TicketState = {
@@ -109,8 +108,34 @@ export type TicketState = {
   pipelineStage: string;
   landed: boolean;
   reportComplete: boolean;
+  /** Unlanded dependencies or dependency cycle keeping this ticket out of implement, or null */
+  blocker: TicketBlocker | null;
+  /** Current review round, starting at 1; each review-fix opens the next one */
+  reviewRound: number;
+  /** After code review: whether the reviews call for review-fix. Null until both reviews are in */
+  reviewFixNeeded: boolean | null;
+  /** Reviews still find issues and no fix rounds are left: the ticket is reported as blocked */
+  reviewBlocked: boolean;
+  /** This round's report was evicted for rework or its landing rejected: implement runs again in a new round */
+  reworkNeeded: boolean;
+  /** Whether landing waits on a human decision; "awaiting" tickets stay out of the merge queue */
+  landingApproval: LandingApprovalState;
 };
 
+/**
+ * Jobs that open new work rather than advance a ticket already in flight: discovery,
+ * codebase reviews, integration tests, and any stage of a ticket that has not started.
+ */
+export function startsNewWork(job: Pick<ScheduledJob, "jobType" | "ticketId">, state: Pick<TicketState, "pipelineStage"> | undefined): boolean {
+  if (job.jobType === "discovery" || job.jobType === "codebase-review" || job.jobType === "integration-test") return true;
+  return !!job.ticketId && (!state || state.pipelineStage === "not_started");
+}
+
+/** A ticket may not enter implement until every known dependency has landed */
+export function isImplementBlocked(state: Pick<TicketState, "blocker"> | undefined): boolean {
+  return !!state?.blocker;
+}
+
 export type TicketSchedulerProps = {
   ctx: SmithersCtx<any>;
   ticketStates: TicketState[];
@@ -121,14 +146,21 @@ export type TicketSchedulerProps = {
   agent: any;
   output: any;
   completedTicketIds: string[];
+  /** Run spend against the `maxSpendUsd` budget, when one is set */
+  budget?: { spentUsd: number; maxSpendUsd: number } | null;
+  /** Whether discovery jobs may be scheduled; off when the backlog is imported (default true) */
+  discovery?: boolean;
 };
 
 function formatTicketTable(tickets: TicketState[]): string {
-  const header = "| ID | Title | Priority | Pipeline Stage | Landed | Report Done |";
-  const sep    = "|----|-------|----------|----------------|--------|-------------|";
-  const rows = tickets.map(({ ticket, pipelineStage, landed, reportComplete }) =>
-    `| ${ticket.id} | ${ticket.title} | ${ticket.priority} | ${pipelineStage} | ${landed ? "✓" : "✗"} | ${reportComplete ? "✓" : "✗"} |`,
-  );
+  const header = "| ID | Title | Priority | Pipeline Stage | Review Round | Needs Fix | Needs Rework | Landed | Report Done | Blocked By |";
+  const sep    = "|----|-------|----------|----------------|--------------|-----------|--------------|--------|-------------|------------|";
+  const needsFix = (t: TicketState) => t.reviewBlocked ? "✗ (cap reached)" : t.reviewFixNeeded === null ? "—" : t.reviewFixNeeded ? "✓" : "✗";
+  const rows = tickets.map((t) => {
+    const { ticket, pipelineStage, reviewRound, landed, reportComplete, blocker } = t;
+    const reportDone = reportComplete ? (t.landingApproval === "awaiting" ? "✓ (awaiting approval)" : "✓") : "✗";
+    return `| ${ticket.id} | ${ticket.title} | ${ticket.priority} | ${pipelineStage} | ${reviewRound} | ${needsFix(t)} | ${t.reworkNeeded ? "✓" : "✗"} | ${landed ? "✓" : "✗"} | ${reportDone} | ${formatTicketBlocker(blocker) ?? "—"} |`;
+  });
   return [header, sep, ...rows].join("\n");
 }
 
@@ -153,6 +185,8 @@ export function TicketScheduler({
   agent,
   output,
   completedTicketIds,
+  budget = null,
+  discovery = true,
 }: TicketSchedulerProps) {
   const ticketTable = formatTicketTable(ticketStates);
   const activeJobsTable = formatActiveJobs(activeJobs);
@@ -160,6 +194,17 @@ export function TicketScheduler({
   const now = new Date().toISOString();
   const freeSlots = Math.max(0, maxConcurrency - activeJobs.length);
   const activeTickets = ticketStates.filter(t => !t.landed);
+  const blockedTickets = activeTickets.filter(t => isImplementBlocked(t));
+  const budgetExhausted = !!budget && budget.spentUsd >= budget.maxSpendUsd;
+  const budgetLine = budget ? `\n- Spend: $${budget.spentUsd.toFixed(2)} of $${budget.maxSpendUsd.toFixed(2)} budget` : "";
+  const budgetRule = budgetExhausted
+    ? `\n\n10. **Budget exhausted.** Only schedule the next stage of tickets already past "not_started". No discovery, codebase-review or integration-test jobs, and no new tickets. The harness drops such jobs.`
+    : "";
+  // Without discovery (an imported backlog) the ticket table is all the work there is
+  const discoveryJobLine = discovery ? `- \`discovery\` — Find new tickets to work on (focusId=null, jobId="discovery")\n` : "";
+  const pipelineRule = discovery
+    ? `**Keep the ticket pipeline full.** If active tickets ≤ ${maxConcurrency * 2}, schedule a "discovery" job. The scheduler should never be starved for choices.`
+    : `**Work the backlog.** Discovery is off: the tickets above are the whole backlog. Never schedule a "discovery" job; the harness drops them.`;
 
   const prompt = `You are the **scheduler** for an AI-driven development workflow. You have ${freeSlots} free concurrency slots to fill with jobs.
 
@@ -169,15 +214,16 @@ ${now}
 ## Pipeline Summary
 - Completed (landed): ${completedTicketIds.length}
 - Active tickets: ${activeTickets.length}
+- Blocked on dependencies: ${blockedTickets.length}
 - Concurrency cap: ${maxConcurrency}
 - Currently running jobs: ${activeJobs.length}
-- Free slots to fill: ${freeSlots}
+- Free slots to fill: ${freeSlots}${budgetLine}
 
 ## Currently Running Jobs
 ${activeJobsTable}
 
 ## Ticket State
-${ticketStates.length === 0 ? "(No tickets — schedule a 'discovery' job)" : ticketTable}
+${ticketStates.length > 0 ? ticketTable : discovery ? "(No tickets — schedule a 'discovery' job)" : "(No tickets)"}
 
 ## Agent Pool
 ${agentPoolContext}
@@ -189,21 +235,24 @@ ${focusBlock}
 
 ### Ticket pipeline jobs (require ticketId, focusId=null)
 Each ticket progresses through: research → plan → implement → test → build-verify → spec-review → code-review → review-fix → report
+
+After each review-fix the ticket starts a new review round: test → build-verify → spec-review → code-review again, until the reviews pass or the round cap is reached. Pipeline job IDs are \`<ticketId>:<stage>\` (e.g. \`T-1:spec-review\`); for test, build-verify, spec-review, code-review, review-fix and report in round 2 or later, append \`:r<round>\` (e.g. \`T-1:test:r2\`). A ticket at the "review_fix" stage needs the next round's \`ticket:test\`.
+
+When "Needs Rework" is ✓ the merge queue evicted the ticket or a human rejected its landing: schedule \`ticket:implement\` for the NEXT round, with job ID \`<ticketId>:implement:r<round + 1>\` (e.g. \`T-1:implement:r3\` in round 2). The rework opens that round, and the ticket goes through test → build-verify → spec-review → code-review again.
 - \`ticket:research\` — Research the ticket's domain and relevant code
 - \`ticket:plan\` — Create implementation plan (requires research done)
-- \`ticket:implement\` — Write code (requires plan done)
+- \`ticket:implement\` — Write code (requires plan done AND no "Blocked By" entry), or rework an evicted or rejected ticket
 - \`ticket:test\` — Run tests (requires implementation done)
 - \`ticket:build-verify\` — Verify build passes (requires implementation done)
 - \`ticket:spec-review\` — Review against specs (requires implementation done)
-- \`ticket:code-review\` — Code quality review (requires implementation done)
-- \`ticket:review-fix\` — Fix review issues (requires reviews done with issues)
+- \`ticket:code-review\` — Code quality review (requires implementation done; the harness runs every configured reviewer)
+- \`ticket:review-fix\` — Fix review issues (only when "Needs Fix" is ✓; when it is ✗ skip straight to \`ticket:report\`)
 - \`ticket:report\` — Final status report (requires all above done)
 
 **Schedule the NEXT stage for each ticket based on its current pipeline stage.** Don't schedule a stage that's already complete or whose prerequisites aren't met.
 
 ### Global jobs (ticketId=null)
-- \`discovery\` — Find new tickets to work on (focusId=null, jobId="discovery")
-- \`progress-update\` — Update progress file (focusId=null, jobId="progress-update")
+${discoveryJobLine}- \`progress-update\` — Update progress file (focusId=null, jobId="progress-update")
 - \`codebase-review\` — Review a focus area (requires focusId, jobId="codebase-review:<focusId>")
 - \`integration-test\` — Run integration tests for a category (requires focusId, jobId="integration-test:<focusId>")
 
@@ -217,7 +266,7 @@ Each ticket progresses through: research → plan → implement → test → bui
 
 4. **Load balance across agents.** Distribute work across ALL available agents. Don't funnel everything through 1-2 favorites. Every agent should get work when there are enough jobs.
 
-5. **Keep the ticket pipeline full.** If active tickets ≤ ${maxConcurrency * 2}, schedule a "discovery" job. The scheduler should never be starved for choices.
+5. ${pipelineRule}
 
 6. **Rate limit awareness.** If an agent is rate-limited, don't assign it. Include it in rateLimitedAgents and spread its work to other agents.
 
@@ -225,6 +274,8 @@ Each ticket progresses through: research → plan → implement → test → bui
 
 8. **Maximize cheap agents.** Use the cheapest suitable agent for each task. Only escalate to expensive agents when the task genuinely requires it.
 
+9. **Respect ticket dependencies.** Never schedule \`ticket:implement\` for a ticket with a "Blocked By" entry — it is waiting on tickets that haven't landed, or is part of a dependency cycle. Research and plan may still run. The harness holds such jobs back, so they only waste your output.${budgetRule}
+
 ## Instructions
 Output exactly the jobs to enqueue in the \`jobs\` array. Each job fills one concurrency slot.`;
 
@@ -13,7 +13,7 @@ export type { InterpretConfigOutput, InterpretConfigProps } from "./InterpretCon
 export { Monitor, monitorOutputSchema } from "./Monitor";
 export type { MonitorOutput, MonitorProps } from "./Monitor";
 
-export { TicketScheduler, ticketScheduleSchema, scheduledJobSchema, computePipelineStage, isJobComplete, JOB_TYPE_TO_OUTPUT_KEY } from "./TicketScheduler";
+export { TicketScheduler, ticketScheduleSchema, scheduledJobSchema, computePipelineStage, isJobComplete, isImplementBlocked, startsNewWork, JOB_TYPE_TO_OUTPUT_KEY } from "./TicketScheduler";
 export type { TicketSchedule, TicketScheduleJob, TicketSchedulerProps, TicketState } from "./TicketScheduler";
 
 export { TicketResume } from "./TicketResume";
@@ -21,3 +21,6 @@ export type { TicketResumeProps } from "./TicketResume";
 
 export { AgenticMergeQueue, mergeQueueResultSchema } from "./AgenticMergeQueue";
 export type { AgenticMergeQueueProps, AgenticMergeQueueTicket, MergeQueueResult } from "./AgenticMergeQueue";
+
+export { SpeculativeMergeQueue } from "./SpeculativeMergeQueue";
+export type { SpeculativeMergeQueueProps } from "./SpeculativeMergeQueue";
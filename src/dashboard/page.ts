@@ -0,0 +1,119 @@
+/**
+ * The dashboard page: one self-contained HTML document (no build step, no external assets).
+ * It loads `/api/snapshot`, then re-renders on every `snapshot` event from `/events`.
+ */
+
+const STYLE = `
+  :root { color-scheme: dark; --bg: #0f1117; --panel: #171a23; --line: #262a36; --text: #d7dae0; --dim: #8a90a0; --accent: #7aa2f7; --ok: #9ece6a; --warn: #e0af68; --bad: #f7768e; }
+  * { box-sizing: border-box; }
+  body { margin: 0; background: var(--bg); color: var(--text); font: 13px/1.4 ui-monospace, SFMono-Regular, Menlo, monospace; }
+  header { display: flex; flex-wrap: wrap; gap: 24px; align-items: baseline; padding: 12px 20px; border-bottom: 1px solid var(--line); }
+  header h1 { margin: 0; font-size: 15px; color: var(--accent); }
+  header .stat b { color: var(--text); }
+  header .stat { color: var(--dim); }
+  #conn { margin-left: auto; }
+  #conn.live { color: var(--ok); }
+  #conn.down { color: var(--bad); }
+  main { padding: 16px 20px; display: grid; gap: 16px; }
+  section { background: var(--panel); border: 1px solid var(--line); border-radius: 6px; padding: 12px; }
+  section h2 { margin: 0 0 8px; font-size: 13px; color: var(--dim); text-transform: uppercase; letter-spacing: .05em; }
+  .board { display: flex; gap: 8px; overflow-x: auto; }
+  .column { min-width: 180px; flex: 1; }
+  .column h3 { margin: 0 0 6px; font-size: 12px; color: var(--dim); }
+  .card { border: 1px solid var(--line); border-left: 3px solid var(--accent); border-radius: 4px; padding: 6px; margin-bottom: 6px; background: var(--bg); }
+  .card.critical { border-left-color: var(--bad); }
+  .card.high { border-left-color: var(--warn); }
+  .card.low { border-left-color: var(--dim); }
+  .card.held { opacity: .55; }
+  .card .id { color: var(--accent); }
+  .card .meta { color: var(--dim); font-size: 11px; }
+  .split { display: grid; grid-template-columns: repeat(auto-fit, minmax(360px, 1fr)); gap: 16px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 3px 6px; border-bottom: 1px solid var(--line); vertical-align: top; }
+  th { color: var(--dim); font-weight: normal; }
+  .empty { color: var(--dim); }
+  .approved { color: var(--ok); }
+  .rejected { color: var(--bad); }
+`;
+
+const SCRIPT = `
+  const $ = (id) => document.getElementById(id);
+  const esc = (value) => String(value ?? "").replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]);
+  const table = (header, rows) => rows.length === 0
+    ? '<div class="empty">(none)</div>'
+    : '<table><tr>' + header.map((h) => '<th>' + esc(h) + '</th>').join('') + '</tr>'
+      + rows.map((r) => '<tr>' + r.map((c) => '<td>' + c + '</td>').join('') + '</tr>').join('') + '</table>';
+
+  function render(snapshot) {
+    const status = snapshot.status;
+    $("run").textContent = snapshot.runId ?? "waiting for a run…";
+    $("landed").textContent = status ? status.landedCount : 0;
+    $("spend").textContent = "$" + (status ? status.spendUsd.toFixed(2) : "0.00");
+    $("updated").textContent = new Date(snapshot.generatedAtMs).toLocaleTimeString();
+
+    const byStage = new Map(snapshot.stages.map((stage) => [stage, []]));
+    for (const t of snapshot.tickets) {
+      if (!byStage.has(t.stage)) byStage.set(t.stage, []);
+      byStage.get(t.stage).push(t);
+    }
+    $("board").innerHTML = [...byStage.entries()].map(([stage, tickets]) =>
+      '<div class="column"><h3>' + esc(stage) + ' (' + tickets.length + ')</h3>'
+      + tickets.map((t) =>
+        '<div class="card ' + esc(t.ticket.priority) + (t.lifecycle !== "active" ? " held" : "") + '">'
+        + '<div><span class="id">' + esc(t.ticket.id) + '</span> ' + esc(t.ticket.title) + '</div>'
+        + '<div class="meta">' + esc(t.ticket.priority) + ' · ' + esc(t.ticket.category)
+        + (t.reviewRound > 1 ? ' · round ' + t.reviewRound : '')
+        + (t.lifecycle !== "active" ? ' · ' + esc(t.lifecycle) : '') + '</div></div>').join('')
+      + '</div>').join('');
+
+    $("jobs").innerHTML = table(["Job", "Type", "Agent"],
+      (status?.activeJobs ?? []).map((j) => [esc(j.jobId), esc(j.jobType), esc(j.agentId)]));
+    $("queue").innerHTML = table(["Ticket", "Priority", "Approval", "Title"],
+      (status?.mergeQueue ?? []).map(({ ticket, decision }) => [
+        esc(ticket.id), esc(ticket.priority),
+        decision ? '<span class="' + esc(decision.decision) + '">' + esc(decision.decision) + '</span>' : '—',
+        esc(ticket.title)]));
+    $("evictions").innerHTML = table(["Ticket", "Iteration", "Reason", "Details"],
+      snapshot.evictions.map((e) => [esc(e.ticketId), esc(e.iteration), esc(e.reason ?? e.summary), esc(e.details ?? "")]));
+  }
+
+  function connect() {
+    const events = new EventSource("/events");
+    events.addEventListener("snapshot", (event) => render(JSON.parse(event.data)));
+    events.onopen = () => { $("conn").textContent = "● live"; $("conn").className = "live"; };
+    events.onerror = () => { $("conn").textContent = "● reconnecting"; $("conn").className = "down"; };
+  }
+
+  fetch("/api/snapshot").then((res) => res.json()).then(render).finally(connect);
+`;
+
+export function renderDashboardPage(): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>super-ralph</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header>
+  <h1>super-ralph</h1>
+  <span class="stat">run <b id="run">…</b></span>
+  <span class="stat">landed <b id="landed">0</b></span>
+  <span class="stat">spend <b id="spend">$0.00</b></span>
+  <span class="stat">updated <b id="updated">—</b></span>
+  <span id="conn">● connecting</span>
+</header>
+<main>
+  <section><h2>Tickets by stage</h2><div class="board" id="board"></div></section>
+  <div class="split">
+    <section><h2>Active jobs</h2><div id="jobs"></div></section>
+    <section><h2>Merge queue</h2><div id="queue"></div></section>
+  </div>
+  <section><h2>Evictions</h2><div id="evictions"></div></section>
+</main>
+<script>${SCRIPT}</script>
+</body>
+</html>`;
+}
@@ -0,0 +1,166 @@
+import { renderDashboardPage } from "./page";
+import { readDashboardSnapshot, type DashboardSnapshot } from "./snapshot";
+
+/**
+ * A small HTTP server for the web dashboard, an alternative to the terminal Monitor.
+ * It only reads the workflow DB, so it runs next to a live run or standalone:
+ * - GET /              the dashboard page
+ * - GET /api/snapshot  the current DashboardSnapshot as JSON
+ * - GET /events        Server-Sent Events; a `snapshot` event on connect and whenever it changes
+ *
+ * One poller reads the DB for all connected browsers, and only while any are connected.
+ */
+
+export const DEFAULT_DASHBOARD_PORT = 4500;
+const PORT_ATTEMPTS = 100;
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+const KEEPALIVE_MS = 15_000;
+
+export type DashboardServerOptions = {
+  dbPath: string;
+  /** Follows the latest run when omitted */
+  runId?: string;
+  /** Defaults to 127.0.0.1; use 0.0.0.0 to let teammates connect */
+  host?: string;
+  /** Fixed port; when omitted the first free port from 4500 is used */
+  port?: number;
+  pollIntervalMs?: number;
+};
+
+export type DashboardServer = {
+  url: string;
+  port: number;
+  stop(): void;
+};
+
+function snapshotEvent(snapshot: DashboardSnapshot): string {
+  return `event: snapshot\ndata: ${JSON.stringify(snapshot)}\n\n`;
+}
+
+/** Snapshot content without its timestamp, so unchanged polls aren't re-sent */
+function snapshotKey(snapshot: DashboardSnapshot): string {
+  const { generatedAtMs: _, ...content } = snapshot;
+  return JSON.stringify(content);
+}
+
+export function startDashboardServer(options: DashboardServerOptions): DashboardServer {
+  const host = options.host ?? "127.0.0.1";
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const encoder = new TextEncoder();
+  const clients = new Set<ReadableStreamDefaultController<Uint8Array>>();
+  let lastKey = "";
+  let lastSentAtMs = 0;
+  let poller: ReturnType<typeof setInterval> | null = null;
+
+  const readSnapshot = () => readDashboardSnapshot(options.dbPath, options.runId);
+
+  const send = (controller: ReadableStreamDefaultController<Uint8Array>, text: string) => {
+    try {
+      controller.enqueue(encoder.encode(text));
+    } catch {
+      clients.delete(controller);
+    }
+  };
+
+  const poll = () => {
+    let snapshot: DashboardSnapshot;
+    try {
+      snapshot = readSnapshot();
+    } catch {
+      return; // DB busy or mid-write; the next poll catches up
+    }
+    const key = snapshotKey(snapshot);
+    if (key !== lastKey) {
+      lastKey = key;
+      lastSentAtMs = Date.now();
+      const event = snapshotEvent(snapshot);
+      for (const client of clients) send(client, event);
+    } else if (Date.now() - lastSentAtMs >= KEEPALIVE_MS) {
+      lastSentAtMs = Date.now();
+      for (const client of clients) send(client, ": keepalive\n\n");
+    }
+  };
+
+  const removeClient = (controller: ReadableStreamDefaultController<Uint8Array>) => {
+    clients.delete(controller);
+    if (clients.size === 0 && poller) {
+      clearInterval(poller);
+      poller = null;
+    }
+  };
+
+  const events = (): Response => {
+    let self: ReadableStreamDefaultController<Uint8Array>;
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        self = controller;
+        let snapshot: DashboardSnapshot | null = null;
+        try {
+          snapshot = readSnapshot();
+        } catch {
+          // DB busy: the client gets its first snapshot from the next poll
+        }
+        clients.add(controller);
+        send(controller, `retry: 3000\n\n${snapshot ? snapshotEvent(snapshot) : ""}`);
+        // Without a first snapshot, make the next poll send one to everyone
+        if (!snapshot) lastKey = "";
+        if (!poller) {
+          lastKey = snapshot ? snapshotKey(snapshot) : "";
+          lastSentAtMs = Date.now();
+          poller = setInterval(poll, pollIntervalMs);
+        }
+      },
+      cancel() {
+        removeClient(self);
+      },
+    });
+    return new Response(stream, {
+      headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" },
+    });
+  };
+
+  const fetch = (request: Request): Response => {
+    const { pathname } = new URL(request.url);
+    if (request.method !== "GET") return new Response("Method not allowed", { status: 405 });
+    switch (pathname) {
+      case "/":
+        return new Response(renderDashboardPage(), { headers: { "Content-Type": "text/html; charset=utf-8" } });
+      case "/api/snapshot":
+        return Response.json(readSnapshot());
+      case "/events":
+        return events();
+      default:
+        return new Response("Not found", { status: 404 });
+    }
+  };
+
+  const ports = options.port !== undefined
+    ? [options.port]
+    : Array.from({ length: PORT_ATTEMPTS }, (_, i) => DEFAULT_DASHBOARD_PORT + i);
+  let lastError: unknown = null;
+  for (const port of ports) {
+    try {
+      // idleTimeout 0: SSE connections stay open between events
+      const server = Bun.serve({ hostname: host, port, idleTimeout: 0, fetch });
+      const displayHost = host === "0.0.0.0" ? "localhost" : host;
+      return {
+        url: `http://${displayHost}:${server.port}`,
+        port: server.port ?? port,
+        stop() {
+          if (poller) clearInterval(poller);
+          poller = null;
+          for (const client of clients) {
+            try { client.close(); } catch { /* already closed */ }
+          }
+          clients.clear();
+          server.stop(true);
+        },
+      };
+    } catch (err) {
+      lastError = err;
+    }
+  }
+  throw new Error(
+    `Could not start the dashboard on ${host}:${ports[0]}${ports.length > 1 ? `-${ports[ports.length - 1]}` : ""}: ${lastError instanceof Error ? lastError.message : String(lastError)}`,
+  );
+}
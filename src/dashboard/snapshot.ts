@@ -0,0 +1,73 @@
+import { existsSync } from "node:fs";
+import { PIPELINE_STAGES } from "../durability";
+import { stripReviewRound } from "../reviewLoop";
+import {
+  latestRunId,
+  openWorkflowDb,
+  readOutputRows,
+  readRunStatus,
+  readTicketSummaries,
+  type RunStatus,
+  type TicketSummary,
+} from "../workflowDb";
+
+/**
+ * Everything the web dashboard shows, read from the workflow DB in one pass.
+ * Tickets are grouped into columns by the page, in `stages` order.
+ */
+
+export type DashboardEviction = {
+  ticketId: string;
+  iteration: number;
+  reason: string | null;
+  details: string | null;
+  summary: string;
+};
+
+export type DashboardSnapshot = {
+  generatedAtMs: number;
+  /** null until a run has written to the DB */
+  runId: string | null;
+  stages: string[];
+  status: RunStatus | null;
+  tickets: TicketSummary[];
+  /** Newest first */
+  evictions: DashboardEviction[];
+};
+
+/** Column order for tickets: pipeline stages with "land" shown as "landed" */
+export const DASHBOARD_STAGES: string[] = PIPELINE_STAGES.map((stage) => (stage === "land" ? "landed" : stage));
+
+function emptySnapshot(runId: string | null): DashboardSnapshot {
+  return { generatedAtMs: Date.now(), runId, stages: DASHBOARD_STAGES, status: null, tickets: [], evictions: [] };
+}
+
+/** Snapshot of `runId`, or of the latest run when omitted; empty while the DB doesn't exist yet */
+export function readDashboardSnapshot(dbPath: string, runId?: string): DashboardSnapshot {
+  if (!existsSync(dbPath)) return emptySnapshot(runId ?? null);
+  const db = openWorkflowDb(dbPath);
+  try {
+    const resolved = runId ?? latestRunId(db);
+    if (!resolved) return emptySnapshot(null);
+    const evictions = readOutputRows(db, "land", { runId: resolved })
+      .filter((row) => !!row.values.evicted)
+      .map((row) => ({
+        ticketId: stripReviewRound(row.nodeId).replace(/:land$/, ""),
+        iteration: row.iteration,
+        reason: typeof row.values.evictionReason === "string" ? row.values.evictionReason : null,
+        details: typeof row.values.evictionDetails === "string" ? row.values.evictionDetails : null,
+        summary: String(row.values.summary ?? ""),
+      }))
+      .reverse();
+    return {
+      generatedAtMs: Date.now(),
+      runId: resolved,
+      stages: DASHBOARD_STAGES,
+      status: readRunStatus(db, resolved),
+      tickets: readTicketSummaries(db, resolved),
+      evictions,
+    };
+  } finally {
+    db.close();
+  }
+}
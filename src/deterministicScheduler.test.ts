@@ -0,0 +1,127 @@
+import { describe, expect, test } from "bun:test";
+import { computeDeterministicSchedule, type DeterministicScheduleInput } from "./deterministicScheduler";
+import type { TicketState } from "./components/TicketScheduler";
+import type { Ticket } from "./selectors";
+
+const NOW = 1_700_000_000_000;
+
+function ticketState(id: string, pipelineStage: string, overrides: Partial<TicketState> = {}, ticket: Partial<Ticket> = {}): TicketState {
+  return {
+    ticket: { id, title: id, description: "", category: "core", priority: "medium", ...ticket },
+    pipelineStage,
+    landed: false,
+    reportComplete: false,
+    blocker: null,
+    reviewRound: 1,
+    reviewFixNeeded: null,
+    reviewBlocked: false,
+    reworkNeeded: false,
+    landingApproval: "not_required",
+    ...overrides,
+  };
+}
+
+/** Outputs keyed by `<table>|<nodeId>` */
+function fakeCtx(outputs: Record<string, unknown> = {}): DeterministicScheduleInput["ctx"] {
+  return { latest: (table: string, nodeId: string) => outputs[`${table}|${nodeId}`], outputs: () => [] } as any;
+}
+
+function schedule(ticketStates: TicketState[], input: Partial<DeterministicScheduleInput> = {}) {
+  return computeDeterministicSchedule({
+    ctx: fakeCtx(),
+    ticketStates,
+    activeJobs: [],
+    agentPool: { claude: { description: "Claude" } },
+    focuses: [],
+    maxConcurrency: 1,
+    completedTicketIds: [],
+    discovery: false,
+    now: NOW,
+    ...input,
+  });
+}
+
+const nextJobId = (state: TicketState) => schedule([state]).jobs[0]?.jobId ?? null;
+
+describe("nextTicketJobType", () => {
+  test("walks a ticket through the pipeline", () => {
+    expect(nextJobId(ticketState("T-1", "not_started"))).toBe("T-1:research");
+    expect(nextJobId(ticketState("T-1", "research"))).toBe("T-1:plan");
+    expect(nextJobId(ticketState("T-1", "plan"))).toBe("T-1:implement");
+    expect(nextJobId(ticketState("T-1", "implement"))).toBe("T-1:test");
+    expect(nextJobId(ticketState("T-1", "test"))).toBe("T-1:build-verify");
+    expect(nextJobId(ticketState("T-1", "build_verify"))).toBe("T-1:spec-review");
+    expect(nextJobId(ticketState("T-1", "spec_review"))).toBe("T-1:code-review");
+    expect(nextJobId(ticketState("T-1", "code_review", { reviewFixNeeded: true }))).toBe("T-1:review-fix");
+  });
+
+  test("tests and builds a review-fix again before the next round's reviews", () => {
+    expect(nextJobId(ticketState("T-1", "review_fix", { reviewRound: 2 }))).toBe("T-1:test:r2");
+    expect(nextJobId(ticketState("T-1", "test", { reviewRound: 2 }))).toBe("T-1:build-verify:r2");
+    expect(nextJobId(ticketState("T-1", "build_verify", { reviewRound: 2 }))).toBe("T-1:spec-review:r2");
+    expect(nextJobId(ticketState("T-1", "code_review", { reviewRound: 2, reviewFixNeeded: true }))).toBe("T-1:review-fix:r2");
+  });
+
+  test("reports approved tickets and tickets out of fix rounds", () => {
+    expect(nextJobId(ticketState("T-1", "code_review", { reviewFixNeeded: false }))).toBe("T-1:report");
+    expect(nextJobId(ticketState("T-1", "code_review", { reviewRound: 3, reviewFixNeeded: true, reviewBlocked: true }))).toBe("T-1:report:r3");
+    expect(nextJobId(ticketState("T-1", "code_review"))).toBe("T-1:review-fix");
+  });
+
+  test("reworks an evicted or rejected ticket in the next round, then tests it", () => {
+    expect(nextJobId(ticketState("T-1", "report", { reviewRound: 2, reworkNeeded: true }))).toBe("T-1:implement:r3");
+    expect(nextJobId(ticketState("T-1", "implement", { reviewRound: 3 }))).toBe("T-1:test:r3");
+  });
+
+  test("leaves reported and landed tickets alone", () => {
+    expect(nextJobId(ticketState("T-1", "report"))).toBeNull();
+    expect(nextJobId(ticketState("T-1", "landed", { landed: true }))).toBeNull();
+    expect(nextJobId(ticketState("T-1", "code_review", { reviewFixNeeded: false, reportComplete: true }))).toBeNull();
+  });
+});
+
+describe("computeDeterministicSchedule", () => {
+  test("holds implement back until the ticket's dependencies land", () => {
+    const blocker = { ticketId: "T-2", waitingOn: ["T-1"], cycle: null };
+    expect(nextJobId(ticketState("T-2", "plan", { blocker }))).toBeNull();
+    // Research and planning don't wait on dependencies
+    expect(nextJobId(ticketState("T-2", "research", { blocker }))).toBe("T-2:plan");
+  });
+
+  test("skips jobs whose output is already recorded", () => {
+    const ctx = fakeCtx({ "test_results|T-1:test:r2": { suites: [] } });
+    expect(schedule([ticketState("T-1", "review_fix", { reviewRound: 2 })], { ctx }).jobs).toEqual([]);
+  });
+
+  test("runs furthest-along tickets first, then by priority", () => {
+    const states = [
+      ticketState("T-1", "research", {}, { priority: "critical" }),
+      ticketState("T-2", "plan", {}, { priority: "low" }),
+      ticketState("T-3", "plan", {}, { priority: "high" }),
+    ];
+    expect(schedule(states, { maxConcurrency: 3 }).jobs.map((j) => j.jobId)).toEqual(["T-3:implement", "T-2:implement", "T-1:plan"]);
+  });
+
+  test("skips tickets with a running job and fills only the free slots", () => {
+    const activeJobs = [{ jobId: "T-1:test", jobType: "ticket:test" as const, agentId: "claude", ticketId: "T-1", focusId: null, createdAtMs: NOW }];
+    const states = [ticketState("T-1", "implement"), ticketState("T-2", "plan"), ticketState("T-3", "plan")];
+    expect(schedule(states, { activeJobs, maxConcurrency: 2 }).jobs.map((j) => j.jobId)).toEqual(["T-2:implement"]);
+  });
+
+  test("starts no new tickets once the budget is exhausted", () => {
+    const states = [ticketState("T-1", "not_started"), ticketState("T-2", "plan")];
+    expect(schedule(states, { maxConcurrency: 2, budgetExhausted: true }).jobs.map((j) => j.jobId)).toEqual(["T-2:implement"]);
+  });
+
+  test("assigns no work to rate-limited agents until they resume", () => {
+    const agentPool = { claude: { description: "Claude" }, codex: { description: "Codex" } };
+    const states = [ticketState("T-1", "plan"), ticketState("T-2", "plan")];
+    const limited = schedule(states, { agentPool, maxConcurrency: 2, rateLimitedAgents: [{ agentId: "claude", resumeAtMs: NOW + 60_000 }] });
+    expect(limited.jobs.map((j) => j.agentId)).toEqual(["codex", "codex"]);
+    expect(limited.rateLimitedAgents).toEqual([{ agentId: "claude", resumeAtMs: NOW + 60_000 }]);
+
+    const resumed = schedule(states, { agentPool, maxConcurrency: 2, rateLimitedAgents: [{ agentId: "claude", resumeAtMs: NOW - 1 }] });
+    expect(resumed.jobs.map((j) => j.agentId)).toEqual(["claude", "codex"]);
+    expect(resumed.rateLimitedAgents).toEqual([]);
+  });
+});
@@ -0,0 +1,193 @@
+import type { SmithersCtx } from "smithers-orchestrator";
+import type { ScheduledJob } from "./scheduledTasks";
+import { pipelineStageIndex } from "./durability";
+import type { CodeReviewerSlot } from "./reviewConsensus";
+import { reviewRoundNodeId } from "./reviewLoop";
+import { isImplementBlocked, isJobComplete, startsNewWork, type TicketSchedule, type TicketScheduleJob, type TicketState } from "./components/TicketScheduler";
+
+/**
+ * Rule-based scheduler — a token-free alternative to the LLM TicketScheduler.
+ * Reads the same inputs (ticket states, running jobs, agent pool) and emits a
+ * TicketSchedule with the same shape, so SuperRalph can derive active jobs from
+ * its output exactly as it does for the agent scheduler.
+ */
+
+export type SchedulerMode = "agent" | "deterministic" | "hybrid";
+
+export type SchedulerAgentPool = Record<string, {
+  description: string;
+  isScheduler?: boolean;
+  isMergeQueue?: boolean;
+}>;
+
+export type DeterministicScheduleInput = {
+  ctx: SmithersCtx<any>;
+  ticketStates: TicketState[];
+  activeJobs: ScheduledJob[];
+  agentPool: SchedulerAgentPool;
+  focuses: ReadonlyArray<{ readonly id: string; readonly name: string }>;
+  maxConcurrency: number;
+  completedTicketIds: string[];
+  rateLimitedAgents?: TicketSchedule["rateLimitedAgents"];
+  /** Once the spend budget is used up only tickets already in flight advance */
+  budgetExhausted?: boolean;
+  /** Whether discovery jobs may be scheduled (default true) */
+  discovery?: boolean;
+  /** Reviewer slots a code review runs, for completion checks (default: claude only) */
+  codeReviewers?: CodeReviewerSlot[];
+  now?: number;
+};
+
+/** The job that moves a ticket out of its current pipeline stage, or null when nothing is left to run */
+export const NEXT_TICKET_JOB_TYPE: Record<string, TicketScheduleJob["jobType"] | null> = {
+  not_started: "ticket:research",
+  research: "ticket:plan",
+  plan: "ticket:implement",
+  implement: "ticket:test",
+  test: "ticket:build-verify",
+  build_verify: "ticket:spec-review",
+  spec_review: "ticket:code-review",
+  code_review: "ticket:review-fix",
+  // A finished review-fix opens the next review round, which tests and builds the fix first
+  review_fix: "ticket:test",
+  report: null,
+  landed: null,
+};
+
+/**
+ * Next job for a ticket. Reviewed tickets the reviewers approved skip review-fix, and so
+ * do tickets out of fix rounds: their report records them as blocked. A ticket evicted
+ * for rework or rejected for landing goes back to implement, which opens the next review
+ * round; like a review-fix, the rework is tested and built again before it is reviewed.
+ */
+function nextTicketJobType(state: TicketState): TicketScheduleJob["jobType"] | null {
+  if (state.reworkNeeded) return "ticket:implement";
+  if (state.pipelineStage === "code_review" && (state.reviewFixNeeded === false || state.reviewBlocked)) return "ticket:report";
+  return NEXT_TICKET_JOB_TYPE[state.pipelineStage] ?? null;
+}
+
+const priorityRank: Record<string, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+type CandidateJob = Pick<ScheduledJob, "jobId" | "ticketId" | "focusId"> & {
+  jobType: TicketScheduleJob["jobType"];
+};
+
+// Implement only runs past round 1 as a rework, which opens its round
+const REVIEW_ROUND_JOB_TYPES = new Set<string>([
+  "ticket:implement", "ticket:test", "ticket:build-verify", "ticket:spec-review", "ticket:code-review", "ticket:review-fix", "ticket:report",
+]);
+
+function ticketJob(ticketId: string, jobType: TicketScheduleJob["jobType"], reviewRound: number): CandidateJob {
+  const jobId = `${ticketId}:${jobType.replace("ticket:", "")}`;
+  return {
+    jobId: REVIEW_ROUND_JOB_TYPES.has(jobType) ? reviewRoundNodeId(jobId, reviewRound) : jobId,
+    jobType,
+    ticketId,
+    focusId: null,
+  };
+}
+
+/**
+ * Pick the agent with the fewest running + newly assigned jobs.
+ * Merge-queue agents only do pipeline work when nothing else is in the pool.
+ * Ties go to the agent listed first.
+ */
+function createAgentPicker(pool: SchedulerAgentPool, activeJobs: ScheduledJob[], unavailable: Set<string>) {
+  const ids = Object.keys(pool).filter((id) => !unavailable.has(id));
+  const workers = ids.filter((id) => !pool[id]?.isMergeQueue);
+  const candidates = workers.length > 0 ? workers : ids;
+  const load = new Map<string, number>(candidates.map((id) => [id, 0]));
+  for (const job of activeJobs) {
+    if (load.has(job.agentId)) load.set(job.agentId, load.get(job.agentId)! + 1);
+  }
+
+  return (): string | null => {
+    let best: string | null = null;
+    for (const id of candidates) {
+      if (best === null || load.get(id)! < load.get(best)!) best = id;
+    }
+    if (best !== null) load.set(best, load.get(best)! + 1);
+    return best;
+  };
+}
+
+export function computeDeterministicSchedule({
+  ctx,
+  ticketStates,
+  activeJobs,
+  agentPool,
+  focuses,
+  maxConcurrency,
+  completedTicketIds,
+  rateLimitedAgents = [],
+  budgetExhausted = false,
+  discovery: discoveryEnabled = true,
+  codeReviewers,
+  now = Date.now(),
+}: DeterministicScheduleInput): TicketSchedule {
+  const freeSlots = Math.max(0, maxConcurrency - activeJobs.length);
+  const stillLimited = rateLimitedAgents.filter((r) => r.resumeAtMs > now);
+  const pickAgent = createAgentPicker(agentPool, activeJobs, new Set(stillLimited.map((r) => r.agentId)));
+  const runningJobIds = new Set(activeJobs.map((j) => j.jobId));
+  const busyTickets = new Set(activeJobs.map((j) => j.ticketId).filter(Boolean));
+  const isRunnable = (job: CandidateJob) =>
+    !runningJobIds.has(job.jobId) && !isJobComplete(ctx, { ...job, agentId: "", createdAtMs: now }, codeReviewers);
+
+  const candidates: Array<CandidateJob & { reason: string }> = [];
+
+  // Ticket pipeline: furthest-along tickets first, then by priority, then discovery order
+  const orderedTickets = ticketStates
+    .map((state, index) => ({ state, index }))
+    .filter(({ state }) => !state.landed && !state.reportComplete && !busyTickets.has(state.ticket.id))
+    .sort((a, b) =>
+      pipelineStageIndex(b.state.pipelineStage) - pipelineStageIndex(a.state.pipelineStage) ||
+      (priorityRank[a.state.ticket.priority] ?? 3) - (priorityRank[b.state.ticket.priority] ?? 3) ||
+      a.index - b.index,
+    );
+
+  for (const { state } of orderedTickets) {
+    const jobType = nextTicketJobType(state);
+    if (!jobType) continue;
+    if (jobType === "ticket:implement" && isImplementBlocked(state)) continue;
+    const job = ticketJob(state.ticket.id, jobType, state.reworkNeeded ? state.reviewRound + 1 : state.reviewRound);
+    if (!isRunnable(job)) continue;
+    candidates.push({ ...job, reason: `Advance ${state.ticket.id} from ${state.pipelineStage} (${state.ticket.priority})` });
+  }
+
+  // Global jobs fill whatever slots the pipeline leaves over
+  const activeTickets = ticketStates.filter((t) => !t.landed);
+  const discovery: CandidateJob = { jobId: "discovery", jobType: "discovery", ticketId: null, focusId: null };
+  if (discoveryEnabled && activeTickets.length <= maxConcurrency * 2 && isRunnable(discovery)) {
+    const reason = `Only ${activeTickets.length} active ticket(s); keep the pipeline full`;
+    if (activeTickets.length === 0) candidates.unshift({ ...discovery, reason });
+    else candidates.push({ ...discovery, reason });
+  }
+  for (const focus of focuses) {
+    const review: CandidateJob = { jobId: `codebase-review:${focus.id}`, jobType: "codebase-review", ticketId: null, focusId: focus.id };
+    if (isRunnable(review)) candidates.push({ ...review, reason: `Review focus area ${focus.name}` });
+  }
+  const progress: CandidateJob = { jobId: "progress-update", jobType: "progress-update", ticketId: null, focusId: null };
+  if (completedTicketIds.length > 0 && isRunnable(progress)) {
+    candidates.push({ ...progress, reason: `${completedTicketIds.length} ticket(s) landed` });
+  }
+
+  const stateById = new Map(ticketStates.map((s) => [s.ticket.id, s]));
+  const allowed = budgetExhausted
+    ? candidates.filter((c) => !startsNewWork(c, c.ticketId ? stateById.get(c.ticketId) : undefined))
+    : candidates;
+
+  const jobs: TicketScheduleJob[] = [];
+  for (const candidate of allowed.slice(0, freeSlots)) {
+    const agentId = pickAgent();
+    if (!agentId) break;
+    jobs.push({ ...candidate, agentId });
+  }
+
+  return {
+    jobs,
+    reasoning: jobs.length > 0
+      ? `Deterministic scheduler filled ${jobs.length}/${freeSlots} free slot(s) by pipeline stage, priority and agent load.`
+      : `Deterministic scheduler found nothing to run (${freeSlots} free slot(s))${budgetExhausted ? "; spend budget exhausted" : ""}.`,
+    rateLimitedAgents: stillLimited,
+  };
+}
@@ -1,4 +1,5 @@
 import { Database } from "bun:sqlite";
+import { stripReviewRound } from "./reviewLoop";
 
 export type CrossRunTicketState = {
   ticketId: string;
@@ -8,29 +9,31 @@ export type CrossRunTicketState = {
   iteration: number;
 };
 
+/** Per-ticket output tables, most advanced stage first, with the node ID suffix each writes to */
+export const TICKET_OUTPUT_STAGES: ReadonlyArray<{ table: string; suffix: string; stage: string }> = [
+  { table: "land", suffix: "land", stage: "land" },
+  { table: "report", suffix: "report", stage: "report" },
+  { table: "review_fix", suffix: "review-fix", stage: "review_fix" },
+  { table: "code_review", suffix: "code-review", stage: "code_review" },
+  { table: "code_review_codex", suffix: "code-review-codex", stage: "code_review" },
+  { table: "code_review_gemini", suffix: "code-review-gemini", stage: "code_review" },
+  { table: "spec_review", suffix: "spec-review", stage: "spec_review" },
+  { table: "build_verify", suffix: "build-verify", stage: "build_verify" },
+  { table: "test_results", suffix: "test", stage: "test" },
+  { table: "implement", suffix: "implement", stage: "implement" },
+  { table: "plan", suffix: "plan", stage: "plan" },
+  { table: "research", suffix: "research", stage: "research" },
+];
+
 /**
  * Query the SQLite database directly to find ticket state across ALL runs.
  * Returns the most advanced pipeline stage for each ticket across any run.
  */
 export function loadCrossRunTicketState(dbPath: string): CrossRunTicketState[] {
   const db = new Database(dbPath, { readonly: true });
-
-  const stages = [
-    { table: "land", suffix: "land", stage: "land" },
-    { table: "report", suffix: "report", stage: "report" },
-    { table: "review_fix", suffix: "review-fix", stage: "review_fix" },
-    { table: "code_review", suffix: "code-review", stage: "code_review" },
-    { table: "spec_review", suffix: "spec-review", stage: "spec_review" },
-    { table: "build_verify", suffix: "build-verify", stage: "build_verify" },
-    { table: "test_results", suffix: "test", stage: "test" },
-    { table: "implement", suffix: "implement", stage: "implement" },
-    { table: "plan", suffix: "plan", stage: "plan" },
-    { table: "research", suffix: "research", stage: "research" },
-  ];
-
   const ticketStages = new Map<string, CrossRunTicketState>();
 
-  for (const { table, suffix, stage } of stages) {
+  for (const { table, suffix, stage } of TICKET_OUTPUT_STAGES) {
     try {
       const tableExists = db.prepare(
         "SELECT name FROM sqlite_master WHERE type='table' AND name=?"
@@ -42,20 +45,25 @@ export function loadCrossRunTicketState(dbPath: string): CrossRunTicketState[] {
       ).all() as Array<{ node_id: string; run_id: string; iteration: number }>;
 
       for (const row of rows) {
-        const ticketId = row.node_id.replace(`:${suffix}`, "");
-        if (ticketId === row.node_id && suffix !== "land") continue;
+        // Later review rounds add a ":r<round>" suffix to review, report and land node IDs
+        const baseNodeId = stripReviewRound(row.node_id);
+        const ticketId = baseNodeId.replace(`:${suffix}`, "");
+        if (ticketId === baseNodeId && suffix !== "land") continue;
 
-        if (!ticketStages.has(ticketId)) {
-          let actuallyLanded = false;
-          if (stage === "land") {
-            try {
-              const landRow = db.prepare(
-                `SELECT merged FROM land WHERE node_id = ? ORDER BY iteration DESC LIMIT 1`
-              ).get(row.node_id) as { merged: number } | undefined;
-              actuallyLanded = landRow?.merged === 1;
-            } catch {}
-          }
+        let actuallyLanded = false;
+        if (stage === "land") {
+          try {
+            const landRow = db.prepare(
+              `SELECT merged FROM land WHERE node_id = ? ORDER BY iteration DESC LIMIT 1`
+            ).get(row.node_id) as { merged: number } | undefined;
+            actuallyLanded = landRow?.merged === 1;
+          } catch {}
+        }
 
+        // Each review round has its own land node; the ticket landed if any of them merged
+        const known = ticketStages.get(ticketId);
+        if (known && actuallyLanded) known.landed = true;
+        if (!known) {
           ticketStages.set(ticketId, {
             ticketId,
             latestRunId: row.run_id,
@@ -87,11 +95,13 @@ export function getResumableTickets(dbPath: string, currentRunId: string): Cross
   );
 }
 
+/** Pipeline stages in order, from a ticket with no outputs to a landed one */
+export const PIPELINE_STAGES = ["not_started", "research", "plan", "implement", "test", "build_verify", "spec_review", "code_review", "review_fix", "report", "land"] as const;
+
 /**
  * Get the furthest pipeline stage index for sorting.
  * Higher = further along = should be prioritized.
  */
 export function pipelineStageIndex(stage: string): number {
-  const order = ["not_started", "research", "plan", "implement", "test", "build_verify", "spec_review", "code_review", "review_fix", "report", "land"];
-  return order.indexOf(stage);
+  return (PIPELINE_STAGES as readonly string[]).indexOf(stage);
 }
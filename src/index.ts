@@ -14,22 +14,76 @@ import {
   selectAllTickets,
   selectReviewTickets,
   selectDiscoverTickets,
+  selectImportedTickets,
+  applyManualTickets,
   selectCompletedTicketIds,
   selectProgressSummary,
   selectTicketReport,
+  selectReportIteration,
   selectResearch,
   selectPlan,
   selectImplement,
   selectTestResults,
+  selectBuildVerify,
+  selectTestSuiteStatuses,
   selectSpecReview,
   selectCodeReviews,
+  selectCodeReviewConsensus,
+  selectReviewFixNeeded,
+  selectReviewRound,
+  selectReviewLoop,
   selectClarifyingQuestions,
   selectInterpretConfig,
   selectMonitor,
   selectTicketPipelineStage,
+  selectAgentUsage,
+  selectCostByTicket,
+  selectCostByStage,
+  selectCostByAgent,
+  selectRunSpendUsd,
 } from "./selectors";
 
-import type { Ticket, RalphOutputs } from "./selectors";
+import type { Ticket, RalphOutputs, AgentUsageRow, UsageTotals, TestSuiteResult, CodeReviewConsensusConfig } from "./selectors";
+import { extractAgentUsage } from "./usage";
+import type { AgentCallUsage } from "./usage";
+import { CODE_REVIEWER_SLOTS, codeReviewNodeId, decideReviewConsensus, reviewerWeight } from "./reviewConsensus";
+import type { CodeReviewerSlot, ReviewConsensus, ReviewConsensusPolicy, ReviewVote, ReviewWeights, ReviewerOutcomes } from "./reviewConsensus";
+import { loadReviewHistory, readReviewHistory, recordReviewHistory, ensureReviewHistoryTables, tallyReviewerOutcomes } from "./reviewHistory";
+import type { ReviewHistory, ReviewRuling } from "./reviewHistory";
+import { reviewRoundNodeId, reviewRoundOfNodeId, canFixInRound } from "./reviewLoop";
+import type { ReviewLoopConfig, ReviewLoopState } from "./reviewLoop";
+import { createTestHarnessAgent, buildTestHarnessPrompt, runTestHarness, runTestSuite } from "./testHarness/runner";
+import type { TestSuiteConfig, TestHarnessRequest, TestHarnessResult, HarnessSuiteResult } from "./testHarness/runner";
+import { TEST_REPORT_FORMATS, parseTestOutput, parseJUnitXml, parseTap, parseBunTest, parseJestOutput, parsePytest, parseGoTestJson, parseGoTestText, parseCargoTest } from "./testHarness/parsers";
+import type { TestCaseResult, TestCaseStatus, TestReportFormat, ParsedTestReport } from "./testHarness/parsers";
+import { createBuildVerifyAgent, buildBuildVerifyPrompt, runBuildVerify } from "./buildHarness/runner";
+import type { BuildStepConfig, BuildVerifyRequest, BuildVerifyResult, BuildStepResult } from "./buildHarness/runner";
+import { parseBuildOutput, parseTscOutput, parseGoBuildOutput, parseCargoOutput, parseEslintOutput, formatDiagnosticsByFile } from "./buildHarness/diagnostics";
+import type { BuildDiagnostic, DiagnosticTool, DiagnosticSeverity } from "./buildHarness/diagnostics";
+import { collectWorktreeGarbage, createWorktreeGcAgent, buildWorktreeGcPrompt, readWorktreeDiff, resolveWorktreeRoot, worktreePathFor, jobWorktreeId, DEFAULT_WORKTREE_ROOT, WORKTREE_DIR_PREFIX } from "./worktreeManager";
+import type { WorktreeGcRequest, WorktreeGcResult, WorktreeGcRemoval } from "./worktreeManager";
+import { requiresLandingApproval, landingApprovalState, recordLandingDecision, loadLandingDecisions, readLandingDecisions, ensureLandingApprovalTable, formatRejectionContext } from "./landingApproval";
+import type { LandingApprovalPolicy, LandingApprovalState, LandingDecision } from "./landingApproval";
+import { importTickets, parseTicketImport, parseGitHubIssues, parseTrackerCsv, parseMarkdownChecklist, parseCsv, parsePriority, detectImportFormat, buildTicketImportPrompt, createTicketImportAgent } from "./ticketImport";
+import type { TicketImportFormat, TicketImportSource, TicketImportRequest, TicketImportResult, TicketImportSourceResult } from "./ticketImport";
+import { recordManualTicketChange, loadManualTicketOverrides, readManualTicketOverrides, ensureManualTicketTable } from "./manualTickets";
+import type { ManualTicketChange, ManualTicketFields, ManualTicketOverride } from "./manualTickets";
+import { recordTicketLifecycleChange, loadTicketLifecycle, readTicketLifecycle, ensureTicketLifecycleTable, ticketLifecycleState, formatDroppedTickets } from "./ticketLifecycle";
+import type { TicketLifecycleState, TicketLifecycleChange } from "./ticketLifecycle";
+import { recordTicketControl, loadTicketControls, loadPendingTicketControls, readPendingTicketControls, ensureTicketControlTable, requestStageRetry, requestQueueHold, latestStageJob } from "./ticketControls";
+import type { TicketControl, TicketControlAction, PendingTicketControls } from "./ticketControls";
+import { cleanupCancelledTicket, buildTicketCleanupPrompt, createTicketCleanupAgent } from "./ticketCleanup";
+import type { TicketCleanupRequest, TicketCleanupResult } from "./ticketCleanup";
+import { openWorkflowDb, readOutputRows, readReportIteration, readTickets, listRuns, latestRunId, runStartedAtMs, readTicketSummaries, readTicketHistory, readRunStatus, readActiveJobs, readTicketPipelines, readMergeQueueState, readAgentPool } from "./workflowDb";
+import type { OutputRow, RunSummary, TicketSummary, RunStatus, ActiveJob, TicketPipeline, MergeQueueState, MergeQueueWindowEntry, AgentPoolEntry } from "./workflowDb";
+import { startDashboardServer, DEFAULT_DASHBOARD_PORT } from "./dashboard/server";
+import type { DashboardServer, DashboardServerOptions } from "./dashboard/server";
+import { readDashboardSnapshot, DASHBOARD_STAGES } from "./dashboard/snapshot";
+import type { DashboardSnapshot, DashboardEviction } from "./dashboard/snapshot";
+import { getRunEventBus, resetRunEventBus, emitRunEvent, withStageEvents, loadRunEvents, createRunEventSink, createNdjsonFileSink, createWebhookSink, createCommandSink, RunEventBus } from "./runEvents";
+import type { RunEvent, RunEventType, RunEventInput, RunEventSink, RunEventSinkConfig } from "./runEvents";
+import { startStatusReporter, collectStatusReport, renderStatusReport, loadStatusReportState, isQuietReport, DEFAULT_REPORT_INTERVAL_MINUTES } from "./statusReport";
+import type { StatusReport, StatusReportOptions, StatusReportState, StatusReporter, MainCommit } from "./statusReport";
 
 import {
   SuperRalph,
@@ -43,8 +97,11 @@ import {
   scheduledJobSchema,
   computePipelineStage,
   isJobComplete,
+  isImplementBlocked,
+  startsNewWork,
   JOB_TYPE_TO_OUTPUT_KEY,
   AgenticMergeQueue,
+  SpeculativeMergeQueue,
   mergeQueueResultSchema,
   clarifyingQuestionsOutputSchema,
   interpretConfigOutputSchema,
@@ -55,13 +112,18 @@ import {
   AgentRegistry,
   getAgentRegistry,
   resetAgentRegistry,
+  describeAgent,
+  trackAgentCalls,
 } from "./agentRegistry";
-import type { AgentMetadata, AgentStats, AgentRegistrySnapshot } from "./agentRegistry";
+import type { AgentMetadata, AgentStats, AgentRegistrySnapshot, TaskUsage } from "./agentRegistry";
+import { AgentRateLimitError, detectRateLimitInError, detectRateLimitInResult, rateLimitBackoffMs } from "./rateLimits";
+import type { AgentRateLimit } from "./rateLimits";
 
 import {
   loadCrossRunTicketState,
   getResumableTickets,
   pipelineStageIndex,
+  PIPELINE_STAGES,
 } from "./durability";
 import type { SuperRalphProps } from "./components/SuperRalph";
 import type { JobProps } from "./components/Job";
@@ -71,7 +133,14 @@ import type { MonitorOutput, MonitorProps } from "./components/Monitor";
 import type { TicketResumeProps } from "./components/TicketResume";
 import type { TicketSchedule, TicketScheduleJob, TicketSchedulerProps, TicketState } from "./components/TicketScheduler";
 import type { AgenticMergeQueueProps, AgenticMergeQueueTicket, MergeQueueResult } from "./components/AgenticMergeQueue";
+import type { SpeculativeMergeQueueProps } from "./components/SpeculativeMergeQueue";
+import { createDefaultMergeQueueOps, createGitMergeQueueOps, createMergeQueueOps, getSpeculativeMergeQueueMetrics, offerSpeculativeMergeQueueTickets } from "./mergeQueue/coordinator";
+import type { CiRetryPolicy, EvictReason, MergeQueueCiMode, MergeQueueMetrics, MergeQueueOps, MergeQueueVcs } from "./mergeQueue/coordinator";
 import type { CrossRunTicketState } from "./durability";
+import { findDependencyCycles, computeTicketBlockers, formatTicketBlocker } from "./ticketGraph";
+import type { TicketBlocker } from "./ticketGraph";
+import { computeDeterministicSchedule, NEXT_TICKET_JOB_TYPE } from "./deterministicScheduler";
+import type { SchedulerMode, SchedulerAgentPool, DeterministicScheduleInput } from "./deterministicScheduler";
 import { useSuperRalph } from "./hooks/useSuperRalph";
 import type { SuperRalphContext, UseSuperRalphConfig } from "./hooks/useSuperRalph";
 import { ralphOutputSchemas } from "./schemas";
@@ -81,19 +150,33 @@ export {
   selectAllTickets,
   selectReviewTickets,
   selectDiscoverTickets,
+  selectImportedTickets,
+  applyManualTickets,
   selectCompletedTicketIds,
   selectProgressSummary,
   selectTicketReport,
+  selectReportIteration,
   selectResearch,
   selectPlan,
   selectImplement,
   selectTestResults,
+  selectBuildVerify,
+  selectTestSuiteStatuses,
   selectSpecReview,
   selectCodeReviews,
+  selectCodeReviewConsensus,
+  selectReviewFixNeeded,
+  selectReviewRound,
+  selectReviewLoop,
   selectClarifyingQuestions,
   selectInterpretConfig,
   selectMonitor,
   selectTicketPipelineStage,
+  selectAgentUsage,
+  selectCostByTicket,
+  selectCostByStage,
+  selectCostByAgent,
+  selectRunSpendUsd,
 
   // Hooks
   useSuperRalph,
@@ -110,19 +193,194 @@ export {
   scheduledJobSchema,
   computePipelineStage,
   isJobComplete,
+  isImplementBlocked,
+  startsNewWork,
   JOB_TYPE_TO_OUTPUT_KEY,
   AgenticMergeQueue,
+  SpeculativeMergeQueue,
   mergeQueueResultSchema,
 
   // Agent Registry
   AgentRegistry,
   getAgentRegistry,
   resetAgentRegistry,
+  describeAgent,
+  trackAgentCalls,
+
+  // Rate limits
+  AgentRateLimitError,
+  detectRateLimitInError,
+  detectRateLimitInResult,
+  rateLimitBackoffMs,
+
+  // Usage
+  extractAgentUsage,
+
+  // Code review consensus
+  CODE_REVIEWER_SLOTS,
+  codeReviewNodeId,
+  decideReviewConsensus,
+  reviewerWeight,
+  loadReviewHistory,
+  readReviewHistory,
+  recordReviewHistory,
+  ensureReviewHistoryTables,
+  tallyReviewerOutcomes,
+
+  // Review/fix loop
+  reviewRoundNodeId,
+  reviewRoundOfNodeId,
+  canFixInRound,
+
+  // Test harness
+  createTestHarnessAgent,
+  buildTestHarnessPrompt,
+  runTestHarness,
+  runTestSuite,
+  TEST_REPORT_FORMATS,
+  parseTestOutput,
+  parseJUnitXml,
+  parseTap,
+  parseBunTest,
+  parseJestOutput,
+  parsePytest,
+  parseGoTestJson,
+  parseGoTestText,
+  parseCargoTest,
+
+  // Build verification
+  createBuildVerifyAgent,
+  buildBuildVerifyPrompt,
+  runBuildVerify,
+  parseBuildOutput,
+  parseTscOutput,
+  parseGoBuildOutput,
+  parseCargoOutput,
+  parseEslintOutput,
+  formatDiagnosticsByFile,
+
+  // Worktrees
+  collectWorktreeGarbage,
+  createWorktreeGcAgent,
+  buildWorktreeGcPrompt,
+  readWorktreeDiff,
+  resolveWorktreeRoot,
+  worktreePathFor,
+  jobWorktreeId,
+  DEFAULT_WORKTREE_ROOT,
+  WORKTREE_DIR_PREFIX,
+
+  // Landing approval
+  requiresLandingApproval,
+  landingApprovalState,
+  recordLandingDecision,
+  loadLandingDecisions,
+  readLandingDecisions,
+  ensureLandingApprovalTable,
+  formatRejectionContext,
+
+  // Ticket import
+  importTickets,
+  parseTicketImport,
+  parseGitHubIssues,
+  parseTrackerCsv,
+  parseMarkdownChecklist,
+  parseCsv,
+  parsePriority,
+  detectImportFormat,
+  buildTicketImportPrompt,
+  createTicketImportAgent,
+
+  // Manual tickets
+  recordManualTicketChange,
+  loadManualTicketOverrides,
+  readManualTicketOverrides,
+  ensureManualTicketTable,
+
+  // Ticket lifecycle
+  recordTicketLifecycleChange,
+  loadTicketLifecycle,
+  readTicketLifecycle,
+  ensureTicketLifecycleTable,
+  ticketLifecycleState,
+  formatDroppedTickets,
+  cleanupCancelledTicket,
+  buildTicketCleanupPrompt,
+  createTicketCleanupAgent,
+
+  // Ticket controls (retries and merge queue holds from the Monitor)
+  recordTicketControl,
+  loadTicketControls,
+  loadPendingTicketControls,
+  readPendingTicketControls,
+  ensureTicketControlTable,
+  requestStageRetry,
+  requestQueueHold,
+  latestStageJob,
+
+  // Workflow DB inspection
+  openWorkflowDb,
+  readOutputRows,
+  readReportIteration,
+  readTickets,
+  listRuns,
+  latestRunId,
+  runStartedAtMs,
+  readTicketSummaries,
+  readTicketHistory,
+  readRunStatus,
+  readActiveJobs,
+  readTicketPipelines,
+  readMergeQueueState,
+  readAgentPool,
+
+  // Run events
+  RunEventBus,
+  getRunEventBus,
+  resetRunEventBus,
+  emitRunEvent,
+  withStageEvents,
+  loadRunEvents,
+  createRunEventSink,
+  createNdjsonFileSink,
+  createWebhookSink,
+  createCommandSink,
+
+  // Status reports
+  startStatusReporter,
+  collectStatusReport,
+  renderStatusReport,
+  loadStatusReportState,
+  isQuietReport,
+  DEFAULT_REPORT_INTERVAL_MINUTES,
+
+  // Web dashboard
+  startDashboardServer,
+  DEFAULT_DASHBOARD_PORT,
+  readDashboardSnapshot,
+  DASHBOARD_STAGES,
 
   // Durability
   loadCrossRunTicketState,
   getResumableTickets,
   pipelineStageIndex,
+  PIPELINE_STAGES,
+
+  // Ticket dependencies
+  findDependencyCycles,
+  computeTicketBlockers,
+  formatTicketBlocker,
+
+  // Merge queue backends
+  createDefaultMergeQueueOps,
+  createGitMergeQueueOps,
+  createMergeQueueOps,
+  getSpeculativeMergeQueueMetrics,
+  offerSpeculativeMergeQueueTickets,
+
+  // Deterministic scheduler
+  computeDeterministicSchedule,
+  NEXT_TICKET_JOB_TYPE,
 
   // Schemas
   ralphOutputSchemas,
@@ -134,6 +392,79 @@ export {
 export type {
   Ticket,
   RalphOutputs,
+  AgentUsageRow,
+  UsageTotals,
+  TestSuiteResult,
+  CodeReviewConsensusConfig,
+  CodeReviewerSlot,
+  ReviewConsensus,
+  ReviewConsensusPolicy,
+  ReviewVote,
+  ReviewWeights,
+  ReviewerOutcomes,
+  ReviewHistory,
+  ReviewRuling,
+  ReviewLoopConfig,
+  ReviewLoopState,
+  TestSuiteConfig,
+  TestHarnessRequest,
+  TestHarnessResult,
+  HarnessSuiteResult,
+  TestCaseResult,
+  TestCaseStatus,
+  TestReportFormat,
+  ParsedTestReport,
+  BuildStepConfig,
+  BuildVerifyRequest,
+  BuildVerifyResult,
+  BuildStepResult,
+  BuildDiagnostic,
+  DiagnosticTool,
+  DiagnosticSeverity,
+  WorktreeGcRequest,
+  WorktreeGcResult,
+  WorktreeGcRemoval,
+  LandingApprovalPolicy,
+  LandingApprovalState,
+  LandingDecision,
+  TicketImportFormat,
+  TicketImportSource,
+  TicketImportRequest,
+  TicketImportResult,
+  TicketImportSourceResult,
+  ManualTicketChange,
+  ManualTicketFields,
+  ManualTicketOverride,
+  TicketLifecycleState,
+  TicketLifecycleChange,
+  TicketControl,
+  TicketControlAction,
+  PendingTicketControls,
+  TicketCleanupRequest,
+  TicketCleanupResult,
+  OutputRow,
+  RunSummary,
+  TicketSummary,
+  RunStatus,
+  ActiveJob,
+  TicketPipeline,
+  MergeQueueState,
+  MergeQueueWindowEntry,
+  AgentPoolEntry,
+  DashboardServer,
+  DashboardServerOptions,
+  DashboardSnapshot,
+  DashboardEviction,
+  RunEvent,
+  RunEventType,
+  RunEventInput,
+  RunEventSink,
+  RunEventSinkConfig,
+  StatusReport,
+  StatusReportOptions,
+  StatusReportState,
+  StatusReporter,
+  MainCommit,
   SuperRalphProps,
   JobProps,
   SuperRalphContext,
@@ -152,8 +483,22 @@ export type {
   AgenticMergeQueueProps,
   AgenticMergeQueueTicket,
   MergeQueueResult,
+  SpeculativeMergeQueueProps,
+  MergeQueueOps,
+  MergeQueueVcs,
+  MergeQueueCiMode,
+  MergeQueueMetrics,
+  CiRetryPolicy,
+  EvictReason,
   AgentMetadata,
   AgentStats,
   AgentRegistrySnapshot,
+  AgentRateLimit,
+  AgentCallUsage,
+  TaskUsage,
   CrossRunTicketState,
+  TicketBlocker,
+  SchedulerMode,
+  SchedulerAgentPool,
+  DeterministicScheduleInput,
 };
@@ -0,0 +1,118 @@
+import { Database } from "bun:sqlite";
+import type { Ticket } from "./selectors";
+
+/**
+ * Human approval gate in front of the merge queue.
+ * Tickets the policy covers wait with a complete report until someone records a
+ * decision with `super-ralph approve|reject`. Decisions live in the workflow DB, one
+ * row each, and hold for the report they were made on: that run's `reportIteration`-th
+ * report of the ticket. The latest per ticket of a run wins; once a rework writes a new
+ * report, the ticket waits for a new decision. A rejection sends the ticket back for
+ * rework with the reviewer's comment, like a merge-queue eviction.
+ */
+
+/**
+ * - "always": every ticket needs approval
+ * - "never": tickets land as soon as their report is complete
+ * - rule: tickets matching any listed priority, category or focus need approval
+ */
+export type LandingApprovalPolicy =
+  | "always"
+  | "never"
+  | {
+      priorities?: Array<Ticket["priority"]>;
+      categories?: string[];
+      /** Focus IDs or names, matched against the ticket's category */
+      focuses?: string[];
+    };
+
+export type LandingDecision = {
+  runId: string;
+  ticketId: string;
+  /** Which of the ticket's reports in the run was decided on, counting from 1 */
+  reportIteration: number;
+  decision: "approved" | "rejected";
+  comment: string | null;
+  decidedBy: string | null;
+  decidedAtMs: number;
+};
+
+export type LandingApprovalState = "not_required" | "awaiting" | "approved" | "rejected";
+
+const CREATE_TABLE = `CREATE TABLE IF NOT EXISTS landing_approvals (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  run_id TEXT NOT NULL,
+  ticket_id TEXT NOT NULL,
+  report_iteration INTEGER NOT NULL,
+  decision TEXT NOT NULL,
+  comment TEXT,
+  decided_by TEXT,
+  decided_at_ms INTEGER NOT NULL
+)`;
+
+export function ensureLandingApprovalTable(db: Database): void {
+  db.exec(CREATE_TABLE);
+}
+
+export function recordLandingDecision(db: Database, decision: LandingDecision): void {
+  ensureLandingApprovalTable(db);
+  db.prepare(
+    `INSERT INTO landing_approvals (run_id, ticket_id, report_iteration, decision, comment, decided_by, decided_at_ms) VALUES (?, ?, ?, ?, ?, ?, ?)`
+  ).run(decision.runId, decision.ticketId, decision.reportIteration, decision.decision, decision.comment, decision.decidedBy, decision.decidedAtMs);
+}
+
+/** Latest decision per ticket of the run */
+export function loadLandingDecisions(db: Database, runId: string): Map<string, LandingDecision> {
+  ensureLandingApprovalTable(db);
+  const rows = db.prepare(
+    `SELECT run_id as runId, ticket_id as ticketId, report_iteration as reportIteration, decision, comment,
+            decided_by as decidedBy, decided_at_ms as decidedAtMs
+     FROM landing_approvals WHERE run_id = ? ORDER BY decided_at_ms ASC, id ASC`
+  ).all(runId) as LandingDecision[];
+  return new Map(rows.map((row) => [row.ticketId, row]));
+}
+
+/** Read the run's decisions from the workflow DB at `dbPath`; empty when it can't be opened */
+export function readLandingDecisions(dbPath: string, runId: string): Map<string, LandingDecision> {
+  let db: Database | null = null;
+  try {
+    db = new Database(dbPath);
+    return loadLandingDecisions(db, runId);
+  } catch {
+    return new Map();
+  } finally {
+    db?.close();
+  }
+}
+
+export function requiresLandingApproval(
+  ticket: Ticket,
+  policy: LandingApprovalPolicy,
+  focuses: ReadonlyArray<{ readonly id: string; readonly name: string }> = [],
+): boolean {
+  if (policy === "always") return true;
+  if (policy === "never") return false;
+  if (policy.priorities?.includes(ticket.priority)) return true;
+  if (policy.categories?.includes(ticket.category)) return true;
+  if (!policy.focuses) return false;
+  const focusKeys = new Set(policy.focuses);
+  for (const f of focuses) {
+    if (focusKeys.has(f.id) || focusKeys.has(f.name)) focusKeys.add(f.id).add(f.name);
+  }
+  return focusKeys.has(ticket.category);
+}
+
+/** A decision only counts for the report it was made on; `reportIteration` is the ticket's current one */
+export function landingApprovalState(required: boolean, decision: LandingDecision | undefined, reportIteration: number): LandingApprovalState {
+  if (!required) return "not_required";
+  return decision?.reportIteration === reportIteration ? decision.decision : "awaiting";
+}
+
+/** Rejection as prompt context for the ticket's next implement run */
+export function formatRejectionContext(decision: LandingDecision | undefined): string | null {
+  if (decision?.decision !== "rejected") return null;
+  return [
+    `Landing was rejected${decision.decidedBy ? ` by ${decision.decidedBy}` : ""} on ${new Date(decision.decidedAtMs).toISOString()}.`,
+    decision.comment ? `Comment:\n${decision.comment}` : "No comment was given.",
+  ].join("\n");
+}
@@ -0,0 +1,88 @@
+import { Database } from "bun:sqlite";
+import type { Ticket } from "./selectors";
+
+/**
+ * Tickets added or edited by hand while a run is live (`super-ralph ticket add|edit|priority`).
+ * Each change is one row in the workflow DB; folded in order they give one override per
+ * ticket. An override's fields win over the agent-written ticket with the same ID, and a
+ * ticket added by hand joins the backlog on its own. SuperRalph re-reads the table on
+ * every scheduling pass, so no restart is needed.
+ */
+
+export type ManualTicketFields = Partial<Omit<Ticket, "id">>;
+
+export type ManualTicketChange = {
+  ticketId: string;
+  action: "add" | "edit" | "priority";
+  fields: ManualTicketFields;
+  changedBy: string | null;
+  changedAtMs: number;
+};
+
+export type ManualTicketOverride = {
+  ticketId: string;
+  /** Created with `ticket add`, so it is a ticket even without an agent-written one */
+  added: boolean;
+  fields: ManualTicketFields;
+  changedBy: string | null;
+  updatedAtMs: number;
+};
+
+const CREATE_TABLE = `CREATE TABLE IF NOT EXISTS manual_tickets (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  ticket_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  fields TEXT NOT NULL,
+  changed_by TEXT,
+  changed_at_ms INTEGER NOT NULL
+)`;
+
+export function ensureManualTicketTable(db: Database): void {
+  db.exec(CREATE_TABLE);
+}
+
+export function recordManualTicketChange(db: Database, change: ManualTicketChange): void {
+  ensureManualTicketTable(db);
+  db.prepare(
+    `INSERT INTO manual_tickets (ticket_id, action, fields, changed_by, changed_at_ms) VALUES (?, ?, ?, ?, ?)`
+  ).run(change.ticketId, change.action, JSON.stringify(change.fields), change.changedBy, change.changedAtMs);
+}
+
+/** Every change folded into one override per ticket, later fields winning */
+export function loadManualTicketOverrides(db: Database): Map<string, ManualTicketOverride> {
+  ensureManualTicketTable(db);
+  const rows = db.prepare(
+    `SELECT ticket_id as ticketId, action, fields, changed_by as changedBy, changed_at_ms as changedAtMs
+     FROM manual_tickets ORDER BY changed_at_ms ASC, id ASC`
+  ).all() as Array<Omit<ManualTicketChange, "fields"> & { fields: string }>;
+
+  const overrides = new Map<string, ManualTicketOverride>();
+  for (const row of rows) {
+    let fields: ManualTicketFields = {};
+    try {
+      fields = JSON.parse(row.fields) as ManualTicketFields;
+    } catch { /* keep the row's timestamp, skip its fields */ }
+    const previous = overrides.get(row.ticketId);
+    overrides.set(row.ticketId, {
+      ticketId: row.ticketId,
+      added: (previous?.added ?? false) || row.action === "add",
+      fields: { ...previous?.fields, ...fields },
+      changedBy: row.changedBy,
+      updatedAtMs: row.changedAtMs,
+    });
+  }
+  return overrides;
+}
+
+/** Read overrides from the workflow DB at `dbPath`; empty when it can't be opened */
+export function readManualTicketOverrides(dbPath: string): ManualTicketOverride[] {
+  let db: Database | null = null;
+  try {
+    db = new Database(dbPath);
+    return [...loadManualTicketOverrides(db).values()];
+  } catch {
+    return [];
+  } finally {
+    db?.close();
+  }
+}
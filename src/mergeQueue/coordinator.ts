@@ -4,6 +4,18 @@ import { spawn } from "node:child_process";
 import { mkdtemp, rm } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { basename, join } from "node:path";
+import { Database } from "bun:sqlite";
+import {
+  ensureMergeQueueTables,
+  saveQueueEntry,
+  loadQueueEntries,
+  savePendingLanding,
+  getPendingLanding,
+  clearPendingLanding,
+  recordCiCommandRun,
+  isCiCommandFlaky,
+} from "./store";
+import { emitRunEvent } from "../runEvents";
 
 export type MergeQueueOrderingStrategy =
   | "report-complete-fifo"
@@ -39,6 +51,7 @@ type QueueEntry = {
   enqueueSeq: number;
   snapshotIndex: number;
   invalidatedCount: number;
+  flakyRequeues: number;
   result?: MergeQueueLandResult;
   waiters: Array<(result: MergeQueueLandResult) => void>;
 };
@@ -54,18 +67,57 @@ type OperationResult = {
   details: string;
 };
 
+type CiCommandAttempt = {
+  command: string;
+  attempt: number;
+  passed: boolean;
+  exitCode: number;
+};
+
 type CiRunResult = {
   passed: boolean;
   details: string;
+  /** Every command attempt, in order; absent when CI never got to run a command */
+  attempts?: CiCommandAttempt[];
 };
 
+/** Extra attempts per post-land check: one count for every command, or per command */
+export type CiRetryPolicy = number | Record<string, number>;
+
+function ciRetriesFor(policy: CiRetryPolicy | undefined, command: string): number {
+  const retries = typeof policy === "number" ? policy : policy?.[command] ?? 0;
+  return Math.max(0, Math.floor(retries));
+}
+
 type EvictionContext = {
   attemptedLog: string | null;
   attemptedDiffSummary: string | null;
   landedOnMainSinceBranch: string | null;
 };
 
+export type MergeQueueVcs = "jj" | "git";
+
+/**
+ * How a speculative window is checked:
+ * - "parallel" runs CI on every entry of the window at once
+ * - "bisect" runs CI once on the stack tip and, only if that fails, bisects the
+ *   window to find the first culprit
+ */
+export type MergeQueueCiMode = "parallel" | "bisect";
+
+export type MergeQueueMetrics = {
+  windowsTested: number;
+  ciRuns: number;
+  /** CI runs avoided compared with testing every window entry in parallel */
+  ciRunsSaved: number;
+  bisections: number;
+};
+
 export type MergeQueueOps = {
+  /** Revision expression for the mainline the queue lands onto */
+  mainRev: string;
+  /** Revision expression for a ticket's branch tip */
+  ticketRev: (ticketId: string) => string;
   fetchMain: (repoRoot: string) => Promise<OperationResult>;
   rebase: (
     repoRoot: string,
@@ -76,6 +128,7 @@ export type MergeQueueOps = {
     repoRoot: string,
     ticket: MergeQueueTicket,
     commands: string[],
+    retries?: CiRetryPolicy,
   ) => Promise<CiRunResult>;
   fastForwardMain: (repoRoot: string, ticketId: string) => Promise<OperationResult>;
   pushMain: (repoRoot: string) => Promise<OperationResult>;
@@ -98,6 +151,26 @@ export type MergeQueueRequest = {
   queueSnapshot: MergeQueueTicket[];
   readyForQueue: boolean;
   postRebaseReviewAgent?: AgentLike;
+  /** Workflow SQLite DB; when set, queue state survives process restarts */
+  dbPath?: string;
+  /** Version control backend used to land tickets (default "jj") */
+  vcs?: MergeQueueVcs;
+  /** Mainline branch name for the git backend (default "main") */
+  mainBranch?: string;
+  /** CI strategy for speculative windows (default "parallel") */
+  ciMode?: MergeQueueCiMode;
+  /** Retries for failing post-land checks before CI counts as failed (default 0) */
+  ciRetries?: CiRetryPolicy;
+  /**
+   * How often a ticket evicted by a known-flaky command is re-queued before the
+   * failure is treated as real (default 2)
+   */
+  maxFlakyRequeues?: number;
+};
+
+export type MergeQueuePersistence = {
+  db: Database;
+  queueKey: string;
 };
 
 const REQUEST_MARKER = "SUPER_RALPH_SPECULATIVE_MERGE_QUEUE_REQUEST";
@@ -132,9 +205,17 @@ function normalizeOpResult(prefix: string, res: CommandResult): OperationResult
   };
 }
 
+async function runGitCommand(cwd: string, args: string[]): Promise<CommandResult> {
+  return await runProcess("git", args, cwd);
+}
+
 async function runShellCommand(command: string, cwd: string): Promise<CommandResult> {
+  return await runProcess("bash", ["-lc", command], cwd);
+}
+
+async function runProcess(file: string, args: string[], cwd: string): Promise<CommandResult> {
   return await new Promise<CommandResult>((resolve) => {
-    const child = spawn("bash", ["-lc", command], {
+    const child = spawn(file, args, {
       cwd,
       stdio: ["ignore", "pipe", "pipe"],
     });
@@ -155,10 +236,44 @@ async function runShellCommand(command: string, cwd: string): Promise<CommandRes
   });
 }
 
+async function runCiCommands(
+  workspacePath: string,
+  commands: string[],
+  retries?: CiRetryPolicy,
+): Promise<CiRunResult> {
+  const commandLogs: string[] = [];
+  const attempts: CiCommandAttempt[] = [];
+  for (const command of commands) {
+    const maxAttempts = 1 + ciRetriesFor(retries, command);
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const res = await runShellCommand(command, workspacePath);
+      attempts.push({ command, attempt, passed: res.code === 0, exitCode: res.code });
+      const header = attempt > 1 ? `$ ${command} (attempt ${attempt}/${maxAttempts})` : `$ ${command}`;
+      const output = [header, res.stdout.trim(), res.stderr.trim()]
+        .filter(Boolean)
+        .join("\n");
+      commandLogs.push(output);
+      if (res.code === 0) break;
+      commandLogs.push(`Command failed with exit code ${res.code}.`);
+      if (attempt === maxAttempts) {
+        return { passed: false, details: truncate(commandLogs.join("\n\n")), attempts };
+      }
+    }
+  }
+
+  return { passed: true, details: truncate(commandLogs.join("\n\n")), attempts };
+}
+
+function speculativeWorkspaceName(ticketId: string): string {
+  const suffix = `${Date.now().toString(36)}-${Math.floor(Math.random() * 1_000_000).toString(36)}`;
+  return `srq-${ticketId.replace(/[^a-zA-Z0-9_-]/g, "-")}-${suffix}`.slice(0, 96);
+}
+
 async function runCiInSpeculativeWorkspace(
   repoRoot: string,
   ticket: MergeQueueTicket,
   commands: string[],
+  retries?: CiRetryPolicy,
 ): Promise<CiRunResult> {
   if (!commands.length) {
     return { passed: true, details: "No post-land checks configured." };
@@ -166,9 +281,7 @@ async function runCiInSpeculativeWorkspace(
 
   const tempRoot = await mkdtemp(join(tmpdir(), "super-ralph-mq-"));
   const workspacePath = join(tempRoot, "workspace");
-  const suffix = `${Date.now().toString(36)}-${Math.floor(Math.random() * 1_000_000).toString(36)}`;
-  const workspaceName = `srq-${ticket.ticketId.replace(/[^a-zA-Z0-9_-]/g, "-")}-${suffix}`.slice(0, 96);
-  const commandLogs: string[] = [];
+  const workspaceName = speculativeWorkspaceName(ticket.ticketId);
 
   try {
     const added = await workspaceAdd(workspaceName, workspacePath, {
@@ -182,19 +295,7 @@ async function runCiInSpeculativeWorkspace(
       };
     }
 
-    for (const command of commands) {
-      const res = await runShellCommand(command, workspacePath);
-      const output = [`$ ${command}`, res.stdout.trim(), res.stderr.trim()]
-        .filter(Boolean)
-        .join("\n");
-      commandLogs.push(output);
-      if (res.code !== 0) {
-        commandLogs.push(`Command failed with exit code ${res.code}.`);
-        return { passed: false, details: truncate(commandLogs.join("\n\n")) };
-      }
-    }
-
-    return { passed: true, details: truncate(commandLogs.join("\n\n")) };
+    return await runCiCommands(workspacePath, commands, retries);
   } finally {
     await workspaceClose(workspaceName, { cwd: repoRoot }).catch(() => undefined);
     await rm(tempRoot, { recursive: true, force: true }).catch(() => undefined);
@@ -253,6 +354,8 @@ async function cleanupDefaultTicketResources(repoRoot: string, ticket: MergeQueu
 
 export function createDefaultMergeQueueOps(): MergeQueueOps {
   return {
+    mainRev: "main",
+    ticketRev: bookmarkRev,
     async fetchMain(repoRoot) {
       return normalizeOpResult("jj git fetch failed", await runJjCommand(repoRoot, ["git", "fetch"]));
     },
@@ -268,8 +371,8 @@ export function createDefaultMergeQueueOps(): MergeQueueOps {
         ]),
       );
     },
-    async runCi(repoRoot, ticket, commands) {
-      return await runCiInSpeculativeWorkspace(repoRoot, ticket, commands);
+    async runCi(repoRoot, ticket, commands, retries) {
+      return await runCiInSpeculativeWorkspace(repoRoot, ticket, commands, retries);
     },
     async fastForwardMain(repoRoot, ticketId) {
       return normalizeOpResult(
@@ -311,6 +414,170 @@ export function createDefaultMergeQueueOps(): MergeQueueOps {
   };
 }
 
+// --- git backend ---
+
+function ticketBranch(ticketId: string): string {
+  return `ticket/${ticketId}`;
+}
+
+async function currentBranch(repoRoot: string): Promise<string | null> {
+  const res = await runGitCommand(repoRoot, ["symbolic-ref", "--quiet", "--short", "HEAD"]);
+  return res.code === 0 ? res.stdout.trim() || null : null;
+}
+
+/**
+ * Run `fn` in a throwaway detached `git worktree` at `rev`, so the repo root's
+ * checkout and any ticket worktrees are never touched.
+ */
+async function withDetachedWorktree<T>(
+  repoRoot: string,
+  ticketId: string,
+  rev: string,
+  fn: (worktreePath: string) => Promise<T>,
+): Promise<T | OperationResult> {
+  const tempRoot = await mkdtemp(join(tmpdir(), "super-ralph-mq-"));
+  const worktreePath = join(tempRoot, speculativeWorkspaceName(ticketId));
+  try {
+    const added = await runGitCommand(repoRoot, ["worktree", "add", "--detach", worktreePath, rev]);
+    if (added.code !== 0) {
+      return {
+        ok: false,
+        details: stringifyFailure(`Failed to create worktree for ${ticketId}`, added.code, added.stderr),
+      };
+    }
+    return await fn(worktreePath);
+  } finally {
+    await runGitCommand(repoRoot, ["worktree", "remove", "--force", worktreePath]).catch(() => undefined);
+    await rm(tempRoot, { recursive: true, force: true }).catch(() => undefined);
+  }
+}
+
+async function collectGitEvictionContext(
+  repoRoot: string,
+  mainBranch: string,
+  ticketId: string,
+): Promise<EvictionContext> {
+  const branch = ticketBranch(ticketId);
+  const [attemptedLog, attemptedDiff, landedOnMain] = await Promise.all([
+    runGitCommand(repoRoot, ["log", "--oneline", "--reverse", `${mainBranch}..${branch}`]),
+    runGitCommand(repoRoot, ["diff", "--name-status", `${mainBranch}...${branch}`]),
+    runGitCommand(repoRoot, ["log", "--oneline", "--reverse", `${branch}..${mainBranch}`]),
+  ]);
+
+  return {
+    attemptedLog:
+      attemptedLog.code === 0
+        ? attemptedLog.stdout.trim() || null
+        : stringifyFailure("Could not capture attempted log", attemptedLog.code, attemptedLog.stderr),
+    attemptedDiffSummary:
+      attemptedDiff.code === 0
+        ? attemptedDiff.stdout.trim() || null
+        : stringifyFailure("Could not capture attempted diff", attemptedDiff.code, attemptedDiff.stderr),
+    landedOnMainSinceBranch:
+      landedOnMain.code === 0
+        ? landedOnMain.stdout.trim() || null
+        : stringifyFailure("Could not capture mainline changes", landedOnMain.code, landedOnMain.stderr),
+  };
+}
+
+/**
+ * MergeQueueOps for plain git repos: ticket branches are `ticket/<id>`, rebases
+ * and speculative CI run in detached `git worktree`s, and main is pushed to `remote`.
+ */
+export function createGitMergeQueueOps(
+  options: { mainBranch?: string; remote?: string } = {},
+): MergeQueueOps {
+  const mainBranch = options.mainBranch ?? "main";
+  const remote = options.remote ?? "origin";
+
+  return {
+    mainRev: mainBranch,
+    ticketRev: ticketBranch,
+    async fetchMain(repoRoot) {
+      // Fetching into a checked-out branch is refused, so fast-forward it instead
+      if ((await currentBranch(repoRoot)) === mainBranch) {
+        const fetched = await runGitCommand(repoRoot, ["fetch", remote, mainBranch]);
+        if (fetched.code !== 0) return normalizeOpResult("git fetch failed", fetched);
+        return normalizeOpResult(
+          "git merge --ff-only failed",
+          await runGitCommand(repoRoot, ["merge", "--ff-only", `${remote}/${mainBranch}`]),
+        );
+      }
+      return normalizeOpResult(
+        "git fetch failed",
+        await runGitCommand(repoRoot, ["fetch", remote, `${mainBranch}:${mainBranch}`]),
+      );
+    },
+    async rebase(repoRoot, ticketId, destinationRev) {
+      const branch = ticketBranch(ticketId);
+      return await withDetachedWorktree(repoRoot, ticketId, branch, async (worktreePath) => {
+        const rebased = await runGitCommand(worktreePath, ["rebase", destinationRev]);
+        if (rebased.code !== 0) {
+          await runGitCommand(worktreePath, ["rebase", "--abort"]).catch(() => undefined);
+          return normalizeOpResult(`Rebase failed for ${branch}`, rebased);
+        }
+        const head = await runGitCommand(worktreePath, ["rev-parse", "HEAD"]);
+        if (head.code !== 0) return normalizeOpResult(`Rebase failed for ${branch}`, head);
+        return normalizeOpResult(
+          `Rebase failed for ${branch}`,
+          await runGitCommand(repoRoot, ["update-ref", `refs/heads/${branch}`, head.stdout.trim()]),
+        );
+      });
+    },
+    async runCi(repoRoot, ticket, commands, retries) {
+      if (!commands.length) {
+        return { passed: true, details: "No post-land checks configured." };
+      }
+      const result = await withDetachedWorktree(
+        repoRoot,
+        ticket.ticketId,
+        ticketBranch(ticket.ticketId),
+        (worktreePath) => runCiCommands(worktreePath, commands, retries),
+      );
+      return "passed" in result ? result : { passed: false, details: result.details };
+    },
+    async fastForwardMain(repoRoot, ticketId) {
+      const branch = ticketBranch(ticketId);
+      const prefix = `Failed to fast-forward ${mainBranch} to ${branch}`;
+      if ((await currentBranch(repoRoot)) === mainBranch) {
+        return normalizeOpResult(prefix, await runGitCommand(repoRoot, ["merge", "--ff-only", branch]));
+      }
+      const ancestor = await runGitCommand(repoRoot, ["merge-base", "--is-ancestor", mainBranch, branch]);
+      if (ancestor.code !== 0) {
+        return { ok: false, details: `${prefix}: ${mainBranch} is not an ancestor of ${branch}` };
+      }
+      return normalizeOpResult(prefix, await runGitCommand(repoRoot, ["branch", "-f", mainBranch, branch]));
+    },
+    async pushMain(repoRoot) {
+      return normalizeOpResult(
+        `Failed to push ${mainBranch}`,
+        await runGitCommand(repoRoot, ["push", remote, mainBranch]),
+      );
+    },
+    async readCommitId(repoRoot, revset) {
+      const res = await runGitCommand(repoRoot, ["rev-parse", "--verify", "--quiet", `${revset}^{commit}`]);
+      if (res.code !== 0) return null;
+      return res.stdout.trim() || null;
+    },
+    async collectEvictionContext(repoRoot, ticketId) {
+      return await collectGitEvictionContext(repoRoot, mainBranch, ticketId);
+    },
+    async cleanupTicket(repoRoot, ticket) {
+      await runGitCommand(repoRoot, ["worktree", "remove", "--force", ticket.worktreePath]).catch(() => undefined);
+      await rm(ticket.worktreePath, { recursive: true, force: true }).catch(() => undefined);
+      await runGitCommand(repoRoot, ["worktree", "prune"]).catch(() => undefined);
+      await runGitCommand(repoRoot, ["branch", "-D", ticketBranch(ticket.ticketId)]).catch(() => undefined);
+    },
+  };
+}
+
+export function createMergeQueueOps(
+  vcs: MergeQueueVcs = "jj",
+  options: { mainBranch?: string } = {},
+): MergeQueueOps {
+  return vcs === "git" ? createGitMergeQueueOps(options) : createDefaultMergeQueueOps();
+}
+
 const priorityRank: Record<MergeQueueTicket["priority"], number> = {
   critical: 0,
   high: 1,
@@ -318,9 +585,10 @@ const priorityRank: Record<MergeQueueTicket["priority"], number> = {
   low: 3,
 };
 
-type EvictReason =
+export type EvictReason =
   | "rebase_conflict"
   | "ci_failed"
+  | "ci_flaky"
   | "review_failed"
   | "push_failed"
   | "fast_forward_failed"
@@ -334,17 +602,41 @@ export class SpeculativeMergeQueueCoordinator {
   private maxSpeculativeDepth = 1;
   private postLandChecks: string[] = [];
   private postRebaseReviewAgent?: AgentLike;
+  private ciMode: MergeQueueCiMode = "parallel";
+  private ciRetries: CiRetryPolicy = 0;
+  private maxFlakyRequeues = 2;
+  /** Flaky commands seen by this process, for coordinators without a DB */
+  private flakyCommands = new Set<string>();
+  private metrics: MergeQueueMetrics = { windowsTested: 0, ciRuns: 0, ciRunsSaved: 0, bisections: 0 };
+  /** Tickets currently offered to the queue; null until the first snapshot arrives */
+  private offeredTicketIds: Set<string> | null = null;
+  /** Run and queue for run events; set by the first enqueue */
+  private eventScope: { runId: string; queueId: string } | null = null;
+  /** Whether the last restore succeeded; a failed one is retried by the next enqueue */
+  private restored: Promise<boolean>;
 
   constructor(
     private repoRoot: string,
     private readonly ops: MergeQueueOps = createDefaultMergeQueueOps(),
-  ) {}
+    private readonly persistence: MergeQueuePersistence | null = null,
+  ) {
+    this.restored = this.restore();
+  }
 
   async enqueue(request: MergeQueueRequest): Promise<MergeQueueLandResult> {
+    this.eventScope = { runId: request.runId, queueId: request.queueId };
+    const restored = this.restored;
+    if (!(await restored)) {
+      if (this.restored === restored) this.restored = this.restore();
+      await this.restored;
+    }
     this.repoRoot = request.repoRoot;
     this.orderingStrategy = request.orderingStrategy;
     this.maxSpeculativeDepth = Math.max(1, Math.floor(request.maxSpeculativeDepth || 1));
     this.postLandChecks = request.postLandChecks ?? [];
+    this.ciMode = request.ciMode ?? "parallel";
+    this.ciRetries = request.ciRetries ?? 0;
+    this.maxFlakyRequeues = Math.max(0, Math.floor(request.maxFlakyRequeues ?? 2));
     if (request.postRebaseReviewAgent) {
       this.postRebaseReviewAgent = request.postRebaseReviewAgent;
     }
@@ -363,6 +655,20 @@ export class SpeculativeMergeQueueCoordinator {
       return this.notReadyResult(request.ticket.ticketId);
     }
 
+    if (
+      entry.status === "resolved" &&
+      entry.result?.evictionReason === "ci_flaky" &&
+      request.ticket.reportIteration <= entry.ticket.reportIteration
+    ) {
+      // A flaky failure says nothing about the ticket: put it back at the end of the queue
+      entry.status = "pending";
+      entry.readyForQueue = true;
+      entry.result = undefined;
+      entry.enqueueSeq = this.enqueueCounter++;
+      this.persist(entry);
+      this.emitQueued(entry);
+    }
+
     if (
       entry.status === "resolved" &&
       entry.result &&
@@ -376,7 +682,10 @@ export class SpeculativeMergeQueueCoordinator {
       entry.status = "pending";
       entry.readyForQueue = true;
       entry.invalidatedCount = 0;
+      entry.flakyRequeues = 0;
       entry.result = undefined;
+      this.persist(entry);
+      this.emitQueued(entry);
     }
 
     const resultPromise = new Promise<MergeQueueLandResult>((resolve) => {
@@ -387,6 +696,99 @@ export class SpeculativeMergeQueueCoordinator {
     return await resultPromise;
   }
 
+  /**
+   * Rebuild queue state from the workflow DB and reconcile a landing that was
+   * interrupted between fast-forwarding main and pushing it. A failure is reported and
+   * leaves the pending landing recorded, so the next attempt can reconcile it.
+   */
+  private async restore(): Promise<boolean> {
+    try {
+      await this.restoreFromDb();
+      return true;
+    } catch (err) {
+      console.warn(`⚠️  Could not restore the merge queue: ${err instanceof Error ? err.message : String(err)}`);
+      return false;
+    }
+  }
+
+  private async restoreFromDb() {
+    if (!this.persistence) return;
+    const { db, queueKey } = this.persistence;
+    ensureMergeQueueTables(db);
+
+    for (const saved of loadQueueEntries(db, queueKey)) {
+      this.entries.set(saved.ticket.ticketId, {
+        ticket: saved.ticket,
+        status: saved.status,
+        readyForQueue: saved.readyForQueue,
+        enqueueSeq: saved.enqueueSeq,
+        snapshotIndex: saved.snapshotIndex,
+        invalidatedCount: saved.invalidatedCount,
+        flakyRequeues: saved.flakyRequeues,
+        result: saved.result ?? undefined,
+        waiters: [],
+      });
+      this.enqueueCounter = Math.max(this.enqueueCounter, saved.enqueueSeq + 1);
+    }
+
+    const landing = getPendingLanding(db, queueKey);
+    if (!landing) return;
+
+    const entries = landing.ticketIds
+      .map((id) => this.entries.get(id))
+      .filter((entry): entry is QueueEntry => !!entry && entry.status === "pending");
+    if (entries.length === 0) {
+      clearPendingLanding(db, queueKey);
+      return;
+    }
+
+    let fastForwarded = landing.phase === "push";
+    if (!fastForwarded) {
+      const [mainCommit, tailCommit] = await Promise.all([
+        this.ops.readCommitId(this.repoRoot, this.ops.mainRev),
+        this.ops.readCommitId(this.repoRoot, this.ops.ticketRev(landing.tailTicketId)),
+      ]);
+      fastForwarded = mainCommit !== null && mainCommit === tailCommit;
+    }
+
+    if (!fastForwarded) {
+      // main never moved: the entries are still pending and go through the queue again
+      clearPendingLanding(db, queueKey);
+      return;
+    }
+
+    await this.pushAndResolveLanded(entries, " Recovered after an interrupted landing.");
+  }
+
+  private persist(entry: QueueEntry) {
+    if (!this.persistence) return;
+    saveQueueEntry(this.persistence.db, this.persistence.queueKey, {
+      ticket: entry.ticket,
+      status: entry.status,
+      readyForQueue: entry.readyForQueue,
+      enqueueSeq: entry.enqueueSeq,
+      snapshotIndex: entry.snapshotIndex,
+      invalidatedCount: entry.invalidatedCount,
+      flakyRequeues: entry.flakyRequeues,
+      result: entry.result ?? null,
+    });
+  }
+
+  private recordLanding(entries: QueueEntry[], phase: "fast_forward" | "push") {
+    if (!this.persistence) return;
+    savePendingLanding(this.persistence.db, this.persistence.queueKey, {
+      ticketIds: entries.map((entry) => entry.ticket.ticketId),
+      tailTicketId: entries[entries.length - 1]!.ticket.ticketId,
+      phase,
+      startedAtMs: Date.now(),
+    });
+  }
+
+  private clearLanding() {
+    if (!this.persistence) return;
+    clearPendingLanding(this.persistence.db, this.persistence.queueKey);
+  }
+
   private ensureProcessing() {
     if (this.processing) return;
     this.processing = this.processLoop().finally(() => {
@@ -397,7 +799,15 @@ export class SpeculativeMergeQueueCoordinator {
     });
   }
 
+  /** Replace the set of tickets the workflow currently offers for landing */
+  offerTickets(ticketIds: string[]) {
+    this.offeredTicketIds = new Set(ticketIds);
+    // A ticket offered again may be waiting without a new request to wake the queue
+    if (this.getOrderedPendingEntries().length > 0) this.ensureProcessing();
+  }
+
   private ingestSnapshot(snapshot: MergeQueueTicket[]) {
+    this.offeredTicketIds = new Set(snapshot.map((ticket) => ticket.ticketId));
     snapshot.forEach((ticket, idx) => {
       this.upsertEntry(ticket, idx, true);
     });
@@ -417,16 +827,22 @@ export class SpeculativeMergeQueueCoordinator {
         enqueueSeq: this.enqueueCounter++,
         snapshotIndex,
         invalidatedCount: 0,
+        flakyRequeues: 0,
         waiters: [],
       };
       this.entries.set(ticket.ticketId, next);
+      this.persist(next);
+      if (readyForQueue) this.emitQueued(next);
       return next;
     }
 
+    const requeued = ticket.reportIteration > existing.ticket.reportIteration ||
+      (readyForQueue && !existing.readyForQueue);
     if (ticket.reportIteration > existing.ticket.reportIteration) {
       existing.status = "pending";
       existing.result = undefined;
       existing.invalidatedCount = 0;
+      existing.flakyRequeues = 0;
       existing.waiters = [];
       existing.enqueueSeq = this.enqueueCounter++;
     }
@@ -437,12 +853,30 @@ export class SpeculativeMergeQueueCoordinator {
     };
     existing.readyForQueue = existing.readyForQueue || readyForQueue;
     existing.snapshotIndex = snapshotIndex;
+    this.persist(existing);
+    if (requeued && existing.readyForQueue) this.emitQueued(existing);
     return existing;
   }
 
+  private emitQueued(entry: QueueEntry) {
+    if (!this.eventScope) return;
+    emitRunEvent({
+      type: "queued",
+      ...this.eventScope,
+      ticketId: entry.ticket.ticketId,
+      priority: entry.ticket.priority,
+      reportIteration: entry.ticket.reportIteration,
+    }, `queued:${this.eventScope.queueId}:${entry.ticket.ticketId}:${entry.ticket.reportIteration}:${entry.enqueueSeq}`);
+  }
+
   private getOrderedPendingEntries(): QueueEntry[] {
+    // Tickets no longer offered (paused, rejected, pulled from the queue) stay pending
+    // but are held back until they're offered again
     const pending = [...this.entries.values()].filter(
-      (entry) => entry.status === "pending" && entry.readyForQueue,
+      (entry) =>
+        entry.status === "pending" &&
+        entry.readyForQueue &&
+        (!this.offeredTicketIds || this.offeredTicketIds.has(entry.ticket.ticketId)),
     );
 
     switch (this.orderingStrategy) {
@@ -489,7 +923,7 @@ export class SpeculativeMergeQueueCoordinator {
         continue;
       }
 
-      let destination = "main";
+      let destination = this.ops.mainRev;
       let rebaseFailure: { entry: QueueEntry; details: string } | null = null;
 
       for (const entry of window) {
@@ -502,7 +936,7 @@ export class SpeculativeMergeQueueCoordinator {
           rebaseFailure = { entry, details: rebase.details };
           break;
         }
-        destination = bookmarkRev(entry.ticket.ticketId);
+        destination = this.ops.ticketRev(entry.ticket.ticketId);
       }
 
       if (rebaseFailure) {
@@ -519,17 +953,10 @@ export class SpeculativeMergeQueueCoordinator {
         const reviewResults = await Promise.all(
           window.map(async (entry) => {
             try {
-              const [logResult, diffResult, mainChangesResult] = await Promise.all([
-                runJjCommand(this.repoRoot, [
-                  "log", "-r", `main..${bookmarkRev(entry.ticket.ticketId)}`, "--reversed",
-                ]),
-                runJjCommand(this.repoRoot, [
-                  "diff", "-r", `roots(main..${bookmarkRev(entry.ticket.ticketId)})`, "--stat",
-                ]),
-                runJjCommand(this.repoRoot, [
-                  "log", "-r", `${bookmarkRev(entry.ticket.ticketId)}..main`, "--reversed",
-                ]),
-              ]);
+              const rebased = await this.ops.collectEvictionContext(
+                this.repoRoot,
+                entry.ticket.ticketId,
+              );
 
               const prompt = [
                 "POST-REBASE REVIEW",
@@ -544,17 +971,17 @@ export class SpeculativeMergeQueueCoordinator {
                 "",
                 "## Rebased commits",
                 "```",
-                logResult.code === 0 ? logResult.stdout.trim() : "(could not retrieve log)",
+                rebased.attemptedLog ?? "(could not retrieve log)",
                 "```",
                 "",
                 "## Diff summary",
                 "```",
-                diffResult.code === 0 ? diffResult.stdout.trim() : "(could not retrieve diff)",
+                rebased.attemptedDiffSummary ?? "(could not retrieve diff)",
                 "```",
                 "",
                 "## Changes landed on main since branch point",
                 "```",
-                mainChangesResult.code === 0 ? mainChangesResult.stdout.trim() : "(none or could not retrieve)",
+                rebased.landedOnMainSinceBranch ?? "(none or could not retrieve)",
                 "```",
                 "",
                 'Respond with JSON: { "approved": true } or { "approved": false, "reason": "..." }',
@@ -592,6 +1019,7 @@ export class SpeculativeMergeQueueCoordinator {
           }
           for (const follower of window.slice(reviewFailIdx + 1)) {
             follower.invalidatedCount += 1;
+            this.persist(follower);
           }
           await this.evictEntry(
             failedEntry,
@@ -602,11 +1030,13 @@ export class SpeculativeMergeQueueCoordinator {
         }
       }
 
-      const ciResults = await Promise.all(
-        window.map((entry) =>
-          this.ops.runCi(this.repoRoot, entry.ticket, this.postLandChecks),
-        ),
-      );
+      if (this.ciMode === "bisect") {
+        await this.testWindowByBisection(window);
+        continue;
+      }
+
+      const ciResults = await Promise.all(window.map((entry) => this.runCi(entry)));
+      this.metrics.windowsTested += 1;
       const failIdx = ciResults.findIndex((res) => !res.passed);
 
       if (failIdx === -1) {
@@ -614,30 +1044,143 @@ export class SpeculativeMergeQueueCoordinator {
         continue;
       }
 
-      if (failIdx > 0) {
-        await this.landPrefix(window.slice(0, failIdx));
+      await this.evictCiFailure(window, failIdx, ciResults[failIdx]!);
+    }
+  }
+
+  getMetrics(): MergeQueueMetrics {
+    return { ...this.metrics };
+  }
+
+  /**
+   * Batch CI for a rebased window. Entries are stacked, so testing entry i tests
+   * main + window[0..i]. One run on the tip usually settles the whole window; when
+   * it fails, binary search finds the first entry whose stack fails. Everything
+   * before it lands, it is evicted, and the followers go round the loop again, where
+   * a second culprit (if any) is found the same way.
+   */
+  private async testWindowByBisection(window: QueueEntry[]) {
+    this.metrics.windowsTested += 1;
+
+    const tip = await this.runCi(window[window.length - 1]!);
+    let runs = 1;
+    if (tip.passed) {
+      this.metrics.ciRunsSaved += window.length - runs;
+      const note = window.length > 1 ? ` Batch CI covered ${window.length} tickets in one run.` : "";
+      await this.landPrefix(window, note);
+      return;
+    }
+
+    // Invariant: the stack up to `hi` fails and every stack before `lo` passes
+    let lo = 0;
+    let hi = window.length - 1;
+    let failure = tip;
+    if (hi > 0) this.metrics.bisections += 1;
+    while (lo < hi) {
+      const mid = Math.floor((lo + hi) / 2);
+      const result = await this.runCi(window[mid]!);
+      runs += 1;
+      if (result.passed) {
+        lo = mid + 1;
+      } else {
+        hi = mid;
+        failure = result;
+      }
+    }
+    this.metrics.ciRunsSaved += window.length - runs;
+
+    await this.evictCiFailure(window, hi, failure);
+  }
+
+  /** Run post-land checks on an entry's speculative commit and record every attempt */
+  private async runCi(entry: QueueEntry): Promise<CiRunResult> {
+    this.metrics.ciRuns += 1;
+    const result = await this.ops.runCi(this.repoRoot, entry.ticket, this.postLandChecks, this.ciRetries);
+    const attempts = result.attempts ?? [];
+    if (attempts.length === 0) return result;
+
+    const outcomes = new Map<string, Set<boolean>>();
+    for (const attempt of attempts) {
+      const seen = outcomes.get(attempt.command) ?? new Set<boolean>();
+      seen.add(attempt.passed);
+      outcomes.set(attempt.command, seen);
+    }
+    for (const [command, seen] of outcomes) {
+      if (seen.size === 2) this.flakyCommands.add(command);
+    }
+
+    if (this.persistence) {
+      const commitId = await this.ops.readCommitId(this.repoRoot, this.ops.ticketRev(entry.ticket.ticketId));
+      if (commitId) {
+        for (const attempt of attempts) {
+          recordCiCommandRun(this.persistence.db, this.persistence.queueKey, {
+            ticketId: entry.ticket.ticketId,
+            commitId,
+            ...attempt,
+          });
+        }
       }
+    }
+    return result;
+  }
+
+  private isFlakyCommand(command: string): boolean {
+    if (this.flakyCommands.has(command)) return true;
+    return !!this.persistence && isCiCommandFlaky(this.persistence.db, command);
+  }
+
+  private async evictCiFailure(window: QueueEntry[], failIdx: number, failure: CiRunResult) {
+    if (failIdx > 0) {
+      await this.landPrefix(window.slice(0, failIdx));
+    }
+
+    const failed = window[failIdx]!;
+    for (const follower of window.slice(failIdx + 1)) {
+      follower.invalidatedCount += 1;
+      this.persist(follower);
+    }
 
-      const failed = window[failIdx]!;
-      for (const follower of window.slice(failIdx + 1)) {
-        follower.invalidatedCount += 1;
+    const failedCommand = failure.attempts?.at(-1)?.command;
+    if (failedCommand && this.isFlakyCommand(failedCommand)) {
+      if (failed.flakyRequeues < this.maxFlakyRequeues) {
+        failed.flakyRequeues += 1;
+        await this.evictEntry(
+          failed,
+          "ci_flaky",
+          `Known-flaky check \`${failedCommand}\` failed; re-queued (${failed.flakyRequeues}/${this.maxFlakyRequeues}).\n\n${failure.details}`,
+        );
+        return;
       }
-      await this.evictEntry(failed, "ci_failed", ciResults[failIdx]!.details);
+      await this.evictEntry(
+        failed,
+        "ci_failed",
+        `Known-flaky check \`${failedCommand}\` kept failing after ${this.maxFlakyRequeues} re-queue(s).\n\n${failure.details}`,
+      );
+      return;
     }
+    await this.evictEntry(failed, "ci_failed", failure.details);
   }
 
-  private async landPrefix(entries: QueueEntry[]) {
+  private async landPrefix(entries: QueueEntry[], note = "") {
     if (!entries.length) return;
     const tail = entries[entries.length - 1]!;
+    this.recordLanding(entries, "fast_forward");
     const ff = await this.ops.fastForwardMain(this.repoRoot, tail.ticket.ticketId);
     if (!ff.ok) {
+      this.clearLanding();
       for (const entry of entries) {
         await this.evictEntry(entry, "fast_forward_failed", ff.details);
       }
       return;
     }
 
+    this.recordLanding(entries, "push");
+    await this.pushAndResolveLanded(entries, note);
+  }
+
+  private async pushAndResolveLanded(entries: QueueEntry[], note = "") {
     const push = await this.ops.pushMain(this.repoRoot);
+    this.clearLanding();
     if (!push.ok) {
       for (const entry of entries) {
         await this.evictEntry(entry, "push_failed", push.details);
@@ -648,7 +1191,7 @@ export class SpeculativeMergeQueueCoordinator {
     for (const entry of entries) {
       const commit = await this.ops.readCommitId(
         this.repoRoot,
-        bookmarkRev(entry.ticket.ticketId),
+        this.ops.ticketRev(entry.ticket.ticketId),
       );
       const retestNote =
         entry.invalidatedCount > 0
@@ -659,7 +1202,7 @@ export class SpeculativeMergeQueueCoordinator {
         merged: true,
         mergeCommit: commit,
         ciPassed: true,
-        summary: `Landed ${entry.ticket.ticketId} via speculative merge queue.${retestNote}`,
+        summary: `Landed ${entry.ticket.ticketId} via speculative merge queue.${retestNote}${note}`,
         evicted: false,
         evictionReason: null,
         evictionDetails: null,
@@ -675,7 +1218,10 @@ export class SpeculativeMergeQueueCoordinator {
       this.repoRoot,
       entry.ticket.ticketId,
     );
-    await this.ops.cleanupTicket(this.repoRoot, entry.ticket).catch(() => undefined);
+    // A flaky eviction is re-queued as-is, so its branch and worktree must survive
+    if (reason !== "ci_flaky") {
+      await this.ops.cleanupTicket(this.repoRoot, entry.ticket).catch(() => undefined);
+    }
 
     const retestNote =
       entry.invalidatedCount > 0
@@ -700,10 +1246,28 @@ export class SpeculativeMergeQueueCoordinator {
     entry.status = "resolved";
     entry.readyForQueue = false;
     entry.result = result;
+    this.persist(entry);
+    if (this.eventScope) {
+      const { runId, queueId } = this.eventScope;
+      const ticketId = entry.ticket.ticketId;
+      if (result.merged) {
+        emitRunEvent({ type: "landed", runId, queueId, ticketId, mergeCommit: result.mergeCommit });
+      } else if (result.evicted) {
+        emitRunEvent({
+          type: "evicted", runId, queueId, ticketId,
+          reason: result.evictionReason as EvictReason,
+          details: result.evictionDetails ?? "",
+        });
+      }
+    }
     const waiters = entry.waiters.splice(0);
     for (const waiter of waiters) waiter(result);
   }
 
+  close() {
+    this.persistence?.db.close();
+  }
+
   private notReadyResult(ticketId: string): MergeQueueLandResult {
     return {
       merged: false,
@@ -728,13 +1292,36 @@ export async function runTicketThroughSpeculativeMergeQueue(
   const key = `${request.runId}::${request.queueId}`;
   let coordinator = coordinatorRegistry.get(key);
   if (!coordinator) {
-    coordinator = new SpeculativeMergeQueueCoordinator(request.repoRoot);
+    const persistence = request.dbPath
+      ? { db: new Database(request.dbPath), queueKey: key }
+      : null;
+    coordinator = new SpeculativeMergeQueueCoordinator(
+      request.repoRoot,
+      createMergeQueueOps(request.vcs, { mainBranch: request.mainBranch }),
+      persistence,
+    );
     coordinatorRegistry.set(key, coordinator);
   }
   return await coordinator.enqueue(request);
 }
 
+/**
+ * Tell a running coordinator which tickets the workflow offers right now. Entries that
+ * are no longer offered stay queued but aren't picked for a window until offered again.
+ */
+export function offerSpeculativeMergeQueueTickets(runId: string, queueId: string, ticketIds: string[]) {
+  coordinatorRegistry.get(`${runId}::${queueId}`)?.offerTickets(ticketIds);
+}
+
+export function getSpeculativeMergeQueueMetrics(
+  runId: string,
+  queueId: string,
+): MergeQueueMetrics | null {
+  return coordinatorRegistry.get(`${runId}::${queueId}`)?.getMetrics() ?? null;
+}
+
 export function resetSpeculativeMergeQueueRegistry() {
+  for (const coordinator of coordinatorRegistry.values()) coordinator.close();
   coordinatorRegistry.clear();
 }
 
@@ -797,11 +1384,13 @@ export function buildSpeculativeMergeQueuePrompt(
   return [
     "MERGE QUEUE COORDINATOR TASK",
     "",
-    "Coordinate speculative merge-queue landing for this ticket using jj.",
+    `Coordinate speculative merge-queue landing for this ticket using ${request.vcs ?? "jj"}.`,
     "Requirements:",
     "- Respect queue order and speculative stack semantics.",
     "- Rebase each speculative ticket onto main + tickets ahead.",
-    "- Run post-land checks in parallel for the speculative window.",
+    request.ciMode === "bisect"
+      ? "- Run post-land checks on the speculative stack tip; bisect the window only when it fails."
+      : "- Run post-land checks in parallel for the speculative window.",
     "- Evict failed/conflicting tickets and re-test downstream tickets.",
     "- Fast-forward main to the furthest passing speculative ticket.",
     "",
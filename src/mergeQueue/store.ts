@@ -0,0 +1,183 @@
+import { Database } from "bun:sqlite";
+import type { MergeQueueLandResult, MergeQueueTicket } from "./coordinator";
+
+/**
+ * Persists speculative merge-queue state in the workflow SQLite DB so a coordinator
+ * can rebuild queue order, eviction history and interrupted landings after a restart.
+ * Rows are scoped by queue key (`${runId}::${queueId}`).
+ */
+
+export type PersistedQueueEntry = {
+  ticket: MergeQueueTicket;
+  status: "pending" | "resolved";
+  readyForQueue: boolean;
+  enqueueSeq: number;
+  snapshotIndex: number;
+  invalidatedCount: number;
+  /** Times the ticket was bounced back into the queue by a flaky CI command */
+  flakyRequeues: number;
+  result: MergeQueueLandResult | null;
+};
+
+/**
+ * A landing in flight. Written before main is fast-forwarded and removed once every
+ * ticket in it is resolved, so a row left behind means the process died mid-landing.
+ * `phase` is "fast_forward" until main has moved, then "push".
+ */
+export type PendingLanding = {
+  ticketIds: string[];
+  tailTicketId: string;
+  phase: "fast_forward" | "push";
+  startedAtMs: number;
+};
+
+/** One attempt of one post-land check command against a speculative commit */
+export type CiCommandRun = {
+  ticketId: string;
+  command: string;
+  commitId: string;
+  attempt: number;
+  passed: boolean;
+  exitCode: number;
+};
+
+const CREATE_ENTRIES_TABLE = `CREATE TABLE IF NOT EXISTS merge_queue_entries (
+  queue_key TEXT NOT NULL,
+  ticket_id TEXT NOT NULL,
+  ticket_json TEXT NOT NULL,
+  status TEXT NOT NULL,
+  ready_for_queue INTEGER NOT NULL,
+  enqueue_seq INTEGER NOT NULL,
+  snapshot_index INTEGER NOT NULL,
+  invalidated_count INTEGER NOT NULL,
+  flaky_requeues INTEGER NOT NULL DEFAULT 0,
+  result_json TEXT,
+  updated_at_ms INTEGER NOT NULL,
+  PRIMARY KEY (queue_key, ticket_id)
+)`;
+
+const CREATE_LANDINGS_TABLE = `CREATE TABLE IF NOT EXISTS merge_queue_landings (
+  queue_key TEXT PRIMARY KEY,
+  ticket_ids_json TEXT NOT NULL,
+  tail_ticket_id TEXT NOT NULL,
+  phase TEXT NOT NULL,
+  started_at_ms INTEGER NOT NULL
+)`;
+
+// CI history is keyed by command and commit, not queue: a command that flakes in one
+// run is just as flaky in the next
+const CREATE_CI_RUNS_TABLE = `CREATE TABLE IF NOT EXISTS merge_queue_ci_runs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  queue_key TEXT NOT NULL,
+  ticket_id TEXT NOT NULL,
+  command TEXT NOT NULL,
+  commit_id TEXT NOT NULL,
+  attempt INTEGER NOT NULL,
+  passed INTEGER NOT NULL,
+  exit_code INTEGER NOT NULL,
+  recorded_at_ms INTEGER NOT NULL
+)`;
+
+export function ensureMergeQueueTables(db: Database): void {
+  db.exec(CREATE_ENTRIES_TABLE);
+  db.exec(CREATE_LANDINGS_TABLE);
+  db.exec(CREATE_CI_RUNS_TABLE);
+  // Queue tables created before flaky re-queues were tracked lack the counter column
+  const columns = db.prepare(`PRAGMA table_info(merge_queue_entries)`).all() as Array<{ name: string }>;
+  if (!columns.some((c) => c.name === "flaky_requeues")) {
+    db.exec(`ALTER TABLE merge_queue_entries ADD COLUMN flaky_requeues INTEGER NOT NULL DEFAULT 0`);
+  }
+  db.exec(`CREATE INDEX IF NOT EXISTS merge_queue_ci_runs_command ON merge_queue_ci_runs (command, commit_id)`);
+}
+
+export function saveQueueEntry(db: Database, queueKey: string, entry: PersistedQueueEntry): void {
+  db.prepare(
+    `INSERT OR REPLACE INTO merge_queue_entries (queue_key, ticket_id, ticket_json, status, ready_for_queue, enqueue_seq, snapshot_index, invalidated_count, flaky_requeues, result_json, updated_at_ms) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    queueKey,
+    entry.ticket.ticketId,
+    JSON.stringify(entry.ticket),
+    entry.status,
+    entry.readyForQueue ? 1 : 0,
+    entry.enqueueSeq,
+    // MAX_SAFE_INTEGER marks "not in the snapshot"; keep it inside SQLite's integer range
+    Math.min(entry.snapshotIndex, Number.MAX_SAFE_INTEGER),
+    entry.invalidatedCount,
+    entry.flakyRequeues,
+    entry.result ? JSON.stringify(entry.result) : null,
+    Date.now(),
+  );
+}
+
+export function loadQueueEntries(db: Database, queueKey: string): PersistedQueueEntry[] {
+  const rows = db.prepare(
+    `SELECT ticket_json, status, ready_for_queue, enqueue_seq, snapshot_index, invalidated_count, flaky_requeues, result_json FROM merge_queue_entries WHERE queue_key = ? ORDER BY enqueue_seq ASC`
+  ).all(queueKey) as Array<{
+    ticket_json: string;
+    status: string;
+    ready_for_queue: number;
+    enqueue_seq: number;
+    snapshot_index: number;
+    invalidated_count: number;
+    flaky_requeues: number;
+    result_json: string | null;
+  }>;
+
+  return rows.map((row) => ({
+    ticket: JSON.parse(row.ticket_json) as MergeQueueTicket,
+    status: row.status === "resolved" ? "resolved" : "pending",
+    readyForQueue: row.ready_for_queue === 1,
+    enqueueSeq: row.enqueue_seq,
+    snapshotIndex: row.snapshot_index,
+    invalidatedCount: row.invalidated_count,
+    flakyRequeues: row.flaky_requeues,
+    result: row.result_json ? (JSON.parse(row.result_json) as MergeQueueLandResult) : null,
+  }));
+}
+
+export function savePendingLanding(db: Database, queueKey: string, landing: PendingLanding): void {
+  db.prepare(
+    `INSERT OR REPLACE INTO merge_queue_landings (queue_key, ticket_ids_json, tail_ticket_id, phase, started_at_ms) VALUES (?, ?, ?, ?, ?)`
+  ).run(queueKey, JSON.stringify(landing.ticketIds), landing.tailTicketId, landing.phase, landing.startedAtMs);
+}
+
+export function getPendingLanding(db: Database, queueKey: string): PendingLanding | null {
+  const row = db.prepare(
+    `SELECT ticket_ids_json, tail_ticket_id, phase, started_at_ms FROM merge_queue_landings WHERE queue_key = ?`
+  ).get(queueKey) as { ticket_ids_json: string; tail_ticket_id: string; phase: string; started_at_ms: number } | null;
+  if (!row) return null;
+  return {
+    ticketIds: JSON.parse(row.ticket_ids_json) as string[],
+    tailTicketId: row.tail_ticket_id,
+    phase: row.phase === "push" ? "push" : "fast_forward",
+    startedAtMs: row.started_at_ms,
+  };
+}
+
+export function clearPendingLanding(db: Database, queueKey: string): void {
+  db.prepare(`DELETE FROM merge_queue_landings WHERE queue_key = ?`).run(queueKey);
+}
+
+export function recordCiCommandRun(db: Database, queueKey: string, run: CiCommandRun): void {
+  db.prepare(
+    `INSERT INTO merge_queue_ci_runs (queue_key, ticket_id, command, commit_id, attempt, passed, exit_code, recorded_at_ms) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(queueKey, run.ticketId, run.command, run.commitId, run.attempt, run.passed ? 1 : 0, run.exitCode, Date.now());
+}
+
+/** A command is flaky once it has both passed and failed on the same commit */
+export function isCiCommandFlaky(db: Database, command: string): boolean {
+  const row = db.prepare(
+    `SELECT commit_id FROM merge_queue_ci_runs WHERE command = ? GROUP BY commit_id HAVING MIN(passed) = 0 AND MAX(passed) = 1 LIMIT 1`
+  ).get(command);
+  return !!row;
+}
+
+export function listFlakyCiCommands(db: Database): Array<{ command: string; passes: number; failures: number }> {
+  return db.prepare(
+    `SELECT command, SUM(passed) AS passes, SUM(1 - passed) AS failures FROM merge_queue_ci_runs
+     WHERE command IN (
+       SELECT command FROM merge_queue_ci_runs GROUP BY command, commit_id HAVING MIN(passed) = 0 AND MAX(passed) = 1
+     )
+     GROUP BY command ORDER BY command`
+  ).all() as Array<{ command: string; passes: number; failures: number }>;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, test } from "bun:test";
+import { AgentRateLimitError, detectRateLimitInError, detectRateLimitInResult, rateLimitBackoffMs } from "./rateLimits";
+
+const NOW = 1_700_000_000_000;
+
+describe("detectRateLimitInError", () => {
+  test("recognizes provider errors", () => {
+    expect(detectRateLimitInError(new Error('{"type":"error","error":{"type":"rate_limit_error"}}'), NOW)?.provider).toBe("anthropic");
+    expect(detectRateLimitInError(new Error("Error code: rate_limit_exceeded"), NOW)?.provider).toBe("openai");
+    expect(detectRateLimitInError(new Error("You exceeded your current quota, please check your plan"), NOW)?.provider).toBe("openai");
+  });
+
+  test("reads stderr as well as the message", () => {
+    const error = Object.assign(new Error("agent exited with code 1"), { stderr: "Claude AI usage limit reached|1760000000" });
+    expect(detectRateLimitInError(error, NOW)).toEqual({
+      provider: "anthropic",
+      resumeAtMs: 1_760_000_000_000,
+      message: "Claude AI usage limit reached|1760000000",
+    });
+  });
+
+  test("takes 429s only with HTTP or status context", () => {
+    for (const message of ["HTTP/1.1 429 Too Many Requests", "request failed with status: 429", "status code 429"]) {
+      expect(detectRateLimitInError(new Error(message), NOW)).not.toBeNull();
+    }
+    expect(detectRateLimitInError(new Error("SyntaxError at line 429"), NOW)).toBeNull();
+    expect(detectRateLimitInError(new Error("expected 429 items, got 430"), NOW)).toBeNull();
+  });
+
+  test("takes rate-limit wording only when a limit was hit", () => {
+    for (const message of ["Rate limit exceeded", "rate limit reached for requests", "you are being rate limited", "rate-limited by upstream"]) {
+      expect(detectRateLimitInError(new Error(message), NOW)?.provider).toBe("unknown");
+    }
+    expect(detectRateLimitInError(new Error("FAIL rateLimit > backs off after a 429"), NOW)).toBeNull();
+    expect(detectRateLimitInError(new Error("test rateLimited returns true"), NOW)).toBeNull();
+    expect(detectRateLimitInError(new Error("add a rate limit to the login endpoint"), NOW)).toBeNull();
+  });
+
+  test("reads resume times from Retry-After and relative wording", () => {
+    expect(detectRateLimitInError(new Error("status: 429\nretry-after: 30"), NOW)?.resumeAtMs).toBe(NOW + 30_000);
+    expect(detectRateLimitInError(new Error("Rate limit exceeded. Try again in 2h 5m"), NOW)?.resumeAtMs).toBe(NOW + 7_500_000);
+    expect(detectRateLimitInError(new Error("Too many requests"), NOW)?.resumeAtMs).toBeNull();
+  });
+
+  test("passes an AgentRateLimitError's limit through", () => {
+    const limit = { provider: "openai" as const, resumeAtMs: NOW, message: "capped" };
+    expect(detectRateLimitInError(new AgentRateLimitError("codex", limit), NOW)).toBe(limit);
+  });
+
+  test("ignores ordinary failures", () => {
+    expect(detectRateLimitInError(new Error("ENOENT: no such file or directory"), NOW)).toBeNull();
+    expect(detectRateLimitInError(undefined, NOW)).toBeNull();
+  });
+});
+
+describe("detectRateLimitInResult", () => {
+  test("takes subscription caps from short text or output", () => {
+    expect(detectRateLimitInResult({ text: "5-hour limit reached ∙ resets in 3 hours" }, NOW)).toMatchObject({
+      provider: "anthropic",
+      resumeAtMs: NOW + 3 * 3_600_000,
+    });
+    expect(detectRateLimitInResult({ output: "You've hit your usage limit." }, NOW)?.provider).toBe("openai");
+  });
+
+  test("ignores generic rate-limit talk and long answers", () => {
+    expect(detectRateLimitInResult({ text: "Added retries for 429 responses when the rate limit is exceeded." }, NOW)).toBeNull();
+    expect(detectRateLimitInResult({ text: `${"x".repeat(2000)}\nClaude AI usage limit reached` }, NOW)).toBeNull();
+    expect(detectRateLimitInResult(null, NOW)).toBeNull();
+  });
+});
+
+test("rateLimitBackoffMs doubles from a minute up to an hour", () => {
+  expect([1, 2, 3, 7, 8, 20].map(rateLimitBackoffMs)).toEqual([60_000, 120_000, 240_000, 3_600_000, 3_600_000, 3_600_000]);
+});
@@ -0,0 +1,123 @@
+/**
+ * Rate-limit detection for agent calls.
+ * Agent CLIs report limits in different ways: HTTP 429s and `rate_limit_error`s from the
+ * APIs, "usage limit reached" banners from Claude subscriptions, and quota messages
+ * from Codex. Some arrive as thrown errors (stderr), others as the agent's text output.
+ */
+
+export type AgentRateLimit = {
+  provider: "anthropic" | "openai" | "unknown";
+  /** Absolute time the limit lifts, when the message says so */
+  resumeAtMs: number | null;
+  message: string;
+};
+
+export class AgentRateLimitError extends Error {
+  constructor(
+    readonly agentId: string,
+    readonly rateLimit: AgentRateLimit,
+  ) {
+    super(`Agent ${agentId} is rate limited: ${rateLimit.message}`);
+    this.name = "AgentRateLimitError";
+  }
+}
+
+// Unambiguous wording: safe to match in an agent's normal output as well as its errors
+const CAP_PATTERNS: Array<{ pattern: RegExp; provider: AgentRateLimit["provider"] }> = [
+  { pattern: /claude (?:ai )?usage limit reached/i, provider: "anthropic" },
+  { pattern: /\b\d+-hour limit reached\b/i, provider: "anthropic" },
+  { pattern: /you(?:'ve| have) (?:hit|reached) your usage limit/i, provider: "openai" },
+  { pattern: /\binsufficient_quota\b/i, provider: "openai" },
+  { pattern: /exceeded your current quota/i, provider: "openai" },
+  { pattern: /\busage limit reached\b/i, provider: "unknown" },
+];
+
+// Generic wording: only trusted in errors, since agents discuss rate limiting in code.
+// A bare 429 or "rate limit" is too common in ordinary failures (line numbers, a failing
+// `rateLimit` test), so both need the status or limit-hit context around them.
+const ERROR_PATTERNS: Array<{ pattern: RegExp; provider: AgentRateLimit["provider"] }> = [
+  { pattern: /\brate_limit_error\b/i, provider: "anthropic" },
+  { pattern: /\boverloaded_error\b/i, provider: "anthropic" },
+  { pattern: /\brate_limit_exceeded\b/i, provider: "openai" },
+  { pattern: /\b(?:status(?: code)?[: =]\s*|HTTP\/\d(?:\.\d)? )429\b/i, provider: "unknown" },
+  { pattern: /too many requests/i, provider: "unknown" },
+  { pattern: /\brate[ -]?limit (?:exceeded|reached|hit)\b|\brate[ -]limited\b/i, provider: "unknown" },
+  { pattern: /quota (?:exceeded|exhausted)/i, provider: "unknown" },
+];
+
+const UNIT_MS: Record<string, number> = {
+  s: 1_000, sec: 1_000, secs: 1_000, second: 1_000, seconds: 1_000,
+  m: 60_000, min: 60_000, mins: 60_000, minute: 60_000, minutes: 60_000,
+  h: 3_600_000, hr: 3_600_000, hrs: 3_600_000, hour: 3_600_000, hours: 3_600_000,
+};
+
+/** Pull a resume time out of the message: epoch stamps, "try again in 2h 5m", Retry-After */
+function parseResumeAt(text: string, now: number): number | null {
+  // Claude Code: "Claude AI usage limit reached|1760000000"
+  const epoch = text.match(/limit reached\|(\d{10,13})/i);
+  if (epoch) {
+    const value = Number(epoch[1]);
+    return value < 1e12 ? value * 1000 : value;
+  }
+
+  const retryAfter = text.match(/retry-after:?\s*(\d+)/i);
+  if (retryAfter) return now + Number(retryAfter[1]) * 1000;
+
+  const relative = text.match(/(?:try again|retry|resets?) (?:in|after)\s+((?:\d+(?:\.\d+)?\s*[a-z]+[\s,]*(?:and\s+)?)+)/i);
+  if (relative) {
+    let total = 0;
+    for (const [, amount, unit] of relative[1]!.matchAll(/(\d+(?:\.\d+)?)\s*([a-z]+)/gi)) {
+      const ms = UNIT_MS[unit!.toLowerCase()];
+      if (ms) total += Number(amount) * ms;
+    }
+    if (total > 0) return now + total;
+  }
+  return null;
+}
+
+function match(
+  text: string,
+  patterns: Array<{ pattern: RegExp; provider: AgentRateLimit["provider"] }>,
+  now: number,
+): AgentRateLimit | null {
+  for (const { pattern, provider } of patterns) {
+    const found = text.match(pattern);
+    if (!found) continue;
+    const line = text.split("\n").find((l) => pattern.test(l)) ?? found[0];
+    return { provider, resumeAtMs: parseResumeAt(text, now), message: line.trim().slice(0, 300) };
+  }
+  return null;
+}
+
+/** Classify a thrown agent error (message and stderr) */
+export function detectRateLimitInError(error: unknown, now = Date.now()): AgentRateLimit | null {
+  if (error instanceof AgentRateLimitError) return error.rateLimit;
+  const text = error instanceof Error
+    ? [error.message, (error as { stderr?: unknown }).stderr].filter((v) => typeof v === "string").join("\n")
+    : String(error ?? "");
+  return match(text, CAP_PATTERNS, now) ?? match(text, ERROR_PATTERNS, now);
+}
+
+/**
+ * Classify an agent's `generate` result by its text or string output. Only
+ * subscription-cap wording counts, and only in short outputs: a real answer that
+ * happens to quote such a message is not a cap.
+ */
+export function detectRateLimitInResult(result: unknown, now = Date.now()): AgentRateLimit | null {
+  const candidates = [
+    (result as { text?: unknown } | null)?.text,
+    (result as { output?: unknown } | null)?.output,
+  ];
+  for (const text of candidates) {
+    if (typeof text !== "string" || text.length > 2000) continue;
+    const found = match(text, CAP_PATTERNS, now);
+    if (found) return found;
+  }
+  return null;
+}
+
+/** Backoff when the limit message gives no resume time: 1m, 2m, 4m, ... capped at 1h */
+export function rateLimitBackoffMs(consecutiveLimits: number): number {
+  const exponent = Math.max(0, consecutiveLimits - 1);
+  return Math.min(60_000 * 2 ** exponent, 3_600_000);
+}
@@ -0,0 +1,93 @@
+/**
+ * Consensus over parallel code reviews.
+ * `ticket:code-review` fans out to one reviewer per configured slot, each writing its own
+ * output. The consensus policy turns their verdicts into a single decision: does the
+ * ticket need review-fix, and at what severity.
+ */
+
+import { reviewRoundNodeId } from "./reviewLoop";
+
+export type CodeReviewerSlot = "claude" | "codex" | "gemini";
+
+/** Output table and node ID suffix each reviewer slot writes to */
+export const CODE_REVIEWER_SLOTS: Record<CodeReviewerSlot, {
+  output: "code_review" | "code_review_codex" | "code_review_gemini";
+  nodeSuffix: string;
+  label: string;
+}> = {
+  claude: { output: "code_review", nodeSuffix: "code-review", label: "Claude" },
+  codex: { output: "code_review_codex", nodeSuffix: "code-review-codex", label: "Codex" },
+  gemini: { output: "code_review_gemini", nodeSuffix: "code-review-gemini", label: "Gemini" },
+};
+
+export function codeReviewNodeId(ticketId: string, slot: CodeReviewerSlot, round = 1): string {
+  return reviewRoundNodeId(`${ticketId}:${CODE_REVIEWER_SLOTS[slot].nodeSuffix}`, round);
+}
+
+/**
+ * - "any-blocks": any reviewer finding issues sends the ticket to review-fix
+ * - "majority": review-fix when at least half the reviewers find issues
+ * - "weighted": as majority, but each vote counts by how well the reviewer's earlier
+ *   verdicts held up in the merge queue (see reviewHistory.ts)
+ */
+export type ReviewConsensusPolicy = "any-blocks" | "majority" | "weighted";
+
+export type ReviewVote = {
+  reviewer: CodeReviewerSlot;
+  severity: string;
+  weight: number;
+};
+
+export type ReviewConsensus = {
+  policy: ReviewConsensusPolicy;
+  blocking: boolean;
+  /** Worst severity among the blocking votes, or "none" when the ticket passes */
+  severity: string;
+  votes: ReviewVote[];
+  summary: string;
+};
+
+const severityRank: Record<string, number> = { critical: 3, major: 2, minor: 1, none: 0 };
+
+/** Vote weight per reviewer slot */
+export type ReviewWeights = Partial<Record<CodeReviewerSlot, number>>;
+
+/** How many of a reviewer's judged verdicts were confirmed or overturned */
+export type ReviewerOutcomes = { confirmed: number; overturned: number };
+
+/**
+ * Vote weight for a reviewer from its review outcomes. Smoothed so a reviewer with
+ * nothing judged yet counts as 0.5 rather than 0.
+ */
+export function reviewerWeight(outcomes: ReviewerOutcomes | undefined): number {
+  if (!outcomes) return 0.5;
+  return (outcomes.confirmed + 1) / (outcomes.confirmed + outcomes.overturned + 2);
+}
+
+export function decideReviewConsensus(votes: ReviewVote[], policy: ReviewConsensusPolicy): ReviewConsensus {
+  const blockingVotes = votes.filter((v) => v.severity !== "none");
+  let blocking: boolean;
+  if (policy === "any-blocks") {
+    blocking = blockingVotes.length > 0;
+  } else {
+    // Ties block: a split review is not an approval
+    const weightOf = (v: ReviewVote) => (policy === "weighted" ? v.weight : 1);
+    const total = votes.reduce((sum, v) => sum + weightOf(v), 0);
+    const against = blockingVotes.reduce((sum, v) => sum + weightOf(v), 0);
+    blocking = blockingVotes.length > 0 && against * 2 >= total;
+  }
+
+  const severity = blocking
+    ? blockingVotes.reduce((worst, v) => (severityRank[v.severity] ?? 0) > (severityRank[worst] ?? 0) ? v.severity : worst, "none")
+    : "none";
+  const tally = votes
+    .map((v) => `${CODE_REVIEWER_SLOTS[v.reviewer].label}=${v.severity}${policy === "weighted" ? ` (w=${v.weight.toFixed(2)})` : ""}`)
+    .join(", ");
+  return {
+    policy,
+    blocking,
+    severity,
+    votes,
+    summary: `${blocking ? "Needs review-fix" : "Approved"} under ${policy}: ${tally}`,
+  };
+}
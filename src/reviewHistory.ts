@@ -0,0 +1,139 @@
+import { Database } from "bun:sqlite";
+import type { CodeReviewerSlot, ReviewerOutcomes, ReviewWeights } from "./reviewConsensus";
+
+/**
+ * What "weighted" review consensus learns from, kept in the workflow DB.
+ * - Round weights: the vote weights a round was decided with, recorded once its reviews
+ *   are in. Later outcomes move the live weights but never re-decide an earlier round.
+ * - Rulings: the merge queue's verdict on code a round approved. Landing confirms the
+ *   round's approving votes and overturns its blocking ones; an eviction for failing CI
+ *   or the post-rebase review does the reverse. Each ruling is recorded once.
+ * A reviewer's live weight is `reviewerWeight` over its confirmed and overturned votes.
+ */
+
+export type ReviewRuling = {
+  ticketId: string;
+  /** Round whose approval sent the ticket to the merge queue */
+  round: number;
+  /** Tells one ruling on a ticket from the next */
+  rulingKey: string;
+  codeHeldUp: boolean;
+  votes: Array<{ reviewer: CodeReviewerSlot; severity: string }>;
+};
+
+export type ReviewHistory = {
+  /** Weights each decided round was decided with, by `reviewWeightsKey` */
+  roundWeights: Map<string, ReviewWeights>;
+  rulings: ReviewRuling[];
+};
+
+const CREATE_WEIGHTS_TABLE = `CREATE TABLE IF NOT EXISTS review_round_weights (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  run_id TEXT NOT NULL,
+  ticket_id TEXT NOT NULL,
+  round INTEGER NOT NULL,
+  weights_json TEXT NOT NULL,
+  UNIQUE (run_id, ticket_id, round)
+)`;
+
+const CREATE_RULINGS_TABLE = `CREATE TABLE IF NOT EXISTS review_rulings (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  run_id TEXT NOT NULL,
+  ticket_id TEXT NOT NULL,
+  round INTEGER NOT NULL,
+  ruling_key TEXT NOT NULL,
+  code_held_up INTEGER NOT NULL,
+  votes_json TEXT NOT NULL,
+  UNIQUE (run_id, ticket_id, ruling_key)
+)`;
+
+export function ensureReviewHistoryTables(db: Database): void {
+  db.exec(CREATE_WEIGHTS_TABLE);
+  db.exec(CREATE_RULINGS_TABLE);
+}
+
+export function reviewWeightsKey(ticketId: string, round: number): string {
+  return `${ticketId}:${round}`;
+}
+
+export function loadReviewHistory(db: Database, runId: string): ReviewHistory {
+  ensureReviewHistoryTables(db);
+  const weights = db.prepare(
+    `SELECT ticket_id, round, weights_json FROM review_round_weights WHERE run_id = ?`
+  ).all(runId) as Array<{ ticket_id: string; round: number; weights_json: string }>;
+  const rulings = db.prepare(
+    `SELECT ticket_id, round, ruling_key, code_held_up, votes_json FROM review_rulings WHERE run_id = ? ORDER BY id ASC`
+  ).all(runId) as Array<{ ticket_id: string; round: number; ruling_key: string; code_held_up: number; votes_json: string }>;
+  return {
+    roundWeights: new Map(weights.map((row) => [reviewWeightsKey(row.ticket_id, row.round), JSON.parse(row.weights_json) as ReviewWeights])),
+    rulings: rulings.map((row) => ({
+      ticketId: row.ticket_id,
+      round: row.round,
+      rulingKey: row.ruling_key,
+      codeHeldUp: row.code_held_up === 1,
+      votes: JSON.parse(row.votes_json) as ReviewRuling["votes"],
+    })),
+  };
+}
+
+/**
+ * Record `weights` for decided rounds without recorded weights, and rulings not seen
+ * before. Both keep what was recorded first.
+ */
+export function recordReviewHistory(
+  db: Database,
+  runId: string,
+  update: { decidedRounds: Array<{ ticketId: string; round: number }>; weights: ReviewWeights; rulings: ReviewRuling[] },
+): void {
+  ensureReviewHistoryTables(db);
+  const insertWeights = db.prepare(
+    `INSERT OR IGNORE INTO review_round_weights (run_id, ticket_id, round, weights_json) VALUES (?, ?, ?, ?)`
+  );
+  const insertRuling = db.prepare(
+    `INSERT OR IGNORE INTO review_rulings (run_id, ticket_id, round, ruling_key, code_held_up, votes_json) VALUES (?, ?, ?, ?, ?, ?)`
+  );
+  const weightsJson = JSON.stringify(update.weights);
+  for (const { ticketId, round } of update.decidedRounds) insertWeights.run(runId, ticketId, round, weightsJson);
+  for (const ruling of update.rulings) {
+    insertRuling.run(runId, ruling.ticketId, ruling.round, ruling.rulingKey, ruling.codeHeldUp ? 1 : 0, JSON.stringify(ruling.votes));
+  }
+}
+
+/** Read the review history from the workflow DB at `dbPath`; empty when it can't be opened */
+export function readReviewHistory(dbPath: string, runId: string): ReviewHistory {
+  let db: Database | null = null;
+  try {
+    db = new Database(dbPath);
+    return loadReviewHistory(db, runId);
+  } catch {
+    return { roundWeights: new Map(), rulings: [] };
+  } finally {
+    db?.close();
+  }
+}
+
+/** Write to the workflow DB at `dbPath`; a busy DB skips it, and the next render tries again */
+export function writeReviewHistory(dbPath: string, runId: string, update: Parameters<typeof recordReviewHistory>[2]): void {
+  let db: Database | null = null;
+  try {
+    db = new Database(dbPath);
+    recordReviewHistory(db, runId, update);
+  } catch {
+    // Nothing recorded; the rounds and rulings are offered again on the next render
+  } finally {
+    db?.close();
+  }
+}
+
+/** Confirmed and overturned votes per reviewer over every ruling */
+export function tallyReviewerOutcomes(rulings: ReviewRuling[]): Partial<Record<CodeReviewerSlot, ReviewerOutcomes>> {
+  const outcomes: Partial<Record<CodeReviewerSlot, ReviewerOutcomes>> = {};
+  for (const ruling of rulings) {
+    for (const vote of ruling.votes) {
+      const entry = (outcomes[vote.reviewer] ??= { confirmed: 0, overturned: 0 });
+      if ((vote.severity === "none") === ruling.codeHeldUp) entry.confirmed++;
+      else entry.overturned++;
+    }
+  }
+  return outcomes;
+}
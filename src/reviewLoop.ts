@@ -0,0 +1,51 @@
+/**
+ * Review/fix loop bookkeeping.
+ * After each review-fix the ticket goes back through test, build-verify, spec-review and
+ * code-review. Each pass is a review round with its own node IDs: round 1 keeps the plain
+ * IDs (`T-1:test`), later rounds add a suffix (`T-1:test:r2`), so earlier rounds' outputs
+ * stay readable and never count as the current round's.
+ * A round ends in its report and landing attempt (`T-1:report:r2`, `T-1:land:r2`). When
+ * the merge queue evicts the ticket for rework, or a human rejects its landing, implement
+ * runs again and opens the next round (`T-1:implement:r3`) instead of a review-fix.
+ */
+
+export type ReviewLoopConfig = {
+  /** Review rounds before the ticket escalates */
+  maxRounds: number;
+  /** Whether a stronger agent gets one more fix and review round past the cap */
+  escalate: boolean;
+};
+
+export type ReviewLoopState = {
+  /** Current review round, starting at 1 */
+  round: number;
+  /** Whether this round's reviews call for review-fix; null until both reviews are in */
+  fixNeeded: boolean | null;
+  /** This round's review-fix goes to the escalation agent */
+  escalated: boolean;
+  /** Reviews still find issues and no fix rounds are left */
+  blocked: boolean;
+  /** Issues from this round's reviews that no fix addressed */
+  outstandingIssues: string[];
+};
+
+const ROUND_SUFFIX = /:r(\d+)$/;
+
+export function reviewRoundNodeId(nodeId: string, round: number): string {
+  return round <= 1 ? nodeId : `${nodeId}:r${round}`;
+}
+
+/** Round a review job or node belongs to; IDs without a round suffix are round 1 */
+export function reviewRoundOfNodeId(nodeId: string): number {
+  const match = nodeId.match(ROUND_SUFFIX);
+  return match ? Number(match[1]) : 1;
+}
+
+export function stripReviewRound(nodeId: string): string {
+  return nodeId.replace(ROUND_SUFFIX, "");
+}
+
+/** Whether round `round` may end in a review-fix rather than a report */
+export function canFixInRound(round: number, config: ReviewLoopConfig): boolean {
+  return round < config.maxRounds || (config.escalate && round === config.maxRounds);
+}
@@ -0,0 +1,255 @@
+import { Database } from "bun:sqlite";
+import { appendFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { AgentLike } from "smithers-orchestrator";
+import type { EvictReason } from "./mergeQueue/coordinator";
+import { runShellCommand } from "./shellCommand";
+
+/**
+ * Typed run events: what super-ralph is doing, as a feed for notifications and dashboards.
+ * SuperRalph, Job and the speculative merge queue emit them on the process-wide event bus,
+ * which hands each one to the configured sinks (an NDJSON file, an HTTP webhook, a shell
+ * command). With a workflow DB attached every event is also kept in `run_events`.
+ *
+ * Events derived from workflow outputs are emitted on render, over and over; those carry a
+ * key, and a key already recorded for the run isn't emitted again, across restarts too.
+ */
+
+export type RunEvent = { runId: string; atMs: number } & (
+  | { type: "ticket_discovered"; ticketId: string; title: string; priority: string; category: string }
+  | { type: "stage_started"; ticketId: string; stage: string; jobId: string; nodeId: string; agentId: string }
+  | { type: "stage_completed"; ticketId: string; stage: string; jobId: string; nodeId: string; agentId: string; durationMs: number; ok: boolean; error: string | null }
+  | { type: "review_verdict"; ticketId: string; round: number; approved: boolean; specSeverity: string | null; codeSeverity: string | null; blocked: boolean }
+  | { type: "queued"; ticketId: string; queueId: string; priority: string; reportIteration: number }
+  | { type: "landed"; ticketId: string; queueId: string; mergeCommit: string | null }
+  | { type: "evicted"; ticketId: string; queueId: string; reason: EvictReason; details: string }
+  | { type: "agent_rate_limited"; agentId: string; resumeAtMs: number; reason: string | null }
+);
+
+export type RunEventType = RunEvent["type"];
+
+/** Distributes over the union, so each event keeps its own fields */
+export type RunEventInput = RunEvent extends infer E ? E extends RunEvent ? Omit<E, "atMs"> : never : never;
+
+export type RunEventSink = {
+  name: string;
+  write(event: RunEvent): Promise<void>;
+};
+
+/** Serializable sink settings, as passed to SuperRalph and written into generated workflows */
+export type RunEventSinkConfig =
+  | { type: "ndjson"; path: string }
+  | { type: "webhook"; url: string; headers?: Record<string, string>; timeoutMs?: number }
+  | { type: "command"; command: string; cwd?: string; timeoutMs?: number };
+
+/** Appends one JSON line per event */
+export function createNdjsonFileSink(path: string): RunEventSink {
+  let ready: Promise<unknown> | null = null;
+  return {
+    name: `ndjson:${path}`,
+    async write(event) {
+      ready ??= mkdir(dirname(path), { recursive: true });
+      await ready;
+      await appendFile(path, `${JSON.stringify(event)}\n`, "utf8");
+    },
+  };
+}
+
+/** POSTs each event as JSON; any non-2xx response counts as a failure */
+export function createWebhookSink(url: string, options: { headers?: Record<string, string>; timeoutMs?: number } = {}): RunEventSink {
+  return {
+    name: `webhook:${url}`,
+    async write(event) {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...options.headers },
+        body: JSON.stringify(event),
+        signal: AbortSignal.timeout(options.timeoutMs ?? 10_000),
+      });
+      if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
+    },
+  };
+}
+
+/**
+ * Runs a shell command per event, with the event as JSON in `SUPER_RALPH_EVENT` and its
+ * type in `SUPER_RALPH_EVENT_TYPE`
+ */
+export function createCommandSink(command: string, options: { cwd?: string; timeoutMs?: number } = {}): RunEventSink {
+  return {
+    name: `command:${command}`,
+    async write(event) {
+      const run = await runShellCommand(command, options.cwd ?? process.cwd(), options.timeoutMs ?? 30_000, {
+        SUPER_RALPH_EVENT: JSON.stringify(event),
+        SUPER_RALPH_EVENT_TYPE: event.type,
+      });
+      if (run.exitCode !== 0) {
+        throw new Error(run.timedOut ? "timed out" : `exit ${run.exitCode}: ${run.output.trim().slice(-500)}`);
+      }
+    },
+  };
+}
+
+export function createRunEventSink(config: RunEventSinkConfig): RunEventSink {
+  switch (config.type) {
+    case "ndjson":
+      return createNdjsonFileSink(config.path);
+    case "webhook":
+      return createWebhookSink(config.url, config);
+    case "command":
+      return createCommandSink(config.command, config);
+  }
+}
+
+const CREATE_TABLE = `CREATE TABLE IF NOT EXISTS run_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  run_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  event_key TEXT,
+  event_json TEXT NOT NULL,
+  at_ms INTEGER NOT NULL,
+  UNIQUE (run_id, event_key)
+)`;
+
+export class RunEventBus {
+  private sinks: RunEventSink[] = [];
+  private sinkConfigKey = "";
+  /** Each sink writes its events in order, one at a time */
+  private queues = new Map<RunEventSink, Promise<void>>();
+  /** Sinks failing right now, so a broken sink is reported once per outage rather than per event */
+  private failedSinks = new Set<string>();
+  private emittedKeys = new Set<string>();
+  private db: Database | null = null;
+  private dbPath: string | null = null;
+  /** Whether recording an event failed, so it's reported once */
+  private dbWriteFailed = false;
+
+  /** Replace the sinks; calling it again with the same settings is a no-op */
+  configure(configs: RunEventSinkConfig[]): void {
+    const key = JSON.stringify(configs);
+    if (key === this.sinkConfigKey) return;
+    this.sinkConfigKey = key;
+    this.setSinks(configs.map(createRunEventSink));
+  }
+
+  setSinks(sinks: RunEventSink[]): void {
+    this.sinks = sinks;
+    this.failedSinks.clear();
+  }
+
+  /** Keep events in the workflow DB; calling it again with the same path is a no-op */
+  attachDatabase(dbPath: string): void {
+    if (this.dbPath === dbPath) return;
+    this.db?.close();
+    this.db = new Database(dbPath);
+    this.dbPath = dbPath;
+    this.db.exec(CREATE_TABLE);
+  }
+
+  /**
+   * Emit an event to every sink. With a `key`, the event is dropped when one with the
+   * same key was already emitted for the run. Returns whether it was emitted.
+   */
+  emit(input: RunEventInput, key?: string): boolean {
+    const event = { ...input, atMs: Date.now() } as RunEvent;
+    if (key) {
+      const scoped = `${event.runId}\u0000${key}`;
+      if (this.emittedKeys.has(scoped)) return false;
+      this.emittedKeys.add(scoped);
+    }
+    if (this.db) {
+      // Emitted during render: a busy DB must not throw there. The in-memory key check
+      // above still dedupes within this process.
+      try {
+        const inserted = this.db.prepare(
+          `INSERT OR IGNORE INTO run_events (run_id, type, event_key, event_json, at_ms) VALUES (?, ?, ?, ?, ?)`
+        ).run(event.runId, event.type, key ?? null, JSON.stringify(event), event.atMs);
+        if (inserted.changes === 0) return false;
+      } catch (err) {
+        if (!this.dbWriteFailed) {
+          this.dbWriteFailed = true;
+          console.warn(`⚠️  Could not record run event: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
+    }
+    for (const sink of this.sinks) {
+      const previous = this.queues.get(sink) ?? Promise.resolve();
+      this.queues.set(sink, previous.then(() => sink.write(event)).then(() => {
+        this.failedSinks.delete(sink.name);
+      }, (err) => {
+        if (this.failedSinks.has(sink.name)) return;
+        this.failedSinks.add(sink.name);
+        console.warn(`⚠️  Run event sink ${sink.name} failed: ${err instanceof Error ? err.message : String(err)}`);
+      }));
+    }
+    return true;
+  }
+
+  /** Wait for every sink to finish the events emitted so far */
+  async flush(): Promise<void> {
+    await Promise.all(this.queues.values());
+  }
+
+  close(): void {
+    this.db?.close();
+    this.db = null;
+    this.dbPath = null;
+  }
+}
+
+let instance: RunEventBus | null = null;
+
+export function getRunEventBus(): RunEventBus {
+  if (!instance) {
+    instance = new RunEventBus();
+  }
+  return instance;
+}
+
+export function resetRunEventBus(): void {
+  instance?.close();
+  instance = null;
+}
+
+export function emitRunEvent(input: RunEventInput, key?: string): boolean {
+  return getRunEventBus().emit(input, key);
+}
+
+/**
+ * Emit stage_started and stage_completed around each call of a ticket stage's agent.
+ * `agentId` defaults to the agent's own ID, for harness agents that run without one.
+ */
+export function withStageEvents<A extends AgentLike>(
+  agent: A,
+  scope: { runId: string; ticketId: string; stage: string; jobId: string; nodeId: string; agentId?: string },
+): A {
+  const stage = { ...scope, agentId: scope.agentId ?? (agent as { id?: string }).id ?? "unknown" };
+  const wrapped = Object.create(agent) as AgentLike;
+  wrapped.generate = async (args) => {
+    const startedAt = Date.now();
+    emitRunEvent({ type: "stage_started", ...stage });
+    try {
+      const result = await agent.generate(args);
+      emitRunEvent({ type: "stage_completed", ...stage, durationMs: Date.now() - startedAt, ok: true, error: null });
+      return result;
+    } catch (err) {
+      emitRunEvent({
+        type: "stage_completed", ...stage, durationMs: Date.now() - startedAt, ok: false,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      throw err;
+    }
+  };
+  return wrapped as A;
+}
+
+/** Read recorded events of a run, oldest first */
+export function loadRunEvents(db: Database, runId: string, options: { types?: RunEventType[]; sinceId?: number } = {}): Array<RunEvent & { id: number }> {
+  db.exec(CREATE_TABLE);
+  const rows = db.prepare(
+    `SELECT id, event_json FROM run_events WHERE run_id = ? AND id > ? ORDER BY id ASC`
+  ).all(runId, options.sinceId ?? 0) as Array<{ id: number; event_json: string }>;
+  return rows
+    .map((row) => ({ ...(JSON.parse(row.event_json) as RunEvent), id: row.id }))
+    .filter((event) => !options.types || options.types.includes(event.type));
+}
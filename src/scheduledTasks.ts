@@ -15,6 +15,33 @@ export type ScheduledJob = {
   createdAtMs: number;
 };
 
+/** Map from jobType to the Smithers output key used to detect completion */
+export const JOB_TYPE_TO_OUTPUT_KEY: Record<string, string> = {
+  "discovery": "discover",
+  "progress-update": "progress",
+  "codebase-review": "category_review",
+  "integration-test": "integration_test",
+  "ticket:research": "research",
+  "ticket:plan": "plan",
+  "ticket:implement": "implement",
+  "ticket:test": "test_results",
+  "ticket:build-verify": "build_verify",
+  "ticket:spec-review": "spec_review",
+  "ticket:code-review": "code_review",
+  "ticket:review-fix": "review_fix",
+  "ticket:report": "report",
+};
+
+/** Map jobId to the nodeId that selectors expect */
+const GLOBAL_JOB_NODE_IDS: Record<string, string> = {
+  "discovery": "discover",
+  "progress-update": "update-progress",
+};
+
+export function jobNodeId(job: { jobId: string; jobType: string }): string {
+  return GLOBAL_JOB_NODE_IDS[job.jobId] ?? job.jobId;
+}
+
 const CREATE_TABLE = `CREATE TABLE IF NOT EXISTS scheduled_tasks (
   job_id TEXT PRIMARY KEY,
   job_type TEXT NOT NULL,
@@ -4,6 +4,7 @@ import { interpretConfigOutputSchema } from "./components/InterpretConfig";
 import { monitorOutputSchema } from "./components/Monitor";
 import { ticketScheduleSchema } from "./components/TicketScheduler";
 import { mergeQueueResultSchema } from "./components/AgenticMergeQueue";
+import { TEST_REPORT_FORMATS } from "./testHarness/parsers";
 
 /**
  * Standard output schemas for Ralph workflow pattern.
@@ -19,6 +20,8 @@ const discoverTicketSchema = z.object({
   acceptanceCriteria: z.array(z.string()).nullable(),
   relevantFiles: z.array(z.string()).nullable(),
   referenceFiles: z.array(z.string()).nullable(),
+  estimatedComplexity: z.enum(["trivial", "small", "medium", "large"]).nullable(),
+  dependencies: z.array(z.string()).nullable(),
 });
 
 export const ralphOutputSchemas = {
@@ -40,6 +43,17 @@ export const ralphOutputSchemas = {
     completionEstimate: z.string(),
   }),
 
+  ticket_import: z.object({
+    importedAtMs: z.number(),
+    tickets: z.array(discoverTicketSchema),
+    sources: z.array(z.object({
+      path: z.string(),
+      format: z.enum(["github", "linear", "jira", "markdown"]).nullable(),
+      ticketCount: z.number(),
+      error: z.string().nullable(),
+    })),
+  }),
+
   category_review: z.object({
     categoryId: z.string(),
     categoryName: z.string(),
@@ -101,16 +115,45 @@ export const ralphOutputSchemas = {
   }),
 
   test_results: z.object({
-    goTestsPassed: z.boolean(),
-    rustTestsPassed: z.boolean(),
-    e2eTestsPassed: z.boolean(),
-    sqlcGenPassed: z.boolean(),
+    suites: z.array(z.object({
+      name: z.string(),
+      command: z.string(),
+      passed: z.boolean(),
+      durationMs: z.number().nullable(),
+      failures: z.array(z.string()).nullable(),
+      exitCode: z.number().nullable(),
+      format: z.enum(TEST_REPORT_FORMATS).nullable(),
+      tests: z.array(z.object({
+        name: z.string(),
+        status: z.enum(["passed", "failed", "skipped"]),
+        durationMs: z.number().nullable(),
+        message: z.string().nullable(),
+      })).nullable(),
+    })),
     failingSummary: z.string().nullable(),
+    fixAttempts: z.number(),
   }),
 
   build_verify: z.object({
     buildPassed: z.boolean(),
     errors: z.array(z.string()).nullable(),
+    commands: z.array(z.object({
+      name: z.string(),
+      command: z.string(),
+      passed: z.boolean(),
+      exitCode: z.number().nullable(),
+      durationMs: z.number().nullable(),
+      diagnosticCount: z.number(),
+    })),
+    diagnostics: z.array(z.object({
+      tool: z.enum(["tsc", "go", "cargo", "eslint"]),
+      file: z.string(),
+      line: z.number().nullable(),
+      column: z.number().nullable(),
+      severity: z.enum(["error", "warning"]),
+      code: z.string().nullable(),
+      message: z.string(),
+    })).nullable(),
   }),
 
   spec_review: z.object({
@@ -151,6 +194,7 @@ export const ralphOutputSchemas = {
     reviewRounds: z.number(),
     struggles: z.array(z.string()).nullable(),
     lessonsLearned: z.array(z.string()).nullable(),
+    outstandingIssues: z.array(z.string()).nullable(),
   }),
 
   integration_test: z.object({
@@ -175,6 +219,39 @@ export const ralphOutputSchemas = {
     landedOnMainSinceBranch: z.string().nullable(),
   }),
 
+  /** Token usage and cost of one agent on one job; written once the job completes */
+  agent_usage: z.object({
+    jobId: z.string(),
+    ticketId: z.string().nullable(),
+    stage: z.string(),
+    agentId: z.string(),
+    calls: z.number(),
+    inputTokens: z.number(),
+    outputTokens: z.number(),
+    totalTokens: z.number(),
+    costUsd: z.number(),
+  }),
+
+  /** One worktree garbage collection pass; written at startup and every GC interval */
+  worktree_gc: z.object({
+    ranAtMs: z.number(),
+    root: z.string(),
+    totalBytes: z.number(),
+    removed: z.array(z.object({
+      id: z.string(),
+      path: z.string(),
+      reason: z.enum(["orphaned", "disk-cap"]),
+      bytes: z.number(),
+    })),
+    workspacesClosed: z.array(z.string()),
+  }),
+
+  ticket_cleanup: z.object({
+    ticketId: z.string(),
+    worktreePath: z.string(),
+    cleanedAtMs: z.number(),
+  }),
+
   ticket_schedule: ticketScheduleSchema,
 
   merge_queue_result: mergeQueueResultSchema,
@@ -0,0 +1,113 @@
+import { describe, expect, test } from "bun:test";
+import {
+  isEvictedForRework,
+  selectBuildVerify,
+  selectImplement,
+  selectReviewRound,
+  selectTestResults,
+  selectTicketPipelineStage,
+} from "./selectors";
+
+/** Outputs keyed by `<table>|<nodeId>` */
+function fakeCtx(outputs: Record<string, unknown>): Parameters<typeof selectReviewRound>[0] {
+  return { latest: (table: string, nodeId: string) => outputs[`${table}|${nodeId}`], outputs: () => [] } as any;
+}
+
+// Round 1 of T-1, reviewed and waiting on its review-fix
+const ROUND_ONE = {
+  "research|T-1:research": {},
+  "plan|T-1:plan": {},
+  "implement|T-1:implement": { whatWasDone: "first pass" },
+  "test_results|T-1:test": { suites: [], failingSummary: null, fixAttempts: 0 },
+  "build_verify|T-1:build-verify": { buildPassed: true },
+  "spec_review|T-1:spec-review": { severity: "major" },
+  "code_review|T-1:code-review": { severity: "none" },
+};
+
+describe("selectReviewRound", () => {
+  test("starts at round 1", () => {
+    expect(selectReviewRound(fakeCtx({}), "T-1")).toBe(1);
+    expect(selectReviewRound(fakeCtx(ROUND_ONE), "T-1")).toBe(1);
+  });
+
+  test("advances past each review-fix", () => {
+    expect(selectReviewRound(fakeCtx({ ...ROUND_ONE, "review_fix|T-1:review-fix": {} }), "T-1")).toBe(2);
+    expect(selectReviewRound(fakeCtx({ ...ROUND_ONE, "review_fix|T-1:review-fix": {}, "review_fix|T-1:review-fix:r2": {} }), "T-1")).toBe(3);
+  });
+
+  test("advances past a rework implement", () => {
+    expect(selectReviewRound(fakeCtx({ ...ROUND_ONE, "implement|T-1:implement:r2": {} }), "T-1")).toBe(2);
+    expect(selectReviewRound(fakeCtx({ ...ROUND_ONE, "review_fix|T-1:review-fix": {}, "implement|T-1:implement:r3": {} }), "T-1")).toBe(3);
+  });
+});
+
+describe("isEvictedForRework", () => {
+  test("is true for evictions that need more work", () => {
+    expect(isEvictedForRework({ merged: false, evicted: true, evictionReason: "ci_failed" } as any)).toBe(true);
+    expect(isEvictedForRework({ merged: false, evicted: true, evictionReason: "rebase_conflict" } as any)).toBe(true);
+  });
+
+  test("is false for flaky CI, merges and tickets never evicted", () => {
+    expect(isEvictedForRework({ merged: false, evicted: true, evictionReason: "ci_flaky" } as any)).toBe(false);
+    expect(isEvictedForRework({ merged: true, evicted: true, evictionReason: "ci_failed" } as any)).toBe(false);
+    expect(isEvictedForRework({ merged: false, evicted: false } as any)).toBe(false);
+    expect(isEvictedForRework(undefined)).toBe(false);
+  });
+});
+
+describe("round-scoped outputs", () => {
+  const reviewFixed = { ...ROUND_ONE, "review_fix|T-1:review-fix": {} };
+
+  test("read the latest output up to the round", () => {
+    const ctx = fakeCtx({
+      ...reviewFixed,
+      "test_results|T-1:test:r2": { suites: [], failingSummary: "unit: 1 failed", fixAttempts: 2 },
+    });
+    expect(selectTestResults(ctx, "T-1")?.failingSummary).toBe("unit: 1 failed");
+    expect(selectTestResults(ctx, "T-1", 1)?.failingSummary).toBeNull();
+    // Round 2 hasn't built yet, so round 1's build is the latest
+    expect(selectBuildVerify(ctx, "T-1")).toEqual({ buildPassed: true } as any);
+    expect(selectImplement(ctx, "T-1")?.whatWasDone).toBe("first pass");
+  });
+
+  test("pick the rework's implement pass once it opens its round", () => {
+    const ctx = fakeCtx({ ...ROUND_ONE, "implement|T-1:implement:r2": { whatWasDone: "rework" } });
+    expect(selectImplement(ctx, "T-1")?.whatWasDone).toBe("rework");
+    expect(selectImplement(ctx, "T-1", 1)?.whatWasDone).toBe("first pass");
+  });
+});
+
+describe("selectTicketPipelineStage", () => {
+  test("follows round 1", () => {
+    expect(selectTicketPipelineStage(fakeCtx({}), "T-1")).toBe("not_started");
+    expect(selectTicketPipelineStage(fakeCtx({ "research|T-1:research": {}, "plan|T-1:plan": {} }), "T-1")).toBe("plan");
+    expect(selectTicketPipelineStage(fakeCtx(ROUND_ONE), "T-1")).toBe("code_review");
+  });
+
+  test("tests and builds a review-fix's round before its reviews", () => {
+    const outputs: Record<string, unknown> = { ...ROUND_ONE, "review_fix|T-1:review-fix": {} };
+    expect(selectTicketPipelineStage(fakeCtx(outputs), "T-1")).toBe("review_fix");
+    outputs["test_results|T-1:test:r2"] = {};
+    expect(selectTicketPipelineStage(fakeCtx(outputs), "T-1")).toBe("test");
+    outputs["build_verify|T-1:build-verify:r2"] = {};
+    expect(selectTicketPipelineStage(fakeCtx(outputs), "T-1")).toBe("build_verify");
+    outputs["spec_review|T-1:spec-review:r2"] = {};
+    expect(selectTicketPipelineStage(fakeCtx(outputs), "T-1")).toBe("spec_review");
+  });
+
+  test("puts an evicted ticket back at implement once its rework runs", () => {
+    const outputs: Record<string, unknown> = {
+      ...ROUND_ONE,
+      "spec_review|T-1:spec-review": { severity: "none" },
+      "report|T-1:report": { status: "complete" },
+      "land|T-1:land": { merged: false, evicted: true, evictionReason: "ci_failed" },
+    };
+    expect(selectTicketPipelineStage(fakeCtx(outputs), "T-1")).toBe("report");
+    outputs["implement|T-1:implement:r2"] = { whatWasDone: "rework" };
+    expect(selectTicketPipelineStage(fakeCtx(outputs), "T-1")).toBe("implement");
+    outputs["test_results|T-1:test:r2"] = {};
+    expect(selectTicketPipelineStage(fakeCtx(outputs), "T-1")).toBe("test");
+    outputs["land|T-1:land:r2"] = { merged: true };
+    expect(selectTicketPipelineStage(fakeCtx(outputs), "T-1")).toBe("landed");
+  });
+});
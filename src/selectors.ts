@@ -1,5 +1,11 @@
 import type { SmithersCtx } from "smithers-orchestrator";
 import type { ralphOutputSchemas } from "./schemas";
+import { CODE_REVIEWER_SLOTS, codeReviewNodeId, decideReviewConsensus, type CodeReviewerSlot, type ReviewConsensus, type ReviewConsensusPolicy, type ReviewVote, type ReviewWeights } from "./reviewConsensus";
+import { reviewWeightsKey, type ReviewRuling } from "./reviewHistory";
+import type { HarnessSuiteResult } from "./testHarness/runner";
+import type { BuildVerifyResult } from "./buildHarness/runner";
+import type { ManualTicketOverride } from "./manualTickets";
+import { canFixInRound, reviewRoundNodeId, type ReviewLoopConfig, type ReviewLoopState } from "./reviewLoop";
 
 /**
  * Generic selectors for Ralph workflow pattern.
@@ -18,6 +24,8 @@ export interface Ticket {
   acceptanceCriteria?: string[];
   relevantFiles?: string[];
   referenceFiles?: string[];
+  estimatedComplexity?: "trivial" | "small" | "medium" | "large";
+  dependencies?: string[];
 }
 
 const priorityOrder: Record<string, number> = { critical: 0, high: 1, medium: 2, low: 3 };
@@ -46,7 +54,14 @@ function normalizePriority(value: unknown): Ticket["priority"] {
     : "medium";
 }
 
-function normalizeTicket(raw: unknown): Ticket | null {
+function normalizeComplexity(value: unknown): Ticket["estimatedComplexity"] {
+  return value === "trivial" || value === "small" || value === "medium" || value === "large"
+    ? value
+    : undefined;
+}
+
+/** Coerce a ticket an agent wrote (or a stored row) into a Ticket; null without an ID */
+export function normalizeTicket(raw: unknown): Ticket | null {
   if (!raw || typeof raw !== "object") return null;
   const source = raw as Record<string, unknown>;
   const id = typeof source.id === "string" ? source.id.trim() : "";
@@ -60,6 +75,8 @@ function normalizeTicket(raw: unknown): Ticket | null {
     acceptanceCriteria: toStringList(source.acceptanceCriteria),
     relevantFiles: toStringList(source.relevantFiles),
     referenceFiles: toStringList(source.referenceFiles),
+    estimatedComplexity: normalizeComplexity(source.estimatedComplexity),
+    dependencies: toStringList(source.dependencies),
   };
 }
 
@@ -105,6 +122,18 @@ export function selectDiscoverTickets(ctx: SmithersCtx<RalphOutputs>): Ticket[]
   return normalized;
 }
 
+/** Tickets seeded from tracker exports (`ticketImports`) */
+export function selectImportedTickets(ctx: SmithersCtx<RalphOutputs>): Ticket[] {
+  const imported = ctx.latest("ticket_import", "ticket-import");
+  if (!imported || !Array.isArray((imported as any).tickets)) return [];
+  const normalized: Ticket[] = [];
+  for (const candidate of (imported as any).tickets) {
+    const ticket = normalizeTicket(candidate);
+    if (ticket) normalized.push(ticket);
+  }
+  return normalized;
+}
+
 export function selectCompletedTicketIds(ctx: SmithersCtx<RalphOutputs>, tickets: Ticket[]): string[] {
   return tickets
     .filter((t) => {
@@ -119,22 +148,49 @@ export function selectProgressSummary(ctx: SmithersCtx<RalphOutputs>): string |
   return (progress as any)?.summary ?? null;
 }
 
+/**
+ * Apply hand-made overrides (`manual_tickets`): their fields win over the ticket with the
+ * same ID, and tickets added by hand that no agent wrote are put first.
+ */
+export function applyManualTickets(tickets: Ticket[], overrides: ManualTicketOverride[]): Ticket[] {
+  if (overrides.length === 0) return tickets;
+  const byId = new Map(overrides.map((o) => [o.ticketId, o]));
+  const merged = tickets.map((ticket) => {
+    const override = byId.get(ticket.id);
+    return override ? normalizeTicket({ ...ticket, ...override.fields, id: ticket.id }) ?? ticket : ticket;
+  });
+  const known = new Set(tickets.map((t) => t.id));
+  const added = overrides
+    .filter((o) => o.added && !known.has(o.ticketId))
+    .map((o) => normalizeTicket({ ...o.fields, id: o.ticketId }))
+    .filter((t): t is Ticket => t !== null)
+    .sort(sortByPriority);
+  return [...added, ...merged];
+}
+
 export function selectAllTickets(
   ctx: SmithersCtx<RalphOutputs>, 
-  focuses: ReadonlyArray<{ readonly id: string }>
+  focuses: ReadonlyArray<{ readonly id: string }>,
+  manualTickets: ManualTicketOverride[] = [],
 ): { all: Ticket[]; completed: string[]; unfinished: Ticket[] } {
   const { tickets: reviewTickets } = selectReviewTickets(ctx, focuses);
+  const importedTickets = selectImportedTickets(ctx);
   const featureTickets = selectDiscoverTickets(ctx);
 
-  // Merge and deduplicate tickets (review tickets take priority)
+  // Merge and deduplicate tickets (review tickets take priority, then imported ones)
   const seenIds = new Set<string>();
-  const all: Ticket[] = [];
-  for (const ticket of [...reviewTickets.sort(sortByPriority), ...featureTickets.sort(sortByPriority)]) {
+  const agentTickets: Ticket[] = [];
+  for (const ticket of [
+    ...reviewTickets.sort(sortByPriority),
+    ...importedTickets.sort(sortByPriority),
+    ...featureTickets.sort(sortByPriority),
+  ]) {
     if (!seenIds.has(ticket.id)) {
       seenIds.add(ticket.id);
-      all.push(ticket);
+      agentTickets.push(ticket);
     }
   }
+  const all = applyManualTickets(agentTickets, manualTickets);
 
   const completed = selectCompletedTicketIds(ctx, all);
   const unfinished = all.filter((t) => !completed.includes(t.id));
@@ -142,8 +198,15 @@ export function selectAllTickets(
   return { all, completed, unfinished };
 }
 
-export function selectTicketReport(ctx: SmithersCtx<RalphOutputs>, ticketId: string) {
-  return ctx.latest("report", `${ticketId}:report`);
+/** Number of reports written for a ticket in the run; each new one re-queues it and needs a new landing decision */
+export function selectReportIteration(ctx: SmithersCtx<RalphOutputs>, ticketId: string): number {
+  const reports = (ctx.outputs("report") as Array<any>) ?? [];
+  return reports.filter((r) => r?.ticketId === ticketId).length;
+}
+
+/** The report ending review round `round` (default: the current one) */
+export function selectTicketReport(ctx: SmithersCtx<RalphOutputs>, ticketId: string, round = selectReviewRound(ctx, ticketId)) {
+  return ctx.latest("report", reviewRoundNodeId(`${ticketId}:report`, round));
 }
 
 export function selectResearch(ctx: SmithersCtx<RalphOutputs>, ticketId: string) {
@@ -158,38 +221,100 @@ export function selectPlan(ctx: SmithersCtx<RalphOutputs>, ticketId: string) {
     | undefined;
 }
 
-export function selectImplement(ctx: SmithersCtx<RalphOutputs>, ticketId: string) {
-  return ctx.latest("implement", `${ticketId}:implement`) as
-    | { whatWasDone: string; filesCreated: string[] | null; filesModified: string[] | null; nextSteps: string | null }
-    | undefined;
+/** The latest implement pass up to review round `round`: the first one, or a rework */
+export function selectImplement(ctx: SmithersCtx<RalphOutputs>, ticketId: string, round = selectReviewRound(ctx, ticketId)) {
+  for (let r = round; r >= 1; r--) {
+    const implement = ctx.latest("implement", reviewRoundNodeId(`${ticketId}:implement`, r));
+    if (implement) {
+      return implement as { whatWasDone: string; filesCreated: string[] | null; filesModified: string[] | null; nextSteps: string | null };
+    }
+  }
+  return undefined;
 }
 
-export function selectTestResults(ctx: SmithersCtx<RalphOutputs>, ticketId: string) {
-  return ctx.latest("test_results", `${ticketId}:test`) as
-    | { goTestsPassed: boolean; rustTestsPassed: boolean; e2eTestsPassed: boolean; sqlcGenPassed: boolean; failingSummary: string | null }
-    | undefined;
+/** One suite as the test harness ran it; `tests` holds the parsed per-test results */
+export type TestSuiteResult = HarnessSuiteResult;
+
+/** The latest test run up to review round `round`; each round tests its review-fix or rework */
+export function selectTestResults(ctx: SmithersCtx<RalphOutputs>, ticketId: string, round = selectReviewRound(ctx, ticketId)) {
+  for (let r = round; r >= 1; r--) {
+    const results = ctx.latest("test_results", reviewRoundNodeId(`${ticketId}:test`, r));
+    if (results) return results as { suites: TestSuiteResult[]; failingSummary: string | null; fixAttempts: number };
+  }
+  return undefined;
 }
 
-export function selectSpecReview(ctx: SmithersCtx<RalphOutputs>, ticketId: string) {
-  return ctx.latest("spec_review", `${ticketId}:spec-review`) as
+/**
+ * PASS/FAIL per configured suite, matched by name. Configured suites missing from the
+ * results are "NOT RUN"; reported suites that aren't configured are appended.
+ */
+export function selectTestSuiteStatuses(
+  ctx: SmithersCtx<RalphOutputs>,
+  ticketId: string,
+  configuredSuites: Array<{ name: string }>,
+  round = selectReviewRound(ctx, ticketId),
+): Array<{ name: string; status: "PASS" | "FAIL" | "NOT RUN" }> {
+  const reported = selectTestResults(ctx, ticketId, round)?.suites ?? [];
+  const byName = new Map(reported.map((s) => [s.name, s]));
+  const statuses = configuredSuites.map(({ name }) => {
+    const result = byName.get(name);
+    return { name, status: !result ? "NOT RUN" as const : result.passed ? "PASS" as const : "FAIL" as const };
+  });
+  const configured = new Set(configuredSuites.map((s) => s.name));
+  for (const result of reported) {
+    if (!configured.has(result.name)) statuses.push({ name: result.name, status: result.passed ? "PASS" : "FAIL" });
+  }
+  return statuses;
+}
+
+/** The latest build verification up to review round `round` */
+export function selectBuildVerify(ctx: SmithersCtx<RalphOutputs>, ticketId: string, round = selectReviewRound(ctx, ticketId)) {
+  for (let r = round; r >= 1; r--) {
+    const build = ctx.latest("build_verify", reviewRoundNodeId(`${ticketId}:build-verify`, r));
+    if (build) return build as BuildVerifyResult;
+  }
+  return undefined;
+}
+
+/** Current review round: one past the last round that ended in a review-fix or a rework */
+export function selectReviewRound(ctx: SmithersCtx<RalphOutputs>, ticketId: string): number {
+  let round = 1;
+  while (
+    ctx.latest("review_fix", reviewRoundNodeId(`${ticketId}:review-fix`, round)) ||
+    ctx.latest("implement", reviewRoundNodeId(`${ticketId}:implement`, round + 1))
+  ) round++;
+  return round;
+}
+
+export function selectSpecReview(ctx: SmithersCtx<RalphOutputs>, ticketId: string, round = selectReviewRound(ctx, ticketId)) {
+  return ctx.latest("spec_review", reviewRoundNodeId(`${ticketId}:spec-review`, round)) as
     | { severity: "none" | "minor" | "major" | "critical"; feedback: string; issues: string[] | null }
     | undefined;
 }
 
-export function selectLand(ctx: SmithersCtx<RalphOutputs>, ticketId: string) {
-  return ctx.latest("land", `${ticketId}:land`) as
+/** The merge queue's result for review round `round` (default: the current one) */
+export function selectLand(ctx: SmithersCtx<RalphOutputs>, ticketId: string, round = selectReviewRound(ctx, ticketId)) {
+  return ctx.latest("land", reviewRoundNodeId(`${ticketId}:land`, round)) as
     | { merged: boolean; mergeCommit: string | null; ciPassed: boolean; summary: string; evicted?: boolean; evictionReason?: string | null; evictionDetails?: string | null; attemptedLog?: string | null; attemptedDiffSummary?: string | null; landedOnMainSinceBranch?: string | null }
     | undefined;
 }
 
-export function selectCodeReviews(ctx: SmithersCtx<RalphOutputs>, ticketId: string) {
-  const claude = ctx.latest("code_review", `${ticketId}:code-review`) as
+/**
+ * True when the merge queue rejected the ticket and it needs more implementation work.
+ * `ci_flaky` evictions are excluded: the queue re-queues those tickets unchanged.
+ */
+export function isEvictedForRework(land: ReturnType<typeof selectLand>): boolean {
+  return land?.evicted === true && land.merged !== true && land.evictionReason !== "ci_flaky";
+}
+
+export function selectCodeReviews(ctx: SmithersCtx<RalphOutputs>, ticketId: string, round = selectReviewRound(ctx, ticketId)) {
+  const claude = ctx.latest("code_review", codeReviewNodeId(ticketId, "claude", round)) as
     | { severity: string; feedback: string; issues: string[] | null }
     | undefined;
-  const codex = ctx.latest("code_review_codex", `${ticketId}:code-review-codex`) as
+  const codex = ctx.latest("code_review_codex", codeReviewNodeId(ticketId, "codex", round)) as
     | { severity: string; feedback: string; issues: string[] | null }
     | undefined;
-  const gemini = ctx.latest("code_review_gemini", `${ticketId}:code-review-gemini`) as
+  const gemini = ctx.latest("code_review_gemini", codeReviewNodeId(ticketId, "gemini", round)) as
     | { severity: string; feedback: string; issues: string[] | null }
     | undefined;
 
@@ -221,6 +346,129 @@ export function selectCodeReviews(ctx: SmithersCtx<RalphOutputs>, ticketId: stri
   };
 }
 
+/** How the code-review fan-out is configured: which slots run and how their votes count */
+export type CodeReviewConsensusConfig = {
+  policy: ReviewConsensusPolicy;
+  slots: CodeReviewerSlot[];
+  /** Live weights, for rounds without recorded ones */
+  weights: ReviewWeights;
+  /** Weights recorded when each round was decided, by `reviewWeightsKey` */
+  roundWeights?: Map<string, ReviewWeights>;
+};
+
+/** Consensus over a ticket's code reviews, or null until every configured reviewer has reported */
+export function selectCodeReviewConsensus(
+  ctx: SmithersCtx<RalphOutputs>,
+  ticketId: string,
+  { policy, slots, weights, roundWeights }: CodeReviewConsensusConfig,
+  round = selectReviewRound(ctx, ticketId),
+): ReviewConsensus | null {
+  const weightOf = roundWeights?.get(reviewWeightsKey(ticketId, round)) ?? weights;
+  const votes: ReviewVote[] = [];
+  for (const slot of slots) {
+    const review = ctx.latest(CODE_REVIEWER_SLOTS[slot].output, codeReviewNodeId(ticketId, slot, round)) as
+      | { severity: string }
+      | undefined;
+    if (!review) return null;
+    votes.push({ reviewer: slot, severity: review.severity, weight: weightOf[slot] ?? 1 });
+  }
+  return decideReviewConsensus(votes, policy);
+}
+
+/** Rounds of the tickets whose code reviews are all in */
+export function selectDecidedReviewRounds(
+  ctx: SmithersCtx<RalphOutputs>,
+  ticketIds: string[],
+  config: CodeReviewConsensusConfig,
+): Array<{ ticketId: string; round: number }> {
+  return ticketIds.flatMap((ticketId) =>
+    Array.from({ length: selectReviewRound(ctx, ticketId) }, (_, i) => ({ ticketId, round: i + 1 }))
+      .filter(({ round }) => selectCodeReviewConsensus(ctx, ticketId, config, round) !== null));
+}
+
+/**
+ * The merge queue's latest ruling on the code each round of each ticket approved.
+ * Landing confirms the code; an eviction for failing CI or the post-rebase review rejects
+ * it. Evictions that say nothing about the code (conflicts, flaky CI, push failures)
+ * aren't rulings.
+ */
+export function selectReviewRulings(
+  ctx: SmithersCtx<RalphOutputs>,
+  ticketIds: string[],
+  config: CodeReviewConsensusConfig,
+): ReviewRuling[] {
+  const rulings: ReviewRuling[] = [];
+  for (const ticketId of ticketIds) {
+    for (let round = 1; round <= selectReviewRound(ctx, ticketId); round++) {
+      const land = selectLand(ctx, ticketId, round);
+      const codeHeldUp = land?.merged === true
+        ? true
+        : land?.evicted === true && (land.evictionReason === "ci_failed" || land.evictionReason === "review_failed") ? false : null;
+      if (codeHeldUp === null) continue;
+      const consensus = selectCodeReviewConsensus(ctx, ticketId, config, round);
+      if (!consensus || consensus.blocking) continue;
+      rulings.push({
+        ticketId,
+        round,
+        // Land outputs carry no ID; a ruling is told apart by its content, which a later
+        // landing attempt changes (new commits, new merge commit)
+        rulingKey: JSON.stringify(land),
+        codeHeldUp,
+        votes: consensus.votes.map(({ reviewer, severity }) => ({ reviewer, severity })),
+      });
+    }
+  }
+  return rulings;
+}
+
+/**
+ * Whether a reviewed ticket goes to review-fix: the spec review found issues or the code
+ * reviewers' consensus blocks. Null until both reviews of the round are in.
+ */
+export function selectReviewFixNeeded(
+  ctx: SmithersCtx<RalphOutputs>,
+  ticketId: string,
+  config: CodeReviewConsensusConfig,
+  round = selectReviewRound(ctx, ticketId),
+): boolean | null {
+  const specReview = selectSpecReview(ctx, ticketId, round);
+  const consensus = selectCodeReviewConsensus(ctx, ticketId, config, round);
+  if (!specReview || !consensus) return null;
+  return specReview.severity !== "none" || consensus.blocking;
+}
+
+/** Where a ticket is in the review/fix loop, and whether it has run out of fix rounds */
+export function selectReviewLoop(
+  ctx: SmithersCtx<RalphOutputs>,
+  ticketId: string,
+  consensus: CodeReviewConsensusConfig,
+  loop: ReviewLoopConfig,
+): ReviewLoopState {
+  const round = selectReviewRound(ctx, ticketId);
+  const fixNeeded = selectReviewFixNeeded(ctx, ticketId, consensus, round);
+  const blocked = fixNeeded === true && !canFixInRound(round, loop);
+
+  const outstandingIssues: string[] = [];
+  if (fixNeeded) {
+    const specReview = selectSpecReview(ctx, ticketId, round);
+    if (specReview && specReview.severity !== "none") {
+      const specIssues = Array.isArray(specReview.issues) && specReview.issues.length > 0 ? specReview.issues : [specReview.feedback];
+      outstandingIssues.push(...specIssues.map((i) => `[Spec] ${i}`));
+    }
+    if (selectCodeReviewConsensus(ctx, ticketId, consensus, round)?.blocking) {
+      outstandingIssues.push(...selectCodeReviews(ctx, ticketId, round).mergedIssues);
+    }
+  }
+
+  return {
+    round,
+    fixNeeded,
+    escalated: loop.escalate && round >= loop.maxRounds,
+    blocked,
+    outstandingIssues,
+  };
+}
+
 export function selectClarifyingQuestions(ctx: SmithersCtx<RalphOutputs>) {
   return ctx.latest("clarifying_questions", "clarifying-questions");
 }
@@ -234,16 +482,67 @@ export function selectMonitor(ctx: SmithersCtx<RalphOutputs>) {
 }
 
 export function selectTicketPipelineStage(ctx: SmithersCtx<RalphOutputs>, ticketId: string): string {
-  const land = ctx.latest("land", `${ticketId}:land`);
-  if ((land as any)?.merged) return "landed";
-  if (ctx.latest("report", `${ticketId}:report`)) return "report";
-  if (ctx.latest("review_fix", `${ticketId}:review-fix`)) return "review_fix";
-  if (ctx.latest("code_review", `${ticketId}:code-review`)) return "code_review";
-  if (ctx.latest("spec_review", `${ticketId}:spec-review`)) return "spec_review";
-  if (ctx.latest("build_verify", `${ticketId}:build-verify`)) return "build_verify";
-  if (ctx.latest("test_results", `${ticketId}:test`)) return "test";
-  if (ctx.latest("implement", `${ticketId}:implement`)) return "implement";
+  const round = selectReviewRound(ctx, ticketId);
+  if (selectLand(ctx, ticketId, round)?.merged) return "landed";
+  if (selectTicketReport(ctx, ticketId, round)) return "report";
+  // From round 2 on, the review-fix or rework that opened the round ranks below its tests
+  if ((Object.keys(CODE_REVIEWER_SLOTS) as CodeReviewerSlot[]).some((slot) =>
+    ctx.latest(CODE_REVIEWER_SLOTS[slot].output, codeReviewNodeId(ticketId, slot, round)))) return "code_review";
+  if (selectSpecReview(ctx, ticketId, round)) return "spec_review";
+  if (ctx.latest("build_verify", reviewRoundNodeId(`${ticketId}:build-verify`, round))) return "build_verify";
+  if (ctx.latest("test_results", reviewRoundNodeId(`${ticketId}:test`, round))) return "test";
+  if (ctx.latest("implement", reviewRoundNodeId(`${ticketId}:implement`, round))) return "implement";
+  if (round > 1) return "review_fix";
   if (ctx.latest("plan", `${ticketId}:plan`)) return "plan";
   if (ctx.latest("research", `${ticketId}:research`)) return "research";
   return "not_started";
 }
+
+export type AgentUsageRow = {
+  jobId: string;
+  ticketId: string | null;
+  stage: string;
+  agentId: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+};
+
+export type UsageTotals = { costUsd: number; totalTokens: number; calls: number };
+
+export function selectAgentUsage(ctx: SmithersCtx<RalphOutputs>): AgentUsageRow[] {
+  return ((ctx.outputs("agent_usage") as AgentUsageRow[] | undefined) ?? []).filter(Boolean);
+}
+
+function groupUsage(rows: AgentUsageRow[], keyOf: (row: AgentUsageRow) => string | null): Record<string, UsageTotals> {
+  const totals: Record<string, UsageTotals> = {};
+  for (const row of rows) {
+    const key = keyOf(row);
+    if (key === null) continue;
+    const entry = (totals[key] ??= { costUsd: 0, totalTokens: 0, calls: 0 });
+    entry.costUsd += row.costUsd ?? 0;
+    entry.totalTokens += row.totalTokens ?? 0;
+    entry.calls += row.calls ?? 0;
+  }
+  return totals;
+}
+
+/** Usage per ticket; global jobs (discovery, reviews, progress) are left out */
+export function selectCostByTicket(ctx: SmithersCtx<RalphOutputs>): Record<string, UsageTotals> {
+  return groupUsage(selectAgentUsage(ctx), (row) => row.ticketId);
+}
+
+/** Usage per pipeline stage or global job type, e.g. "implement", "discovery" */
+export function selectCostByStage(ctx: SmithersCtx<RalphOutputs>): Record<string, UsageTotals> {
+  return groupUsage(selectAgentUsage(ctx), (row) => row.stage);
+}
+
+export function selectCostByAgent(ctx: SmithersCtx<RalphOutputs>): Record<string, UsageTotals> {
+  return groupUsage(selectAgentUsage(ctx), (row) => row.agentId);
+}
+
+export function selectRunSpendUsd(ctx: SmithersCtx<RalphOutputs>): number {
+  return selectAgentUsage(ctx).reduce((sum, row) => sum + (row.costUsd ?? 0), 0);
+}
@@ -0,0 +1,60 @@
+import { spawn } from "node:child_process";
+
+/**
+ * Runs a configured command (test suite, build step) in a worktree through a login
+ * shell, the way a developer would type it.
+ */
+
+export type ShellCommandRun = {
+  /** null when the command was stopped at its time limit */
+  exitCode: number | null;
+  /** Combined stdout and stderr, keeping the tail when it gets too long */
+  output: string;
+  durationMs: number;
+  timedOut: boolean;
+};
+
+const MAX_OUTPUT_CHARS = 5_000_000;
+
+export async function runShellCommand(
+  command: string,
+  cwd: string,
+  timeoutMs: number,
+  env?: Record<string, string>,
+): Promise<ShellCommandRun> {
+  const startedAt = Date.now();
+  return await new Promise<ShellCommandRun>((resolve) => {
+    // Own process group, so a timeout also stops whatever the command started
+    const child = spawn("bash", ["-lc", command], {
+      cwd,
+      env: env ? { ...process.env, ...env } : undefined,
+      stdio: ["ignore", "pipe", "pipe"],
+      detached: true,
+    });
+    let output = "";
+    let timedOut = false;
+    const append = (chunk: Buffer) => {
+      output += chunk.toString("utf8");
+      // Keep the tail: summaries and failures are printed last
+      if (output.length > MAX_OUTPUT_CHARS) output = output.slice(-MAX_OUTPUT_CHARS);
+    };
+    child.stdout?.on("data", append);
+    child.stderr?.on("data", append);
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        if (child.pid) process.kill(-child.pid, "SIGKILL");
+      } catch {
+        child.kill("SIGKILL");
+      }
+    }, timeoutMs);
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      resolve({ exitCode: 127, output: `${output}\n${err.message}`, durationMs: Date.now() - startedAt, timedOut });
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      resolve({ exitCode: timedOut ? null : code ?? 1, output, durationMs: Date.now() - startedAt, timedOut });
+    });
+  });
+}
@@ -0,0 +1,405 @@
+import { spawn } from "node:child_process";
+import { existsSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { pipelineStageIndex } from "./durability";
+import { stripReviewRound } from "./reviewLoop";
+import {
+  openWorkflowDb,
+  readOutputRows,
+  readRunStatus,
+  readTicketPipelines,
+  runStartedAtMs,
+} from "./workflowDb";
+
+/**
+ * Periodic Markdown status reports for a run, written by the CLI next to the workflow.
+ * Each report covers what changed since the previous one: tickets that advanced, landed or
+ * were evicted, new commits on the main branch with their diffstat, tickets stalled in one
+ * stage, and throughput.
+ *
+ * Output rows carry no timestamps, so changes are found by comparing against the state the
+ * previous report saw. That state is kept next to the reports, per run, so a resumed run
+ * picks up where its last report left off. How long a ticket has been in its stage counts
+ * from the first report that saw it there.
+ */
+
+export const DEFAULT_REPORT_INTERVAL_MINUTES = 5;
+const DEFAULT_STALL_AFTER_MINUTES = 30;
+const MAX_COMMITS = 50;
+const MAX_DIFFSTAT_LINES = 60;
+
+export type StatusReportOptions = {
+  dbPath: string;
+  runId: string;
+  repoRoot: string;
+  vcs: "jj" | "git";
+  mainBranch?: string;
+  /** Defaults to `.super-ralph/reports` under the repo root */
+  reportsDir?: string;
+  /** A ticket in the same stage this long is reported as stalled (default 30) */
+  stallAfterMinutes?: number;
+};
+
+/** What a report saw, for the next one to compare against */
+export type StatusReportState = {
+  runId: string;
+  generatedAtMs: number;
+  tickets: Record<string, { stage: string; reviewRound: number; sinceMs: number }>;
+  /** Evicted land attempts per ticket */
+  evictions: Record<string, number>;
+  mainHead: string | null;
+};
+
+export type MainCommit = {
+  id: string;
+  author: string;
+  subject: string;
+  /** e.g. "3 files changed, 40 insertions(+), 2 deletions(-)" */
+  stat: string;
+};
+
+export type StatusReport = {
+  runId: string;
+  generatedAtMs: number;
+  /** When the previous report was written; null for the run's first */
+  sinceMs: number | null;
+  advanced: Array<{ ticketId: string; title: string; from: string; to: string; reviewRound: number }>;
+  landed: Array<{ ticketId: string; title: string }>;
+  evicted: Array<{ ticketId: string; title: string; reason: string | null; details: string | null }>;
+  stalled: Array<{ ticketId: string; title: string; stage: string; sinceMs: number; activeJob: string | null }>;
+  commits: MainCommit[];
+  /** `--stat` of main since the previous report; null without a previous head */
+  diffStat: string | null;
+  throughput: {
+    ticketCount: number;
+    landedCount: number;
+    landedPerHour: number | null;
+    activeJobs: number;
+    spendUsd: number;
+    stageCounts: Record<string, number>;
+  };
+};
+
+type CommandResult = { code: number; stdout: string; stderr: string };
+
+async function runProcess(file: string, args: string[], cwd: string): Promise<CommandResult> {
+  return await new Promise<CommandResult>((resolve) => {
+    const child = spawn(file, args, { cwd, stdio: ["ignore", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
+    child.stdout?.on("data", (chunk: Buffer) => {
+      stdout += chunk.toString("utf8");
+    });
+    child.stderr?.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString("utf8");
+    });
+    child.on("error", (err) => resolve({ code: 127, stdout, stderr: err.message }));
+    child.on("close", (code) => resolve({ code: code ?? 1, stdout, stderr }));
+  });
+}
+
+function capLines(text: string, max: number): string {
+  const lines = text.trimEnd().split("\n");
+  return lines.length <= max ? lines.join("\n") : [...lines.slice(0, max), `… ${lines.length - max} more lines`].join("\n");
+}
+
+async function readMainHead(repoRoot: string, vcs: "jj" | "git", mainBranch: string): Promise<string | null> {
+  const res = vcs === "jj"
+    ? await runProcess("jj", ["log", "-r", mainBranch, "--no-graph", "-T", "commit_id"], repoRoot)
+    : await runProcess("git", ["rev-parse", "--verify", "--quiet", `${mainBranch}^{commit}`], repoRoot);
+  const head = res.stdout.trim();
+  return res.code === 0 && head ? head : null;
+}
+
+/**
+ * Commits on main after `fromHead`, oldest first. Without one (the run's first report),
+ * commits made since the run started.
+ */
+async function readMainCommits(
+  repoRoot: string,
+  vcs: "jj" | "git",
+  mainBranch: string,
+  fromHead: string | null,
+  sinceMs: number | null,
+): Promise<MainCommit[]> {
+  if (!fromHead && sinceMs === null) return [];
+  let lines: string[];
+  const stats = new Map<string, string>();
+  if (vcs === "jj") {
+    const revset = fromHead
+      ? `${fromHead}..${mainBranch}`
+      : `::${mainBranch} & committer_date(after:"${new Date(sinceMs!).toISOString()}")`;
+    const res = await runProcess("jj", [
+      "log", "-r", revset, "--reversed", "--no-graph", "--limit", String(MAX_COMMITS),
+      "-T", 'commit_id.short(12) ++ "\\t" ++ author.name() ++ "\\t" ++ description.first_line() ++ "\\n"',
+    ], repoRoot);
+    if (res.code !== 0) return [];
+    lines = res.stdout.split("\n").filter(Boolean);
+    for (const line of lines) {
+      const id = line.split("\t")[0]!;
+      const stat = await runProcess("jj", ["diff", "-r", id, "--stat"], repoRoot);
+      stats.set(id, stat.stdout.trimEnd().split("\n").pop()?.trim() ?? "");
+    }
+  } else {
+    const range = fromHead ? [`${fromHead}..${mainBranch}`] : [`--since=@${Math.floor(sinceMs! / 1000)}`, mainBranch];
+    const res = await runProcess("git", [
+      "log", "--reverse", `--max-count=${MAX_COMMITS}`, "--format=%x1e%h%x09%an%x09%s", "--shortstat", ...range,
+    ], repoRoot);
+    if (res.code !== 0) return [];
+    lines = [];
+    for (const entry of res.stdout.split("\x1e").filter((e) => e.trim())) {
+      const [header, ...rest] = entry.trim().split("\n");
+      lines.push(header!);
+      stats.set(header!.split("\t")[0]!, rest.join(" ").trim());
+    }
+  }
+  return lines.map((line) => {
+    const [id = "", author = "", ...subject] = line.split("\t");
+    return { id, author, subject: subject.join("\t"), stat: stats.get(id) ?? "" };
+  });
+}
+
+async function readMainDiffStat(repoRoot: string, vcs: "jj" | "git", mainBranch: string, fromHead: string, toHead: string): Promise<string | null> {
+  if (fromHead === toHead) return null;
+  const res = vcs === "jj"
+    ? await runProcess("jj", ["diff", "--from", fromHead, "--to", mainBranch, "--stat"], repoRoot)
+    : await runProcess("git", ["diff", "--stat", fromHead, toHead], repoRoot);
+  return res.code === 0 && res.stdout.trim() ? capLines(res.stdout, MAX_DIFFSTAT_LINES) : null;
+}
+
+function statePath(reportsDir: string, runId: string): string {
+  return join(reportsDir, `.state-${runId}.json`);
+}
+
+export async function loadStatusReportState(reportsDir: string, runId: string): Promise<StatusReportState | null> {
+  try {
+    return JSON.parse(await readFile(statePath(reportsDir, runId), "utf8")) as StatusReportState;
+  } catch {
+    return null;
+  }
+}
+
+function readRunProgress(dbPath: string, runId: string) {
+  const db = openWorkflowDb(dbPath);
+  try {
+    return {
+      pipelines: readTicketPipelines(db, runId),
+      status: readRunStatus(db, runId),
+      landRows: readOutputRows(db, "land", { runId }),
+    };
+  } finally {
+    db.close();
+  }
+}
+
+/** Compare the run as it is now with what the previous report saw */
+export async function collectStatusReport(
+  options: StatusReportOptions,
+  previous: StatusReportState | null,
+): Promise<{ report: StatusReport; state: StatusReportState }> {
+  const { runId, repoRoot, vcs } = options;
+  const mainBranch = options.mainBranch ?? "main";
+  const now = Date.now();
+  const stallAfterMs = (options.stallAfterMinutes ?? DEFAULT_STALL_AFTER_MINUTES) * 60_000;
+
+  const { pipelines, status, landRows } = readRunProgress(options.dbPath, runId);
+
+  const state: StatusReportState = { runId, generatedAtMs: now, tickets: {}, evictions: {}, mainHead: null };
+  const report: StatusReport = {
+    runId,
+    generatedAtMs: now,
+    sinceMs: previous?.generatedAtMs ?? null,
+    advanced: [],
+    landed: [],
+    evicted: [],
+    stalled: [],
+    commits: [],
+    diffStat: null,
+    throughput: {
+      ticketCount: pipelines.length,
+      landedCount: status.landedCount,
+      landedPerHour: null,
+      activeJobs: status.activeJobs.length,
+      spendUsd: status.spendUsd,
+      stageCounts: status.stageCounts,
+    },
+  };
+
+  for (const t of pipelines) {
+    const id = t.ticket.id;
+    const before = previous?.tickets[id];
+    const moved = !before || before.stage !== t.stage || before.reviewRound !== t.reviewRound;
+    state.tickets[id] = { stage: t.stage, reviewRound: t.reviewRound, sinceMs: moved ? now : before.sinceMs };
+    if (!moved) {
+      // Backlog tickets nothing has picked up yet are waiting, not stalled
+      const started = t.stage !== "not_started" || t.activeJob !== null;
+      if (started && !t.landed && t.lifecycle === "active" && now - before.sinceMs >= stallAfterMs) {
+        report.stalled.push({
+          ticketId: id, title: t.ticket.title, stage: t.stage, sinceMs: before.sinceMs,
+          activeJob: t.activeJob ? `${t.activeJob.jobId} on ${t.activeJob.agentId}` : null,
+        });
+      }
+      continue;
+    }
+    if (t.landed) {
+      report.landed.push({ ticketId: id, title: t.ticket.title });
+    } else if (t.stage !== "not_started") {
+      report.advanced.push({ ticketId: id, title: t.ticket.title, from: before?.stage ?? "not_started", to: t.stage, reviewRound: t.reviewRound });
+    }
+  }
+  const byRank = (a: { to: string }, b: { to: string }) => pipelineStageIndex(b.to) - pipelineStageIndex(a.to);
+  report.advanced.sort(byRank);
+
+  const titles = new Map(pipelines.map((t) => [t.ticket.id, t.ticket.title]));
+  for (const row of landRows) {
+    if (!row.values.evicted) continue;
+    const ticketId = stripReviewRound(row.nodeId).replace(/:land$/, "");
+    const seen = (state.evictions[ticketId] ?? 0) + 1;
+    state.evictions[ticketId] = seen;
+    if (seen <= (previous?.evictions[ticketId] ?? 0)) continue;
+    report.evicted.push({
+      ticketId,
+      title: titles.get(ticketId) ?? ticketId,
+      reason: typeof row.values.evictionReason === "string" ? row.values.evictionReason : null,
+      details: typeof row.values.evictionDetails === "string" ? row.values.evictionDetails : null,
+    });
+  }
+
+  const startedAtMs = runStartedAtMs(runId);
+  if (startedAtMs !== null && now > startedAtMs) {
+    report.throughput.landedPerHour = status.landedCount / ((now - startedAtMs) / 3_600_000);
+  }
+
+  state.mainHead = await readMainHead(repoRoot, vcs, mainBranch);
+  if (state.mainHead) {
+    const fromHead = previous?.mainHead ?? null;
+    if (fromHead !== state.mainHead) {
+      report.commits = await readMainCommits(repoRoot, vcs, mainBranch, fromHead, fromHead ? null : startedAtMs);
+      report.diffStat = fromHead ? await readMainDiffStat(repoRoot, vcs, mainBranch, fromHead, state.mainHead) : null;
+    }
+  }
+  return { report, state };
+}
+
+/** Nothing moved and nothing is stuck: not worth a report */
+export function isQuietReport(report: StatusReport): boolean {
+  return report.sinceMs !== null && report.advanced.length === 0 && report.landed.length === 0 &&
+    report.evicted.length === 0 && report.stalled.length === 0 && report.commits.length === 0;
+}
+
+function formatTime(ms: number): string {
+  return new Date(ms).toISOString().replace("T", " ").replace(/\.\d+Z$/, " UTC");
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? `${hours} h ${minutes % 60} min` : `${hours} h`;
+}
+
+function section(title: string, items: string[]): string[] {
+  return [`## ${title} (${items.length})`, "", ...(items.length > 0 ? items : ["None."]), ""];
+}
+
+export function renderStatusReport(report: StatusReport): string {
+  const { throughput } = report;
+  const period = report.sinceMs !== null
+    ? `since the previous report (${formatTime(report.sinceMs)}, ${formatDuration(report.generatedAtMs - report.sinceMs)} ago)`
+    : "since the run started";
+  const stages = Object.entries(throughput.stageCounts)
+    .sort(([a], [b]) => pipelineStageIndex(a === "landed" ? "land" : a) - pipelineStageIndex(b === "landed" ? "land" : b))
+    .map(([stage, n]) => `${stage} ${n}`)
+    .join(", ");
+
+  const lines = [
+    `# Status report: ${report.runId}`,
+    "",
+    `${formatTime(report.generatedAtMs)}, covering changes ${period}.`,
+    "",
+    "## Throughput",
+    "",
+    `- Landed: ${report.landed.length} in this period, ${throughput.landedCount} of ${throughput.ticketCount} tickets overall` +
+      (throughput.landedPerHour !== null ? ` (${throughput.landedPerHour.toFixed(2)} per hour)` : ""),
+    `- Stage changes in this period: ${report.advanced.length + report.landed.length}`,
+    `- Active jobs: ${throughput.activeJobs}`,
+    `- Spend: $${throughput.spendUsd.toFixed(2)}`,
+    `- Tickets by stage: ${stages || "none yet"}`,
+    "",
+    ...section("Advanced", report.advanced.map((t) =>
+      `- ${t.ticketId} ${t.title}: ${t.from} → ${t.to}${t.reviewRound > 1 ? ` (review round ${t.reviewRound})` : ""}`)),
+    ...section("Landed", report.landed.map((t) => `- ${t.ticketId} ${t.title}`)),
+    ...section("Evicted", report.evicted.map((t) => {
+      const details = t.details?.trim().split("\n")[0];
+      return `- ${t.ticketId} ${t.title}: ${t.reason ?? "unknown reason"}${details ? `. ${details}` : ""}`;
+    })),
+    ...section("New commits on main", report.commits.map((c) =>
+      `- \`${c.id}\` ${c.subject} (${c.author})${c.stat ? `: ${c.stat}` : ""}`)),
+  ];
+  if (report.diffStat) lines.push("```", report.diffStat, "```", "");
+  lines.push(...section("Stalled", report.stalled.map((t) =>
+    `- ${t.ticketId} ${t.title}: in ${t.stage} for ${formatDuration(report.generatedAtMs - t.sinceMs)}${t.activeJob ? `, running ${t.activeJob}` : ", nothing running"}`)));
+  return `${lines.join("\n").trimEnd()}\n`;
+}
+
+export type StatusReporter = {
+  reportsDir: string;
+  /** Write a report now; returns its path, or null when it was skipped */
+  writeReport(): Promise<string | null>;
+  /** Stop the timer and write a last report */
+  stop(): Promise<void>;
+};
+
+/**
+ * Write a report every `intervalMinutes` (any positive number, fractions included),
+ * skipping quiet periods. Failures (DB not created yet, VCS errors) are warned about
+ * once and retried at the next interval.
+ */
+export function startStatusReporter(options: StatusReportOptions & { intervalMinutes: number }): StatusReporter {
+  if (!(options.intervalMinutes > 0)) {
+    throw new Error(`Status report interval must be a positive number of minutes, got ${options.intervalMinutes}.`);
+  }
+  const reportsDir = options.reportsDir ?? join(options.repoRoot, ".super-ralph", "reports");
+  let previous: Promise<StatusReportState | null> | null = null;
+  let running: Promise<string | null> | null = null;
+  let warned = false;
+
+  const write = async (): Promise<string | null> => {
+    if (!existsSync(options.dbPath)) return null;
+    previous ??= loadStatusReportState(reportsDir, options.runId);
+    const { report, state } = await collectStatusReport({ ...options, reportsDir }, await previous);
+    if (isQuietReport(report)) return null;
+    await mkdir(reportsDir, { recursive: true });
+    const path = join(reportsDir, `${new Date(report.generatedAtMs).toISOString().replace(/\.\d+Z$/, "Z").replace(/:/g, "-")}.md`);
+    await writeFile(path, renderStatusReport(report), "utf8");
+    await writeFile(statePath(reportsDir, options.runId), `${JSON.stringify(state)}\n`, "utf8");
+    previous = Promise.resolve(state);
+    return path;
+  };
+
+  const writeReport = () => {
+    // One report at a time; a tick that lands mid-report shares it
+    running ??= write()
+      .catch((err) => {
+        if (!warned) console.warn(`⚠️  Status report failed: ${err instanceof Error ? err.message : String(err)}`);
+        warned = true;
+        return null;
+      })
+      .finally(() => {
+        running = null;
+      });
+    return running;
+  };
+
+  const timer = setInterval(writeReport, options.intervalMinutes * 60_000);
+  return {
+    reportsDir,
+    writeReport,
+    async stop() {
+      clearInterval(timer);
+      await running;
+      await writeReport();
+    },
+  };
+}
@@ -0,0 +1,203 @@
+import { describe, expect, test } from "bun:test";
+import { ralphOutputSchemas } from "../schemas";
+import {
+  TEST_REPORT_FORMATS,
+  parseBunTest,
+  parseCargoTest,
+  parseGoTestJson,
+  parseGoTestText,
+  parseJestOutput,
+  parseJUnitXml,
+  parsePytest,
+  parseTap,
+  parseTestOutput,
+  type TestReportFormat,
+} from "./parsers";
+
+// One run per format: "adds" passes, "divides" fails, "later" is skipped (go has no skip here)
+const SAMPLES: Record<TestReportFormat, string> = {
+  junit: `<?xml version="1.0"?>
+<testsuite name="math">
+  <testcase classname="math" name="adds" time="0.5"/>
+  <testcase classname="math" name="divides" time="0.01"><failure message="expected 2 &amp; got 3">stack</failure></testcase>
+  <testcase classname="math" name="later"><skipped message="not yet"/></testcase>
+</testsuite>`,
+  tap: `TAP version 13
+ok 1 - adds
+not ok 2 - divides
+  ---
+  message: 'expected 2'
+  ...
+ok 3 - later # SKIP not yet
+1..3`,
+  bun: `src/math.test.ts:
+(pass) math > adds [0.12ms]
+error: expected 2
+(fail) math > divides [1.00ms]
+(skip) math > later
+
+ 1 pass
+ 1 skip
+ 1 fail`,
+  jest: `PASS src/math.test.js
+  math
+    ✓ adds (3 ms)
+    ✕ divides (2 ms)
+    ○ skipped later
+
+  ● math › divides
+
+    expect(received).toBe(expected)
+
+Tests:       1 failed, 1 skipped, 1 passed, 3 total`,
+  vitest: ` ✓ src/math.test.ts > math > adds 1ms
+ × src/math.test.ts > math > divides 2ms
+ ↓ src/math.test.ts > math > later
+
+ FAIL  src/math.test.ts > math > divides
+AssertionError: expected 2 to be 3
+
+ Test Files  1 failed (1)
+      Tests  1 failed | 1 passed | 1 skipped (3)`,
+  pytest: `tests/test_math.py::test_adds PASSED                                     [ 33%]
+tests/test_math.py::test_divides FAILED                                  [ 66%]
+tests/test_math.py::test_later SKIPPED (not yet)                         [100%]
+
+=========================== short test summary info ============================
+FAILED tests/test_math.py::test_divides - assert 2 == 3
+==================== 1 failed, 1 passed, 1 skipped in 0.05s ====================`,
+  go: `{"Action":"run","Package":"example.com/math","Test":"TestAdds"}
+{"Action":"pass","Package":"example.com/math","Test":"TestAdds","Elapsed":0.01}
+{"Action":"output","Package":"example.com/math","Test":"TestDivides","Output":"=== RUN   TestDivides\\n"}
+{"Action":"output","Package":"example.com/math","Test":"TestDivides","Output":"    math_test.go:12: expected 2\\n"}
+{"Action":"fail","Package":"example.com/math","Test":"TestDivides","Elapsed":0}`,
+  cargo: `running 3 tests
+test math::adds ... ok
+test math::divides ... FAILED
+test math::later ... ignored
+
+failures:
+
+---- math::divides stdout ----
+thread 'math::divides' panicked at src/lib.rs:10:5:
+assertion failed
+
+failures:
+    math::divides`,
+};
+
+describe("parsers", () => {
+  test("parseJUnitXml reads status, duration and the decoded failure message", () => {
+    expect(parseJUnitXml(SAMPLES.junit)).toEqual([
+      { name: "math: adds", status: "passed", durationMs: 500, message: null },
+      { name: "math: divides", status: "failed", durationMs: 10, message: "expected 2 & got 3" },
+      { name: "math: later", status: "skipped", durationMs: null, message: "not yet" },
+    ]);
+  });
+
+  test("parseTap takes failure messages from the YAML block and skips from the directive", () => {
+    expect(parseTap(SAMPLES.tap)).toEqual([
+      { name: "adds", status: "passed", durationMs: null, message: null },
+      { name: "divides", status: "failed", durationMs: null, message: "expected 2" },
+      { name: "later", status: "skipped", durationMs: null, message: "not yet" },
+    ]);
+  });
+
+  test("parseBunTest attaches the error printed above a failed test", () => {
+    expect(parseBunTest(SAMPLES.bun)).toEqual([
+      { name: "math > adds", status: "passed", durationMs: 0, message: null },
+      { name: "math > divides", status: "failed", durationMs: 1, message: "expected 2" },
+      { name: "math > later", status: "skipped", durationMs: null, message: null },
+    ]);
+  });
+
+  test("parseJestOutput matches Jest failure blocks to their tests", () => {
+    expect(parseJestOutput(SAMPLES.jest)).toEqual([
+      { name: "adds", status: "passed", durationMs: 3, message: null },
+      { name: "divides", status: "failed", durationMs: 2, message: "expect(received).toBe(expected)" },
+      { name: "later", status: "skipped", durationMs: null, message: null },
+    ]);
+  });
+
+  test("parseJestOutput reads Vitest lines and skips whole-file marks", () => {
+    const output = ` ✓ src/other.test.ts (2 tests) 3ms\n${SAMPLES.vitest}`;
+    expect(parseJestOutput(output)).toEqual([
+      { name: "src/math.test.ts > math > adds", status: "passed", durationMs: 1, message: null },
+      { name: "src/math.test.ts > math > divides", status: "failed", durationMs: 2, message: "AssertionError: expected 2 to be 3" },
+      { name: "src/math.test.ts > math > later", status: "skipped", durationMs: null, message: null },
+    ]);
+  });
+
+  test("parseJestOutput falls back to failure blocks without per-test lines", () => {
+    expect(parseJestOutput("  ● math › divides\n\n    expected 2\n")).toEqual([
+      { name: "math › divides", status: "failed", durationMs: null, message: "expected 2" },
+    ]);
+  });
+
+  test("parsePytest merges verbose lines with the short summary", () => {
+    expect(parsePytest(SAMPLES.pytest)).toEqual([
+      { name: "tests/test_math.py::test_adds", status: "passed", durationMs: null, message: null },
+      { name: "tests/test_math.py::test_divides", status: "failed", durationMs: null, message: "assert 2 == 3" },
+      { name: "tests/test_math.py::test_later", status: "skipped", durationMs: null, message: "not yet" },
+    ]);
+    expect(parsePytest("FAILED tests/test_math.py::test_divides - assert 2 == 3")).toEqual([
+      { name: "tests/test_math.py::test_divides", status: "failed", durationMs: null, message: "assert 2 == 3" },
+    ]);
+  });
+
+  test("parseGoTestJson skips go's own banners when picking the failure message", () => {
+    expect(parseGoTestJson(SAMPLES.go)).toEqual([
+      { name: "example.com/math: TestAdds", status: "passed", durationMs: 10, message: null },
+      { name: "example.com/math: TestDivides", status: "failed", durationMs: 0, message: "math_test.go:12: expected 2" },
+    ]);
+  });
+
+  test("parseGoTestText reads go test -v results", () => {
+    expect(parseGoTestText("=== RUN   TestAdds\n--- PASS: TestAdds (0.01s)\n--- FAIL: TestDivides (0.00s)\nFAIL")).toEqual([
+      { name: "TestAdds", status: "passed", durationMs: 10, message: null },
+      { name: "TestDivides", status: "failed", durationMs: 0, message: null },
+    ]);
+  });
+
+  test("parseCargoTest takes the failure message from the test's stdout section", () => {
+    expect(parseCargoTest(SAMPLES.cargo)).toEqual([
+      { name: "math::adds", status: "passed", durationMs: null, message: null },
+      { name: "math::divides", status: "failed", durationMs: null, message: "thread 'math::divides' panicked at src/lib.rs:10:5:" },
+      { name: "math::later", status: "skipped", durationMs: null, message: null },
+    ]);
+  });
+});
+
+describe("parseTestOutput", () => {
+  test("has a sample for every format it reports", () => {
+    expect(Object.keys(SAMPLES).sort()).toEqual([...TEST_REPORT_FORMATS].sort());
+  });
+
+  for (const format of TEST_REPORT_FORMATS) {
+    test(`detects ${format} output`, () => {
+      const report = parseTestOutput(SAMPLES[format]);
+      expect(report.format).toBe(format);
+      expect(report.tests.some((t) => t.status === "failed")).toBe(true);
+    });
+  }
+
+  test("prefers a JUnit report file over the printed output", () => {
+    expect(parseTestOutput(SAMPLES.bun, SAMPLES.junit)).toMatchObject({ format: "junit", tests: [{ name: "math: adds" }, {}, {}] });
+  });
+
+  test("reports no format for output it can't read", () => {
+    expect(parseTestOutput("Build finished\nDone in 2s")).toEqual({ format: null, tests: [] });
+  });
+
+  test("every format round-trips through the test_results schema", () => {
+    for (const format of TEST_REPORT_FORMATS) {
+      const report = parseTestOutput(SAMPLES[format]);
+      const results = {
+        suites: [{ name: format, command: `run ${format}`, passed: false, durationMs: 20, failures: ["divides"], exitCode: 1, format: report.format, tests: report.tests }],
+        failingSummary: `${format}: divides`,
+        fixAttempts: 0,
+      };
+      expect(ralphOutputSchemas.test_results.parse(results)).toEqual(results);
+    }
+  });
+});
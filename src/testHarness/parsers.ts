@@ -0,0 +1,285 @@
+/**
+ * Parsers that turn test runner output into per-test results.
+ * Supports JUnit XML, TAP, `bun test`, Jest, Vitest, pytest, `go test` (plain and -json)
+ * and `cargo test`.
+ * Output that matches none of them yields no per-test results; the suite then passes
+ * or fails on its exit code alone.
+ */
+
+export type TestCaseStatus = "passed" | "failed" | "skipped";
+
+export type TestCaseResult = {
+  name: string;
+  status: TestCaseStatus;
+  durationMs: number | null;
+  /** First line of the failure or skip reason, when the runner gives one */
+  message: string | null;
+};
+
+/** Formats `parseTestOutput` recognizes; the `test_results` schema takes its enum from this list */
+export const TEST_REPORT_FORMATS = ["junit", "tap", "bun", "jest", "vitest", "pytest", "go", "cargo"] as const;
+
+export type TestReportFormat = (typeof TEST_REPORT_FORMATS)[number];
+
+export type ParsedTestReport = {
+  format: TestReportFormat | null;
+  tests: TestCaseResult[];
+};
+
+const XML_ENTITIES: Record<string, string> = { "&lt;": "<", "&gt;": ">", "&amp;": "&", "&quot;": "\"", "&apos;": "'" };
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&(?:lt|gt|amp|quot|apos);/g, (e) => XML_ENTITIES[e] ?? e)
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)));
+}
+
+function xmlAttr(attrs: string, name: string): string | null {
+  const match = attrs.match(new RegExp(`\\b${name}="([^"]*)"`)) ?? attrs.match(new RegExp(`\\b${name}='([^']*)'`));
+  return match ? decodeXml(match[1]!) : null;
+}
+
+function firstLine(text: string | null | undefined): string | null {
+  const line = text?.split("\n").map((l) => l.trim()).find(Boolean);
+  return line ? line.slice(0, 300) : null;
+}
+
+function toMs(value: string | undefined, unit: string | undefined = "s"): number | null {
+  if (value === undefined) return null;
+  const n = Number(value);
+  if (!Number.isFinite(n)) return null;
+  return Math.round(unit === "ms" ? n : n * 1000);
+}
+
+export function parseJUnitXml(xml: string): TestCaseResult[] {
+  const tests: TestCaseResult[] = [];
+  for (const [, attrs = "", body = ""] of xml.matchAll(/<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g)) {
+    const name = xmlAttr(attrs, "name") ?? "(unnamed)";
+    const classname = xmlAttr(attrs, "classname");
+    const failure = body.match(/<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/);
+    const skipped = body.match(/<skipped\b([^>]*?)(?:\/>|>([\s\S]*?)<\/skipped>)/);
+    tests.push({
+      name: classname ? `${classname}: ${name}` : name,
+      status: failure ? "failed" : skipped ? "skipped" : "passed",
+      durationMs: toMs(xmlAttr(attrs, "time") ?? undefined),
+      message: failure
+        ? firstLine(xmlAttr(failure[2] ?? "", "message") ?? decodeXml(failure[3] ?? ""))
+        : skipped ? firstLine(xmlAttr(skipped[1] ?? "", "message")) : null,
+    });
+  }
+  return tests;
+}
+
+export function parseTap(output: string): TestCaseResult[] {
+  const tests: TestCaseResult[] = [];
+  let current: TestCaseResult | null = null;
+  for (const line of output.split("\n")) {
+    const match = line.match(/^\s*(not )?ok\b(?:\s+\d+)?(?:\s*-)?\s*([^#]*?)\s*(?:#\s*(skip|todo)\b\s*(.*))?$/i);
+    if (match) {
+      const directive = match[3]?.toLowerCase();
+      current = {
+        name: match[2] || "(unnamed)",
+        status: directive ? "skipped" : match[1] ? "failed" : "passed",
+        durationMs: null,
+        message: directive ? firstLine(match[4]) : null,
+      };
+      tests.push(current);
+      continue;
+    }
+    // YAML diagnostics under a failed test: take its message
+    const message = line.match(/^\s+message:\s*['"]?(.*?)['"]?\s*$/);
+    if (message && current?.status === "failed" && !current.message) current.message = firstLine(message[1]);
+  }
+  return tests;
+}
+
+export function parseBunTest(output: string): TestCaseResult[] {
+  const tests: TestCaseResult[] = [];
+  const statuses: Record<string, TestCaseStatus> = {
+    pass: "passed", "✓": "passed", "✔": "passed",
+    fail: "failed", "✗": "failed", "✘": "failed",
+    skip: "skipped", todo: "skipped", "»": "skipped",
+  };
+  let lastError: string | null = null;
+  for (const line of output.split("\n")) {
+    // bun prints a failing test's error above its "(fail)" line
+    const error = line.match(/^\s*(?:error|Error|AssertionError|TypeError)\b:?\s*(.+)$/);
+    if (error) lastError = error[1]!;
+    const match = line.match(/^\s*(?:\((pass|fail|skip|todo)\)|(✓|✔|✗|✘|»))\s+(.+?)(?:\s+\[([\d.]+)(ms|s)\])?\s*$/);
+    if (!match) continue;
+    const status = statuses[match[1] ?? match[2]!]!;
+    tests.push({
+      name: match[3]!,
+      status,
+      durationMs: toMs(match[4], match[5]),
+      message: status === "failed" ? firstLine(lastError) : null,
+    });
+    lastError = null;
+  }
+  return tests;
+}
+
+/**
+ * Jest and Vitest per-test lines (Jest's with --verbose, Vitest's for failed files or the
+ * verbose reporter). Failure details come from the "● Suite › test" (Jest) or
+ * "FAIL  file > Suite > test" (Vitest) blocks printed after them.
+ */
+export function parseJestOutput(output: string): TestCaseResult[] {
+  const statuses: Record<string, TestCaseStatus> = {
+    "✓": "passed", "√": "passed",
+    "✕": "failed", "×": "failed",
+    "○": "skipped", "↓": "skipped", "✎": "skipped",
+  };
+  const tests: TestCaseResult[] = [];
+  const failures = new Map<string, string | null>();
+  let failureHeader: string | null = null;
+  for (const line of output.split("\n")) {
+    const header = line.match(/^\s*(?:●|FAIL)\s+(.+?)\s*$/);
+    if (header && (header[1]!.includes(" › ") || header[1]!.includes(" > "))) {
+      failureHeader = header[1]!;
+      failures.set(failureHeader, null);
+      continue;
+    }
+    if (failureHeader && failures.get(failureHeader) === null && line.trim()) {
+      failures.set(failureHeader, firstLine(line));
+      continue;
+    }
+    const match = line.match(/^\s*(✓|√|✕|×|○|↓|✎)\s+(?:(?:skipped|todo)\s+)?(.+?)(?:\s+\(?([\d.]+)\s*(ms|s)\)?)?\s*$/);
+    // Vitest also marks whole files: "✓ src/a.test.ts (2 tests) 3ms"
+    if (!match || /\(\d+ tests?\b/.test(match[2]!)) continue;
+    tests.push({ name: match[2]!, status: statuses[match[1]!]!, durationMs: toMs(match[3], match[4]), message: null });
+  }
+  const unmatched = new Set(failures.keys());
+  for (const test of tests) {
+    if (test.status !== "failed") continue;
+    const header = [...failures.keys()].find((h) => h === test.name || h.endsWith(` › ${test.name}`) || h.endsWith(` > ${test.name}`));
+    if (!header) continue;
+    test.message = failures.get(header) ?? null;
+    unmatched.delete(header);
+  }
+  // Without per-test lines (Jest runs of several files), the failure blocks are all there is
+  for (const header of unmatched) {
+    tests.push({ name: header, status: "failed", durationMs: null, message: failures.get(header) ?? null });
+  }
+  return tests;
+}
+
+/**
+ * pytest output: per-test lines with -v, and the "short test summary info" lines, which
+ * name failures (with their message) even without -v
+ */
+export function parsePytest(output: string): TestCaseResult[] {
+  const statuses: Record<string, TestCaseStatus> = {
+    PASSED: "passed", XPASS: "passed",
+    FAILED: "failed", ERROR: "failed",
+    SKIPPED: "skipped", XFAIL: "skipped",
+  };
+  const tests = new Map<string, TestCaseResult>();
+  for (const line of output.split("\n")) {
+    const verbose = line.match(/^(\S+::.+?)\s+(PASSED|FAILED|ERROR|SKIPPED|XFAIL|XPASS)\b(?:\s+\((.*)\))?(?:\s+\[\s*\d+%\])?\s*$/);
+    if (verbose) {
+      tests.set(verbose[1]!, { name: verbose[1]!, status: statuses[verbose[2]!]!, durationMs: null, message: firstLine(verbose[3]) });
+      continue;
+    }
+    const summary = line.match(/^(FAILED|ERROR) (\S+::\S+)(?: - (.*))?$/);
+    if (summary) {
+      const test = tests.get(summary[2]!) ?? { name: summary[2]!, status: "failed" as const, durationMs: null, message: null };
+      test.message = firstLine(summary[3]);
+      tests.set(test.name, test);
+    }
+  }
+  return [...tests.values()];
+}
+
+/** `go test -json` event stream */
+export function parseGoTestJson(output: string): TestCaseResult[] {
+  const tests = new Map<string, TestCaseResult>();
+  const logs = new Map<string, string[]>();
+  for (const line of output.split("\n")) {
+    if (!line.startsWith("{")) continue;
+    let event: { Action?: string; Package?: string; Test?: string; Elapsed?: number; Output?: string };
+    try {
+      event = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (!event.Test) continue;
+    const key = event.Package ? `${event.Package}: ${event.Test}` : event.Test;
+    if (event.Action === "output" && event.Output) {
+      const lines = logs.get(key) ?? [];
+      lines.push(event.Output);
+      logs.set(key, lines);
+    }
+    if (event.Action === "pass" || event.Action === "fail" || event.Action === "skip") {
+      const status: TestCaseStatus = event.Action === "pass" ? "passed" : event.Action === "fail" ? "failed" : "skipped";
+      // The interesting line is the assertion output, not go's own "--- FAIL" banner
+      const detail = (logs.get(key) ?? []).map((l) => l.trim()).filter((l) => l && !/^(=== RUN|--- (FAIL|PASS|SKIP))/.test(l));
+      tests.set(key, {
+        name: key,
+        status,
+        durationMs: toMs(event.Elapsed?.toString()),
+        message: status === "passed" ? null : firstLine(detail[0]),
+      });
+    }
+  }
+  return [...tests.values()];
+}
+
+/** Plain `go test -v` output */
+export function parseGoTestText(output: string): TestCaseResult[] {
+  const tests: TestCaseResult[] = [];
+  for (const [, action, name, seconds] of output.matchAll(/^\s*--- (PASS|FAIL|SKIP): (\S+) \(([\d.]+)s\)/gm)) {
+    tests.push({
+      name: name!,
+      status: action === "PASS" ? "passed" : action === "FAIL" ? "failed" : "skipped",
+      durationMs: toMs(seconds),
+      message: null,
+    });
+  }
+  return tests;
+}
+
+export function parseCargoTest(output: string): TestCaseResult[] {
+  const tests: TestCaseResult[] = [];
+  for (const [, name, result] of output.matchAll(/^test (\S+) \.\.\. (ok|FAILED|ignored)\b/gm)) {
+    let message: string | null = null;
+    if (result === "FAILED") {
+      // Failure details follow a "---- <name> stdout ----" header
+      const section = output.split(`---- ${name} stdout ----`)[1];
+      message = firstLine(section?.split(/\n----|\nfailures:/)[0]);
+    }
+    tests.push({
+      name: name!,
+      status: result === "ok" ? "passed" : result === "FAILED" ? "failed" : "skipped",
+      durationMs: null,
+      message,
+    });
+  }
+  return tests;
+}
+
+/**
+ * Parse a runner's combined stdout/stderr. A JUnit report the command wrote to disk
+ * takes precedence over anything printed.
+ */
+export function parseTestOutput(output: string, junitReport?: string | null): ParsedTestReport {
+  const candidates: Array<[TestReportFormat, () => TestCaseResult[]]> = [
+    ["junit", () => parseJUnitXml(junitReport ?? "")],
+    ["junit", () => /<testsuites?\b/.test(output) ? parseJUnitXml(output) : []],
+    ["go", () => parseGoTestJson(output)],
+    ["tap", () => /^\s*(TAP version \d+|1\.\.\d+)\s*$/m.test(output) ? parseTap(output) : []],
+    ["cargo", () => parseCargoTest(output)],
+    ["go", () => parseGoTestText(output)],
+    // Jest and Vitest mark tests with the same ticks as bun; their summary lines tell them apart
+    ["jest", () => /^Tests:\s+.*\d+ total/m.test(output) ? parseJestOutput(output) : []],
+    ["vitest", () => /^\s*Tests\s+\d+ (passed|failed|skipped)/m.test(output) ? parseJestOutput(output) : []],
+    ["pytest", () => /^=+ .*\b(passed|failed|error|skipped)\b.* in [\d.]+s/m.test(output) ? parsePytest(output) : []],
+    ["bun", () => parseBunTest(output)],
+  ];
+  for (const [format, parse] of candidates) {
+    const tests = parse();
+    if (tests.length > 0) return { format, tests };
+  }
+  return { format: null, tests: [] };
+}
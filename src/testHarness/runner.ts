@@ -0,0 +1,187 @@
+import type { AgentLike } from "smithers-orchestrator";
+import { readFile } from "node:fs/promises";
+import { isAbsolute, join } from "node:path";
+import { runShellCommand } from "../shellCommand";
+import { parseTestOutput, type TestCaseResult, type TestReportFormat } from "./parsers";
+
+/**
+ * Harness-run test stage. The harness runs every configured suite in the ticket's
+ * worktree and records what the runners actually reported. The ticket's agent is only
+ * called to fix failures, after which the suites run again.
+ *
+ * Like the speculative merge queue, the harness is exposed as an AgentLike whose
+ * "prompt" carries a JSON request, so it slots into a regular `<Task>`.
+ */
+
+export type TestSuiteConfig = {
+  name: string;
+  command: string;
+  description?: string;
+  /** JUnit XML file the command writes, relative to the worktree; preferred over parsing stdout */
+  reportFile?: string;
+};
+
+export type TestHarnessRequest = {
+  ticketId: string;
+  ticketTitle: string;
+  worktreePath: string;
+  suites: TestSuiteConfig[];
+  /** Times the agent is asked to fix failures before the results are recorded as they stand */
+  maxFixAttempts: number;
+  fixCommitPrefix: string;
+  /** Backend the fix agent commits and pushes the ticket branch with */
+  vcs: "jj" | "git";
+  /** Per-suite time limit (default 30 minutes) */
+  timeoutMs?: number;
+};
+
+export type HarnessSuiteResult = {
+  name: string;
+  command: string;
+  passed: boolean;
+  durationMs: number | null;
+  failures: string[] | null;
+  exitCode: number | null;
+  format: TestReportFormat | null;
+  tests: TestCaseResult[] | null;
+};
+
+export type TestHarnessResult = {
+  suites: HarnessSuiteResult[];
+  failingSummary: string | null;
+  fixAttempts: number;
+};
+
+const REQUEST_MARKER = "TEST_HARNESS_REQUEST_JSON";
+const DEFAULT_TIMEOUT_MS = 30 * 60_000;
+const MAX_TESTS_PER_SUITE = 500;
+
+async function readReportFile(worktreePath: string, reportFile: string | undefined): Promise<string | null> {
+  if (!reportFile) return null;
+  try {
+    return await readFile(isAbsolute(reportFile) ? reportFile : join(worktreePath, reportFile), "utf8");
+  } catch {
+    return null;
+  }
+}
+
+function lastLine(output: string): string | null {
+  return output.split("\n").map((l) => l.trim()).filter(Boolean).pop()?.slice(0, 300) ?? null;
+}
+
+export async function runTestSuite(suite: TestSuiteConfig, worktreePath: string, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<HarnessSuiteResult> {
+  const run = await runShellCommand(suite.command, worktreePath, timeoutMs);
+  const report = parseTestOutput(run.output, await readReportFile(worktreePath, suite.reportFile));
+  const failed = report.tests.filter((t) => t.status === "failed");
+
+  const failures = failed.map((t) => (t.message ? `${t.name}: ${t.message}` : t.name));
+  if (run.timedOut) failures.push(`Timed out after ${Math.round(timeoutMs / 1000)}s`);
+  else if (run.exitCode !== 0 && failed.length === 0) failures.push(`Exited with code ${run.exitCode}: ${lastLine(run.output) ?? "no output"}`);
+
+  // Failures first, so a capped list never drops them
+  const tests = [...failed, ...report.tests.filter((t) => t.status !== "failed")].slice(0, MAX_TESTS_PER_SUITE);
+  return {
+    name: suite.name,
+    command: suite.command,
+    passed: run.exitCode === 0 && failed.length === 0,
+    durationMs: run.durationMs,
+    failures: failures.length > 0 ? failures : null,
+    exitCode: run.exitCode,
+    format: report.format,
+    tests: tests.length > 0 ? tests : null,
+  };
+}
+
+function summarizeFailures(suites: HarnessSuiteResult[]): string | null {
+  const failing = suites.filter((s) => !s.passed);
+  if (failing.length === 0) return null;
+  return failing
+    .map((s) => `${s.name} (\`${s.command}\`): ${(s.failures ?? []).slice(0, 10).join("; ")}${(s.failures?.length ?? 0) > 10 ? `; +${s.failures!.length - 10} more` : ""}`)
+    .join("\n");
+}
+
+export function buildTestFixPrompt(request: TestHarnessRequest, suites: HarnessSuiteResult[], attempt: number): string {
+  const failing = suites.filter((s) => !s.passed);
+  return [
+    `TEST FIX — Ticket: ${request.ticketId}`,
+    "",
+    `Title: ${request.ticketTitle}`,
+    `Attempt ${attempt} of ${request.maxFixAttempts}`,
+    "",
+    "The harness ran the test suites below in this worktree and they failed. Fix the code so they pass.",
+    "Only change a test if the test itself is wrong, and say so in your commit message.",
+    "",
+    ...failing.flatMap((s) => [
+      `## ${s.name}`,
+      `Command: \`${s.command}\` (exit code ${s.exitCode ?? "timeout"})`,
+      ...(s.failures ?? []).slice(0, 50).map((f) => `- ${f}`),
+      "",
+    ]),
+    "Commit each fix atomically:",
+    ...(request.vcs === "git"
+      ? [
+          `- \`git switch ticket/${request.ticketId} 2>/dev/null || git switch -c ticket/${request.ticketId}\``,
+          `- \`git add -A && git commit -m "${request.fixCommitPrefix}(SCOPE): what was fixed"\``,
+          `- After fixing: \`git push -u origin ticket/${request.ticketId}\``,
+        ]
+      : [
+          `- \`jj describe -m "${request.fixCommitPrefix}(SCOPE): what was fixed"\``,
+          "- `jj new`",
+          `- After fixing: \`jj bookmark set ticket/${request.ticketId} -r @\` && \`jj git push --bookmark ticket/${request.ticketId}\``,
+        ]),
+    "",
+    "The harness re-runs every suite after you finish; its results are what gets recorded.",
+  ].join("\n");
+}
+
+/** Run every suite, asking `fixAgent` to fix failures up to `maxFixAttempts` times */
+export async function runTestHarness(request: TestHarnessRequest, fixAgent?: AgentLike): Promise<TestHarnessResult> {
+  const runAll = async () => {
+    const results: HarnessSuiteResult[] = [];
+    for (const suite of request.suites) results.push(await runTestSuite(suite, request.worktreePath, request.timeoutMs));
+    return results;
+  };
+
+  let suites = await runAll();
+  let fixAttempts = 0;
+  while (fixAgent && fixAttempts < request.maxFixAttempts && suites.some((s) => !s.passed)) {
+    fixAttempts++;
+    // Only the prompt: the harness task's own args (its output schema among them) aren't the fix's
+    await fixAgent.generate({ prompt: buildTestFixPrompt(request, suites, fixAttempts) });
+    suites = await runAll();
+  }
+  return { suites, failingSummary: summarizeFailures(suites), fixAttempts };
+}
+
+export function buildTestHarnessPrompt(request: TestHarnessRequest): string {
+  const suites = request.suites.length > 0
+    ? request.suites.map((s) => `- ${s.name}: \`${s.command}\``).join("\n")
+    : "- (none configured)";
+  return [
+    `TEST HARNESS — Ticket: ${request.ticketId}`,
+    "",
+    "Run these suites in the ticket worktree and record the parsed results:",
+    suites,
+    "",
+    REQUEST_MARKER,
+    JSON.stringify(request),
+  ].join("\n");
+}
+
+function extractHarnessRequest(prompt: string): TestHarnessRequest {
+  const markerIndex = prompt.indexOf(REQUEST_MARKER);
+  if (markerIndex === -1) throw new Error("Test harness request marker not found in prompt.");
+  return JSON.parse(prompt.slice(markerIndex + REQUEST_MARKER.length).trim()) as TestHarnessRequest;
+}
+
+/** AgentLike that runs the harness; `fixAgent` is the ticket's agent, used only for fixes */
+export function createTestHarnessAgent(fixAgent?: AgentLike, id = "super-ralph-test-harness"): AgentLike {
+  return {
+    id,
+    async generate(args) {
+      const request = extractHarnessRequest(args.prompt ?? "");
+      const output = await runTestHarness(request, fixAgent);
+      return { output };
+    },
+  };
+}
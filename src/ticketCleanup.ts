@@ -0,0 +1,64 @@
+import type { AgentLike } from "smithers-orchestrator";
+import { createMergeQueueOps, type MergeQueueVcs } from "./mergeQueue/coordinator";
+
+/**
+ * Cleanup for cancelled tickets: the ticket's worktree and its `ticket/<id>` bookmark
+ * (or branch, under git) are removed the same way the merge queue cleans up after landing.
+ */
+
+export type TicketCleanupRequest = {
+  ticketId: string;
+  repoRoot: string;
+  worktreePath: string;
+  vcs: MergeQueueVcs;
+  mainBranch: string;
+};
+
+export type TicketCleanupResult = {
+  ticketId: string;
+  worktreePath: string;
+  cleanedAtMs: number;
+};
+
+const REQUEST_MARKER = "TICKET_CLEANUP_REQUEST_JSON";
+
+/** Remove a cancelled ticket's worktree and its bookmark (or branch, under git) */
+export async function cleanupCancelledTicket(request: TicketCleanupRequest): Promise<TicketCleanupResult> {
+  const ops = createMergeQueueOps(request.vcs, { mainBranch: request.mainBranch });
+  await ops.cleanupTicket(request.repoRoot, {
+    ticketId: request.ticketId,
+    ticketTitle: request.ticketId,
+    ticketCategory: "",
+    priority: "low",
+    reportIteration: 0,
+    worktreePath: request.worktreePath,
+  });
+  return { ticketId: request.ticketId, worktreePath: request.worktreePath, cleanedAtMs: Date.now() };
+}
+
+export function buildTicketCleanupPrompt(request: TicketCleanupRequest): string {
+  return [
+    `TICKET CLEANUP — ${request.ticketId} (cancelled)`,
+    "",
+    `Remove the worktree at ${request.worktreePath} and the ticket/${request.ticketId} ${request.vcs === "git" ? "branch" : "bookmark"}.`,
+    "",
+    REQUEST_MARKER,
+    JSON.stringify(request),
+  ].join("\n");
+}
+
+function extractTicketCleanupRequest(prompt: string): TicketCleanupRequest {
+  const markerIndex = prompt.indexOf(REQUEST_MARKER);
+  if (markerIndex === -1) throw new Error("Ticket cleanup request marker not found in prompt.");
+  return JSON.parse(prompt.slice(markerIndex + REQUEST_MARKER.length).trim()) as TicketCleanupRequest;
+}
+
+export function createTicketCleanupAgent(id = "super-ralph-ticket-cleanup"): AgentLike {
+  return {
+    id,
+    async generate(args) {
+      const output = await cleanupCancelledTicket(extractTicketCleanupRequest(args.prompt ?? ""));
+      return { output };
+    },
+  };
+}
@@ -0,0 +1,205 @@
+import { Database } from "bun:sqlite";
+import { PIPELINE_STAGES, TICKET_OUTPUT_STAGES } from "./durability";
+import { CODE_REVIEWER_SLOTS, type CodeReviewerSlot } from "./reviewConsensus";
+import { reviewRoundNodeId, reviewRoundOfNodeId, stripReviewRound } from "./reviewLoop";
+import { JOB_TYPE_TO_OUTPUT_KEY } from "./scheduledTasks";
+import { hasTable, readOutputRows, readRoundRows } from "./workflowDb";
+
+/**
+ * Steering requests for a live run, written from the Monitor and picked up by SuperRalph
+ * on its next render:
+ * - retry: run the ticket's latest stage again. The ticket's other jobs wait, and it stays
+ *   out of the merge queue, until every node of that stage has written a new output.
+ * - dequeue / requeue: hold the ticket out of the merge queue, or offer it again. A hold
+ *   also ends when the ticket writes a new report.
+ *
+ * Output rows carry no timestamps, so each request records how many rows its nodes had
+ * (`baseline`); it is settled once they have more. One row per request, scoped to a run;
+ * the latest per ticket wins (retries and queue holds separately). Pausing and priority
+ * changes reuse `ticket_lifecycle` and `manual_tickets`.
+ */
+
+export type TicketControlAction = "retry" | "dequeue" | "requeue";
+
+export type TicketControl = {
+  runId: string;
+  ticketId: string;
+  action: TicketControlAction;
+  /** The job to run again (retries only) */
+  jobId: string | null;
+  jobType: string | null;
+  /** Output rows per node ID when requested */
+  baseline: Record<string, number>;
+  requestedBy: string | null;
+  requestedAtMs: number;
+};
+
+export type PendingTicketControls = {
+  /** Retries whose stage hasn't written a new output yet */
+  retries: TicketControl[];
+  /** Tickets held out of the merge queue */
+  queueHolds: Set<string>;
+};
+
+const CREATE_TABLE = `CREATE TABLE IF NOT EXISTS ticket_controls (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  run_id TEXT NOT NULL,
+  ticket_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  job_id TEXT,
+  job_type TEXT,
+  baseline TEXT NOT NULL,
+  requested_by TEXT,
+  requested_at_ms INTEGER NOT NULL
+)`;
+
+/** Pipeline stage → the ticket job that produces it */
+const STAGE_JOB_TYPES: Record<string, string> = {
+  research: "ticket:research",
+  plan: "ticket:plan",
+  implement: "ticket:implement",
+  test: "ticket:test",
+  build_verify: "ticket:build-verify",
+  spec_review: "ticket:spec-review",
+  code_review: "ticket:code-review",
+  review_fix: "ticket:review-fix",
+  report: "ticket:report",
+};
+
+export function ensureTicketControlTable(db: Database): void {
+  db.exec(CREATE_TABLE);
+}
+
+export function recordTicketControl(db: Database, control: TicketControl): void {
+  ensureTicketControlTable(db);
+  db.prepare(
+    `INSERT INTO ticket_controls (run_id, ticket_id, action, job_id, job_type, baseline, requested_by, requested_at_ms)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(control.runId, control.ticketId, control.action, control.jobId, control.jobType,
+    JSON.stringify(control.baseline), control.requestedBy, control.requestedAtMs);
+}
+
+/** Latest retry and latest dequeue/requeue per ticket of the run */
+export function loadTicketControls(db: Database, runId: string): { retries: Map<string, TicketControl>; queue: Map<string, TicketControl> } {
+  ensureTicketControlTable(db);
+  const rows = db.prepare(
+    `SELECT run_id as runId, ticket_id as ticketId, action, job_id as jobId, job_type as jobType, baseline,
+            requested_by as requestedBy, requested_at_ms as requestedAtMs
+     FROM ticket_controls WHERE run_id = ? ORDER BY requested_at_ms ASC, id ASC`
+  ).all(runId) as Array<Omit<TicketControl, "baseline"> & { baseline: string }>;
+
+  const retries = new Map<string, TicketControl>();
+  const queue = new Map<string, TicketControl>();
+  for (const row of rows) {
+    let baseline: Record<string, number> = {};
+    try {
+      baseline = JSON.parse(row.baseline) as Record<string, number>;
+    } catch { /* an unreadable baseline settles on the first output */ }
+    const control = { ...row, baseline };
+    (row.action === "retry" ? retries : queue).set(row.ticketId, control);
+  }
+  return { retries, queue };
+}
+
+function countOutputRows(db: Database, table: string, runId: string, nodeId: string): number {
+  if (!hasTable(db, table)) return 0;
+  const row = db.prepare(`SELECT COUNT(*) as n FROM "${table}" WHERE run_id = ? AND node_id = ?`).get(runId, nodeId) as { n: number };
+  return row.n;
+}
+
+/** Output nodes a ticket job writes; code review writes one per reviewer slot */
+function jobOutputNodes(ticketId: string, jobId: string, jobType: string): Array<{ table: string; nodeId: string; slot?: CodeReviewerSlot }> {
+  if (jobType === "ticket:code-review") {
+    const round = reviewRoundOfNodeId(jobId);
+    return (Object.entries(CODE_REVIEWER_SLOTS) as Array<[CodeReviewerSlot, (typeof CODE_REVIEWER_SLOTS)[CodeReviewerSlot]]>)
+      .map(([slot, { output, nodeSuffix }]) => ({ table: output, nodeId: reviewRoundNodeId(`${ticketId}:${nodeSuffix}`, round), slot }));
+  }
+  const table = JOB_TYPE_TO_OUTPUT_KEY[jobType];
+  return table ? [{ table, nodeId: jobId }] : [];
+}
+
+/**
+ * The job behind the ticket's latest output: the furthest review round, and within it
+ * the furthest stage. Null when the ticket has no output yet or has landed.
+ */
+export function latestStageJob(db: Database, runId: string, ticketId: string): { jobId: string; jobType: string } | null {
+  if (readRoundRows(db, "land", runId, `${ticketId}:land`).some((row) => row.values.merged)) return null;
+
+  let latest: { round: number; index: number; jobId: string; jobType: string } | null = null;
+  for (const { table, suffix, stage } of TICKET_OUTPUT_STAGES) {
+    const jobType = STAGE_JOB_TYPES[stage];
+    if (!jobType) continue;
+    const index = PIPELINE_STAGES.indexOf(stage as (typeof PIPELINE_STAGES)[number]);
+    for (const { nodeId } of readOutputRows(db, table, { runId, nodeIdPrefix: `${ticketId}:` })) {
+      if (stripReviewRound(nodeId) !== `${ticketId}:${suffix}`) continue;
+      // Research and plan belong to round 1; a rework implement opens its round
+      const round = reviewRoundOfNodeId(nodeId);
+      if (latest && (round < latest.round || (round === latest.round && index <= latest.index))) continue;
+      latest = { round, index, jobType, jobId: reviewRoundNodeId(`${ticketId}:${jobType.replace("ticket:", "")}`, reviewRoundOfNodeId(nodeId)) };
+    }
+  }
+  return latest && { jobId: latest.jobId, jobType: latest.jobType };
+}
+
+/** Ask for the ticket's latest stage to run again; null when it has nothing to retry */
+export function requestStageRetry(db: Database, request: { runId: string; ticketId: string; requestedBy: string | null }): TicketControl | null {
+  const job = latestStageJob(db, request.runId, request.ticketId);
+  if (!job) return null;
+  const baseline = Object.fromEntries(jobOutputNodes(request.ticketId, job.jobId, job.jobType)
+    .map(({ table, nodeId }) => [nodeId, countOutputRows(db, table, request.runId, nodeId)]));
+  const control: TicketControl = {
+    ...request, action: "retry", jobId: job.jobId, jobType: job.jobType, baseline, requestedAtMs: Date.now(),
+  };
+  recordTicketControl(db, control);
+  return control;
+}
+
+/** Hold the ticket out of the merge queue (`hold`), or offer it again */
+export function requestQueueHold(db: Database, request: { runId: string; ticketId: string; hold: boolean; requestedBy: string | null }): TicketControl {
+  // Counted over every round's report, so a rework's report ends the hold too
+  const reportNodeId = `${request.ticketId}:report`;
+  const control: TicketControl = {
+    runId: request.runId,
+    ticketId: request.ticketId,
+    action: request.hold ? "dequeue" : "requeue",
+    jobId: null,
+    jobType: null,
+    baseline: { [reportNodeId]: readRoundRows(db, "report", request.runId, reportNodeId).length },
+    requestedBy: request.requestedBy,
+    requestedAtMs: Date.now(),
+  };
+  recordTicketControl(db, control);
+  return control;
+}
+
+/** Retries and queue holds still in effect; code review counts only the configured reviewers */
+export function loadPendingTicketControls(db: Database, runId: string, codeReviewers: CodeReviewerSlot[]): PendingTicketControls {
+  const { retries, queue } = loadTicketControls(db, runId);
+  const settled = (control: TicketControl, nodes: Array<{ table: string; nodeId: string }>) =>
+    nodes.every(({ table, nodeId }) => countOutputRows(db, table, runId, nodeId) > (control.baseline[nodeId] ?? 0));
+
+  const pendingRetries = [...retries.values()].filter((control) => {
+    if (!control.jobId || !control.jobType) return false;
+    const nodes = jobOutputNodes(control.ticketId, control.jobId, control.jobType)
+      .filter(({ slot }) => !slot || codeReviewers.includes(slot));
+    return nodes.length > 0 && !settled(control, nodes);
+  });
+  const queueHolds = new Set([...queue.values()]
+    .filter((control) => control.action === "dequeue" &&
+      readRoundRows(db, "report", runId, `${control.ticketId}:report`).length <= (control.baseline[`${control.ticketId}:report`] ?? 0))
+    .map((control) => control.ticketId));
+  return { retries: pendingRetries, queueHolds };
+}
+
+/** Read pending controls from the workflow DB at `dbPath`; none when it can't be opened */
+export function readPendingTicketControls(dbPath: string, runId: string, codeReviewers: CodeReviewerSlot[]): PendingTicketControls {
+  let db: Database | null = null;
+  try {
+    db = new Database(dbPath);
+    return loadPendingTicketControls(db, runId, codeReviewers);
+  } catch {
+    return { retries: [], queueHolds: new Set() };
+  } finally {
+    db?.close();
+  }
+}
@@ -0,0 +1,92 @@
+import type { Ticket } from "./selectors";
+
+/**
+ * Ticket dependency graph helpers.
+ * Discover asks agents for a `dependencies` array per ticket; these helpers decide
+ * which tickets are blocked on unlanded work and flag dependency cycles.
+ *
+ * Dependencies that reference ticket IDs we have never seen are ignored — agents
+ * sometimes name work that was never turned into a ticket, and that must not
+ * block a ticket forever.
+ */
+
+export type TicketBlocker = {
+  ticketId: string;
+  /** Known dependencies that have not landed yet */
+  waitingOn: string[];
+  /** Tickets forming a dependency cycle this ticket is part of, or null */
+  cycle: string[] | null;
+};
+
+/**
+ * Find every dependency cycle among the given tickets.
+ * Each cycle is returned once, as the list of ticket IDs in dependency order.
+ */
+export function findDependencyCycles(tickets: Ticket[]): string[][] {
+  const known = new Map(tickets.map((t) => [t.id, t]));
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  const seenCycles = new Set<string>();
+
+  const visit = (id: string) => {
+    state.set(id, "visiting");
+    stack.push(id);
+    for (const dep of known.get(id)?.dependencies ?? []) {
+      if (!known.has(dep)) continue;
+      const depState = state.get(dep);
+      if (depState === "visiting") {
+        const cycle = stack.slice(stack.indexOf(dep));
+        const key = [...cycle].sort().join("\u0000");
+        if (!seenCycles.has(key)) {
+          seenCycles.add(key);
+          cycles.push(cycle);
+        }
+      } else if (!depState) {
+        visit(dep);
+      }
+    }
+    stack.pop();
+    state.set(id, "done");
+  };
+
+  for (const ticket of tickets) {
+    if (!state.has(ticket.id)) visit(ticket.id);
+  }
+  return cycles;
+}
+
+/**
+ * Compute blockers for every ticket: unlanded known dependencies and membership in a
+ * cycle of unlanded tickets.
+ * Tickets with neither are omitted from the result.
+ */
+export function computeTicketBlockers(
+  tickets: Ticket[],
+  landedTicketIds: Iterable<string>,
+): Map<string, TicketBlocker> {
+  const known = new Set(tickets.map((t) => t.id));
+  const landed = new Set(landedTicketIds);
+  const cycleByTicket = new Map<string, string[]>();
+  // Landed tickets can no longer hold anything up, so cycles through them don't count
+  for (const cycle of findDependencyCycles(tickets.filter((t) => !landed.has(t.id)))) {
+    for (const id of cycle) {
+      if (!cycleByTicket.has(id)) cycleByTicket.set(id, cycle);
+    }
+  }
+
+  const blockers = new Map<string, TicketBlocker>();
+  for (const ticket of tickets) {
+    const waitingOn = (ticket.dependencies ?? []).filter((dep) => known.has(dep) && !landed.has(dep));
+    const cycle = cycleByTicket.get(ticket.id) ?? null;
+    if (waitingOn.length === 0 && !cycle) continue;
+    blockers.set(ticket.id, { ticketId: ticket.id, waitingOn, cycle });
+  }
+  return blockers;
+}
+
+export function formatTicketBlocker(blocker: TicketBlocker | null | undefined): string | null {
+  if (!blocker) return null;
+  if (blocker.cycle) return `cycle: ${[...blocker.cycle, blocker.cycle[0]].join(" → ")}`;
+  return blocker.waitingOn.length > 0 ? blocker.waitingOn.join(", ") : null;
+}
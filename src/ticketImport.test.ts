@@ -0,0 +1,167 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  detectImportFormat,
+  importTickets,
+  parseCsv,
+  parseGitHubIssues,
+  parseMarkdownChecklist,
+  parsePriority,
+  parseTrackerCsv,
+} from "./ticketImport";
+
+describe("parsePriority", () => {
+  test("maps tracker priority names", () => {
+    expect(["Urgent", "Highest", "blocker", "P0"].map(parsePriority)).toEqual(["critical", "critical", "critical", "critical"]);
+    expect(["High", "P1", "priority: high", "Priority/Major"].map(parsePriority)).toEqual(["high", "high", "high", "high"]);
+    expect(["Normal", "medium", "2"].map(parsePriority)).toEqual(["medium", "medium", "medium"]);
+    expect(["Low", "Lowest", "trivial", "P4"].map(parsePriority)).toEqual(["low", "low", "low", "low"]);
+  });
+
+  test("returns null for anything else", () => {
+    expect(["", "No priority", "bug", null, undefined].map(parsePriority)).toEqual([null, null, null, null, null]);
+  });
+});
+
+describe("parseGitHubIssues", () => {
+  test("imports open issues with label priorities, categories and acceptance criteria", () => {
+    const issues = [
+      {
+        number: 12,
+        title: "Add login",
+        state: "OPEN",
+        labels: [{ name: "priority: high" }, { name: "auth" }],
+        body: "Users sign in.\n\n## Acceptance Criteria\n- Password login works\n- [ ] Sessions expire",
+      },
+      { number: 13, title: "Old bug", state: "closed", labels: [] },
+      { number: 14, title: "A pull request", state: "open", pull_request: {} },
+      { number: 15, title: "Tidy up", state: "open", labels: ["P3"], body: null },
+    ];
+    const tickets = parseGitHubIssues(JSON.stringify(issues), "backlog");
+    expect(tickets).toHaveLength(2);
+    expect(tickets[0]).toMatchObject({
+      id: "GH-12",
+      title: "Add login",
+      category: "auth",
+      priority: "high",
+      acceptanceCriteria: ["Password login works", "Sessions expire"],
+    });
+    expect(tickets[1]).toMatchObject({ id: "GH-15", category: "backlog", priority: "low", description: "" });
+  });
+
+  test("reads the REST search response shape", () => {
+    const tickets = parseGitHubIssues(JSON.stringify({ items: [{ number: 3, title: "Search hit", state: "open" }] }));
+    expect(tickets.map((t) => [t.id, t.category, t.priority])).toEqual([["GH-3", "general", "medium"]]);
+  });
+});
+
+describe("CSV import", () => {
+  test("parseCsv handles quoted commas, doubled quotes, newlines and a BOM", () => {
+    expect(parseCsv('\uFEFFID,Title\r\n1,"Say ""hi"", then\nleave"\r\n\r\n2,Plain')).toEqual([
+      ["ID", "Title"],
+      ["1", 'Say "hi", then\nleave'],
+      ["2", "Plain"],
+    ]);
+  });
+
+  test("parseTrackerCsv reads Linear exports and skips done issues", () => {
+    const csv = [
+      "ID,Title,Description,Status,Priority,Labels,Blocked By",
+      'ENG-1,Build API,"Serve tickets\n- [ ] Lists tickets",Todo,Urgent,"backend, api",ENG-0',
+      "ENG-2,Shipped thing,,Done,High,,",
+    ].join("\n");
+    const tickets = parseTrackerCsv(csv, "linear");
+    expect(tickets).toHaveLength(1);
+    expect(tickets[0]).toMatchObject({
+      id: "ENG-1",
+      title: "Build API",
+      category: "backend",
+      priority: "critical",
+      acceptanceCriteria: ["Lists tickets"],
+      dependencies: ["ENG-0"],
+    });
+  });
+
+  test("parseTrackerCsv reads Jira exports, taking the priority from a label when the column is empty", () => {
+    const csv = [
+      "Issue key,Summary,Status,Priority,Labels,Labels,Acceptance Criteria",
+      'PROJ-4,Fix search,In Progress,,priority-low,search,"Results are sorted\nEmpty query is rejected"',
+    ].join("\n");
+    expect(parseTrackerCsv(csv, "jira")).toMatchObject([{
+      id: "PROJ-4",
+      title: "Fix search",
+      category: "search",
+      priority: "low",
+      acceptanceCriteria: ["Results are sorted", "Empty query is rejected"],
+    }]);
+  });
+});
+
+describe("parseMarkdownChecklist", () => {
+  test("turns unchecked items into tickets under their heading's category", () => {
+    const markdown = [
+      "# Backlog",
+      "## Auth",
+      "- [ ] T-12: Add login [high]",
+      "  Users sign in with a password.",
+      "  - Password login works",
+      "  - [ ] Sessions expire",
+      "- [x] Already done",
+      "## Search UI",
+      "- [ ] Fuzzy matching (P0)",
+    ].join("\n");
+    const tickets = parseMarkdownChecklist(markdown);
+    expect(tickets).toHaveLength(2);
+    expect(tickets[0]).toMatchObject({
+      id: "T-12",
+      title: "Add login",
+      category: "auth",
+      priority: "high",
+      description: "Users sign in with a password.",
+      acceptanceCriteria: ["Password login works", "Sessions expire"],
+    });
+    expect(tickets[1]).toMatchObject({ id: "search-ui-fuzzy-matching", title: "Fuzzy matching", category: "search-ui", priority: "critical" });
+  });
+
+  test("uses the default category before any heading", () => {
+    expect(parseMarkdownChecklist("- [ ] Write docs", "docs")).toMatchObject([{ id: "docs-write-docs", category: "docs", priority: "medium" }]);
+  });
+});
+
+describe("detectImportFormat", () => {
+  test("goes by extension, then by contents", () => {
+    expect(detectImportFormat("issues.json", "[]")).toBe("github");
+    expect(detectImportFormat("BACKLOG.md", "")).toBe("markdown");
+    expect(detectImportFormat("export.csv", "Issue key,Summary\nPROJ-1,x")).toBe("jira");
+    expect(detectImportFormat("export.csv", "ID,Title\nENG-1,x")).toBe("linear");
+    expect(detectImportFormat("issues.txt", '  [{"number":1}]')).toBe("github");
+    expect(detectImportFormat("todo.txt", "- [ ] Something")).toBe("markdown");
+    expect(detectImportFormat("notes.txt", "just notes")).toBeNull();
+  });
+});
+
+describe("importTickets", () => {
+  test("keeps the first ticket per ID and reports sources that fail", async () => {
+    const repoRoot = await mkdtemp(join(tmpdir(), "ticket-import-"));
+    try {
+      await writeFile(join(repoRoot, "issues.json"), JSON.stringify([{ number: 1, title: "From GitHub", state: "open" }]));
+      await writeFile(join(repoRoot, "BACKLOG.md"), "- [ ] GH-1: From Markdown\n- [ ] Extra");
+      await writeFile(join(repoRoot, "notes.txt"), "just notes");
+      const result = await importTickets({
+        repoRoot,
+        sources: [{ path: "issues.json" }, { path: "BACKLOG.md" }, { path: "notes.txt" }, { path: "missing.csv" }],
+      });
+      expect(result.tickets.map((t) => [t.id, t.title])).toEqual([["GH-1", "From GitHub"], ["general-extra", "Extra"]]);
+      expect(result.sources.map((s) => [s.path, s.format, s.ticketCount, s.error !== null])).toEqual([
+        ["issues.json", "github", 1, false],
+        ["BACKLOG.md", "markdown", 2, false],
+        ["notes.txt", null, 0, true],
+        ["missing.csv", null, 0, true],
+      ]);
+    } finally {
+      await rm(repoRoot, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,359 @@
+import type { AgentLike } from "smithers-orchestrator";
+import { readFile } from "node:fs/promises";
+import { extname, resolve } from "node:path";
+import { normalizeTicket, type Ticket } from "./selectors";
+
+/**
+ * Seed the backlog from an existing tracker instead of (or alongside) discovery.
+ * Supported inputs:
+ * - GitHub issues JSON, from `gh issue list --json number,title,body,labels,state` or the REST API
+ * - Linear or Jira CSV exports
+ * - Markdown checklists: each unchecked `- [ ]` item is a ticket, headings set the category,
+ *   and nested list items become acceptance criteria
+ *
+ * Imported tickets keep their tracker IDs (`GH-12`, `ENG-123`, `PROJ-4`) so they stay
+ * stable across runs. Closed or done items are skipped.
+ */
+
+export type TicketImportFormat = "github" | "linear" | "jira" | "markdown";
+
+export type TicketImportSource = {
+  /** File to import, relative to the repo root */
+  path: string;
+  /** Detected from the extension and contents when omitted */
+  format?: TicketImportFormat;
+  /** Category for tickets without a label or heading (default "general") */
+  defaultCategory?: string;
+};
+
+export type TicketImportRequest = {
+  repoRoot: string;
+  sources: TicketImportSource[];
+};
+
+export type TicketImportSourceResult = {
+  path: string;
+  format: TicketImportFormat | null;
+  ticketCount: number;
+  error: string | null;
+};
+
+export type TicketImportResult = {
+  importedAtMs: number;
+  tickets: Ticket[];
+  sources: TicketImportSourceResult[];
+};
+
+const REQUEST_MARKER = "TICKET_IMPORT_REQUEST_JSON";
+
+const DONE_STATES = new Set(["closed", "done", "completed", "canceled", "cancelled", "resolved", "duplicate", "won't do", "wont do"]);
+
+/** Map tracker priority names ("Urgent", "Highest", "P1", "priority: high") onto Ticket priorities */
+export function parsePriority(value: string | null | undefined): Ticket["priority"] | null {
+  const text = (value ?? "").toLowerCase().replace(/^priority[:/\s-]*/, "").trim();
+  if (!text) return null;
+  if (/^(urgent|highest|blocker|critical|p0|0)$/.test(text)) return "critical";
+  if (/^(high|major|p1|1)$/.test(text)) return "high";
+  if (/^(medium|normal|p2|2)$/.test(text)) return "medium";
+  if (/^(low|lowest|minor|trivial|p3|p4|3|4)$/.test(text)) return "low";
+  return null;
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+/** Checklist items and the items under an "Acceptance Criteria" heading of an issue body */
+function acceptanceCriteriaFromBody(body: string): string[] {
+  const lines = body.split(/\r?\n/);
+  const criteria: string[] = [];
+  let inSection = false;
+  for (const line of lines) {
+    const heading = line.match(/^\s*#{1,6}\s+(.*)$/) ?? line.match(/^\s*\*\*(.+?)\*\*:?\s*$/);
+    if (heading) {
+      inSection = /acceptance criteria|definition of done/i.test(heading[1]!);
+      continue;
+    }
+    const checkbox = line.match(/^\s*[-*]\s+\[[ xX]\]\s+(.+)$/);
+    if (checkbox) {
+      criteria.push(checkbox[1]!.trim());
+      continue;
+    }
+    const item = inSection ? line.match(/^\s*(?:[-*]|\d+\.)\s+(.+)$/) : null;
+    if (item) criteria.push(item[1]!.trim());
+  }
+  return [...new Set(criteria)];
+}
+
+function splitLabels(labels: string[]): { priority: Ticket["priority"] | null; categories: string[] } {
+  let priority: Ticket["priority"] | null = null;
+  const categories: string[] = [];
+  for (const label of labels) {
+    const fromLabel = parsePriority(label);
+    if (fromLabel) priority ??= fromLabel;
+    else if (label.trim()) categories.push(label.trim());
+  }
+  return { priority, categories };
+}
+
+// --- GitHub ---
+
+export function parseGitHubIssues(text: string, defaultCategory = "general"): Ticket[] {
+  const parsed = JSON.parse(text) as unknown;
+  const issues = Array.isArray(parsed) ? parsed : Array.isArray((parsed as any)?.items) ? (parsed as any).items : [];
+  const tickets: Ticket[] = [];
+  for (const issue of issues as Array<Record<string, any>>) {
+    if (!issue || typeof issue !== "object" || issue.pull_request || issue.isPullRequest) continue;
+    if (typeof issue.state === "string" && DONE_STATES.has(issue.state.toLowerCase())) continue;
+    const number = issue.number ?? issue.id;
+    if (number === undefined || number === null) continue;
+    const labels = (Array.isArray(issue.labels) ? issue.labels : [])
+      .map((l: unknown) => typeof l === "string" ? l : (l as any)?.name)
+      .filter((l: unknown): l is string => typeof l === "string");
+    const { priority, categories } = splitLabels(labels);
+    const body = typeof issue.body === "string" ? issue.body : "";
+    const ticket = normalizeTicket({
+      id: `GH-${number}`,
+      title: issue.title,
+      description: body,
+      category: categories[0] ?? defaultCategory,
+      priority: priority ?? "medium",
+      acceptanceCriteria: acceptanceCriteriaFromBody(body),
+    });
+    if (ticket) tickets.push(ticket);
+  }
+  return tickets;
+}
+
+// --- CSV (Linear, Jira) ---
+
+/** RFC 4180 rows: quoted fields may hold commas, doubled quotes and newlines */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i]!;
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+/** Values of every column whose header matches, in column order (Jira repeats "Labels") */
+function columnValues(header: string[], row: string[], pattern: RegExp): string[] {
+  return header
+    .map((name, i) => (pattern.test(name.trim()) ? (row[i] ?? "").trim() : ""))
+    .filter(Boolean);
+}
+
+export function parseTrackerCsv(text: string, format: "linear" | "jira", defaultCategory = "general"): Ticket[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const columns = format === "jira"
+    ? { id: /^issue key$/i, title: /^summary$/i, labels: /^(labels|component\/s)$/i }
+    : { id: /^id$/i, title: /^title$/i, labels: /^labels$/i };
+
+  const tickets: Ticket[] = [];
+  for (const row of rows) {
+    const get = (pattern: RegExp) => columnValues(header, row, pattern)[0] ?? "";
+    const status = get(/^status$/i).toLowerCase();
+    if (DONE_STATES.has(status)) continue;
+    const labels = columnValues(header, row, columns.labels).flatMap((v) => v.split(/\s*,\s*/));
+    const { priority: labelPriority, categories } = splitLabels(labels);
+    const description = get(/^description$/i);
+    const criteriaColumn = get(/acceptance criteria/i);
+    const ticket = normalizeTicket({
+      id: get(columns.id),
+      title: get(columns.title),
+      description,
+      category: categories[0] ?? defaultCategory,
+      priority: parsePriority(get(/^priority$/i)) ?? labelPriority ?? "medium",
+      acceptanceCriteria: criteriaColumn || acceptanceCriteriaFromBody(description),
+      dependencies: columnValues(header, row, /^(blocked by|inward issue link \(blocks\))$/i).flatMap((v) => v.split(/\s*,\s*/)),
+    });
+    if (ticket) tickets.push(ticket);
+  }
+  return tickets;
+}
+
+// --- Markdown checklist ---
+
+/**
+ * `- [ ] Title` items; an item may start with its own ID (`- [ ] T-12: Title`) and carry a
+ * priority tag (`[high]`, `(P1)`, `#critical`). Indented list items below it become
+ * acceptance criteria, other indented lines its description.
+ */
+export function parseMarkdownChecklist(text: string, defaultCategory = "general"): Ticket[] {
+  const tickets: Ticket[] = [];
+  let category = defaultCategory;
+  let current: { raw: Record<string, unknown>; criteria: string[]; description: string[]; indent: number } | null = null;
+  const flush = () => {
+    if (!current) return;
+    const ticket = normalizeTicket({
+      ...current.raw,
+      description: current.description.join("\n").trim(),
+      acceptanceCriteria: current.criteria,
+    });
+    if (ticket) tickets.push(ticket);
+    current = null;
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const heading = line.match(/^#{1,6}\s+(.+?)\s*#*$/);
+    if (heading) {
+      flush();
+      category = slugify(heading[1]!) || defaultCategory;
+      continue;
+    }
+
+    const item = line.match(/^(\s*)[-*]\s+\[([ xX])\]\s+(.+)$/);
+    if (item && (!current || item[1]!.length <= current.indent)) {
+      flush();
+      if (item[2] !== " ") continue;
+      let title = item[3]!.trim();
+      let priority: Ticket["priority"] | null = null;
+      title = title.replace(/\s*(?:\[(\w+)\]|\((P\d)\)|#(critical|high|medium|low)\b)\s*/gi, (match, a, b, c) => {
+        const parsed = parsePriority(a ?? b ?? c);
+        if (!parsed) return match;
+        priority ??= parsed;
+        return " ";
+      }).trim();
+      const idMatch = title.match(/^([A-Za-z][A-Za-z0-9]*-\d+)\s*[:—-]\s*(.+)$/);
+      const id = idMatch ? idMatch[1]! : `${category}-${slugify(title).slice(0, 48)}`;
+      current = {
+        raw: { id, title: idMatch ? idMatch[2]! : title, category, priority: priority ?? "medium" },
+        criteria: [],
+        description: [],
+        indent: item[1]!.length,
+      };
+      continue;
+    }
+
+    if (!current) continue;
+    const indent = line.match(/^(\s*)/)![1]!.length;
+    if (line.trim() === "") {
+      current.description.push("");
+    } else if (indent <= current.indent) {
+      flush();
+    } else {
+      const nested = line.match(/^\s*(?:[-*]|\d+\.)\s+(?:\[[ xX]\]\s+)?(.+)$/);
+      if (nested) current.criteria.push(nested[1]!.trim());
+      else current.description.push(line.trim());
+    }
+  }
+  flush();
+  return tickets;
+}
+
+// --- Entry point ---
+
+export function detectImportFormat(path: string, text: string): TicketImportFormat | null {
+  const ext = extname(path).toLowerCase();
+  if (ext === ".json") return "github";
+  if (ext === ".md" || ext === ".markdown") return "markdown";
+  if (ext === ".csv") {
+    const header = parseCsv(text.split(/\r?\n/, 1)[0] ?? "")[0] ?? [];
+    return header.some((h) => /^(issue key|summary)$/i.test(h.trim())) ? "jira" : "linear";
+  }
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) return "github";
+  if (/^\s*[-*]\s+\[[ xX]\]/m.test(text)) return "markdown";
+  return null;
+}
+
+export function parseTicketImport(text: string, format: TicketImportFormat, defaultCategory?: string): Ticket[] {
+  switch (format) {
+    case "github":
+      return parseGitHubIssues(text, defaultCategory);
+    case "linear":
+    case "jira":
+      return parseTrackerCsv(text, format, defaultCategory);
+    case "markdown":
+      return parseMarkdownChecklist(text, defaultCategory);
+  }
+}
+
+/** Import every source; a source that fails to read or parse is reported, not thrown */
+export async function importTickets(request: TicketImportRequest): Promise<TicketImportResult> {
+  const byId = new Map<string, Ticket>();
+  const sources: TicketImportSourceResult[] = [];
+  for (const source of request.sources) {
+    const path = resolve(request.repoRoot, source.path);
+    let format: TicketImportFormat | null = source.format ?? null;
+    try {
+      const text = await readFile(path, "utf8");
+      format ??= detectImportFormat(path, text);
+      if (!format) throw new Error("Unrecognized format; set `format` to github, linear, jira or markdown.");
+      const tickets = parseTicketImport(text, format, source.defaultCategory);
+      for (const ticket of tickets) if (!byId.has(ticket.id)) byId.set(ticket.id, ticket);
+      sources.push({ path: source.path, format, ticketCount: tickets.length, error: null });
+    } catch (err) {
+      sources.push({ path: source.path, format, ticketCount: 0, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  return { importedAtMs: Date.now(), tickets: [...byId.values()], sources };
+}
+
+export function buildTicketImportPrompt(request: TicketImportRequest): string {
+  return [
+    `TICKET IMPORT — ${request.sources.map((s) => s.path).join(", ")}`,
+    "",
+    "Seed the backlog from the tracker exports below.",
+    "",
+    REQUEST_MARKER,
+    JSON.stringify(request),
+  ].join("\n");
+}
+
+function extractTicketImportRequest(prompt: string): TicketImportRequest {
+  const markerIndex = prompt.indexOf(REQUEST_MARKER);
+  if (markerIndex === -1) throw new Error("Ticket import request marker not found in prompt.");
+  return JSON.parse(prompt.slice(markerIndex + REQUEST_MARKER.length).trim()) as TicketImportRequest;
+}
+
+export function createTicketImportAgent(id = "super-ralph-ticket-import"): AgentLike {
+  return {
+    id,
+    async generate(args) {
+      const result = await importTickets(extractTicketImportRequest(args.prompt ?? ""));
+      // The output schema stores optional ticket fields as nullable
+      const tickets = result.tickets.map((t) => ({
+        ...t,
+        acceptanceCriteria: t.acceptanceCriteria ?? null,
+        relevantFiles: t.relevantFiles ?? null,
+        referenceFiles: t.referenceFiles ?? null,
+        estimatedComplexity: t.estimatedComplexity ?? null,
+        dependencies: t.dependencies ?? null,
+      }));
+      return { output: { ...result, tickets } };
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import { Database } from "bun:sqlite";
+import type { Ticket } from "./selectors";
+
+/**
+ * Ticket lifecycle states set by hand (`super-ralph ticket pause|resume|cancel|abandon`).
+ * A ticket that isn't "active" is left out of scheduling and the merge queue:
+ * - paused: held until resumed; its worktree and branch are kept
+ * - cancelled: won't be done; its worktree and bookmark are removed (see ticketCleanup.ts),
+ *   and discovery is told not to suggest it again
+ * - abandoned: attempted and given up on; its bookmark is kept for inspection, its worktree
+ *   goes at the next worktree GC pass, and discovery doesn't suggest it again either
+ *
+ * Changes live in the workflow DB, one row each; the latest per ticket wins.
+ */
+
+export type TicketLifecycleState = "active" | "paused" | "cancelled" | "abandoned";
+
+export type TicketLifecycleChange = {
+  ticketId: string;
+  state: TicketLifecycleState;
+  reason: string | null;
+  changedBy: string | null;
+  changedAtMs: number;
+};
+
+const CREATE_TABLE = `CREATE TABLE IF NOT EXISTS ticket_lifecycle (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  ticket_id TEXT NOT NULL,
+  state TEXT NOT NULL,
+  reason TEXT,
+  changed_by TEXT,
+  changed_at_ms INTEGER NOT NULL
+)`;
+
+export function ensureTicketLifecycleTable(db: Database): void {
+  db.exec(CREATE_TABLE);
+}
+
+export function recordTicketLifecycleChange(db: Database, change: TicketLifecycleChange): void {
+  ensureTicketLifecycleTable(db);
+  db.prepare(
+    `INSERT INTO ticket_lifecycle (ticket_id, state, reason, changed_by, changed_at_ms) VALUES (?, ?, ?, ?, ?)`
+  ).run(change.ticketId, change.state, change.reason, change.changedBy, change.changedAtMs);
+}
+
+/** Latest change per ticket */
+export function loadTicketLifecycle(db: Database): Map<string, TicketLifecycleChange> {
+  ensureTicketLifecycleTable(db);
+  const rows = db.prepare(
+    `SELECT ticket_id as ticketId, state, reason, changed_by as changedBy, changed_at_ms as changedAtMs
+     FROM ticket_lifecycle ORDER BY changed_at_ms ASC, id ASC`
+  ).all() as TicketLifecycleChange[];
+  return new Map(rows.map((row) => [row.ticketId, row]));
+}
+
+/** Read lifecycle states from the workflow DB at `dbPath`; empty when it can't be opened */
+export function readTicketLifecycle(dbPath: string): Map<string, TicketLifecycleChange> {
+  let db: Database | null = null;
+  try {
+    db = new Database(dbPath);
+    return loadTicketLifecycle(db);
+  } catch {
+    return new Map();
+  } finally {
+    db?.close();
+  }
+}
+
+export function ticketLifecycleState(lifecycle: Map<string, TicketLifecycleChange>, ticketId: string): TicketLifecycleState {
+  return lifecycle.get(ticketId)?.state ?? "active";
+}
+
+/** Cancelled and abandoned tickets, as prompt context telling discovery not to suggest them again */
+export function formatDroppedTickets(lifecycle: Map<string, TicketLifecycleChange>, tickets: Ticket[]): string | null {
+  const titles = new Map(tickets.map((t) => [t.id, t.title]));
+  const lines = [...lifecycle.values()]
+    .filter((c) => c.state === "cancelled" || c.state === "abandoned")
+    .map((c) => `- ${c.ticketId}${titles.has(c.ticketId) ? `: ${titles.get(c.ticketId)}` : ""} (${c.state}${c.reason ? ` — ${c.reason}` : ""})`);
+  return lines.length > 0 ? lines.join("\n") : null;
+}
@@ -0,0 +1,42 @@
+/**
+ * Token usage extraction for agent calls.
+ * SDK-backed agents report AI SDK style `usage` ({ inputTokens, outputTokens }),
+ * older SDKs use promptTokens/completionTokens, and CLI agents pass through the raw
+ * provider fields (input_tokens/output_tokens, total_cost_usd).
+ */
+
+export type AgentCallUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /** Cost reported by the agent itself, when it reports one */
+  costUsd: number | null;
+};
+
+function firstNumber(source: Record<string, unknown> | null | undefined, keys: string[]): number | null {
+  if (!source) return null;
+  for (const key of keys) {
+    const value = source[key];
+    if (typeof value === "number" && Number.isFinite(value)) return value;
+  }
+  return null;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : null;
+}
+
+/** Read token usage from an agent `generate` result, or null when it reports none */
+export function extractAgentUsage(result: unknown): AgentCallUsage | null {
+  const root = asRecord(result);
+  if (!root) return null;
+  const usage = asRecord(root.totalUsage) ?? asRecord(root.usage) ?? asRecord(asRecord(root.output)?.usage);
+  const costUsd = firstNumber(root, ["costUsd", "total_cost_usd", "cost_usd"])
+    ?? firstNumber(usage, ["costUsd", "total_cost_usd", "cost_usd"]);
+  if (!usage && costUsd === null) return null;
+
+  const inputTokens = firstNumber(usage, ["inputTokens", "promptTokens", "input_tokens", "prompt_tokens"]) ?? 0;
+  const outputTokens = firstNumber(usage, ["outputTokens", "completionTokens", "output_tokens", "completion_tokens"]) ?? 0;
+  const totalTokens = firstNumber(usage, ["totalTokens", "total_tokens"]) ?? inputTokens + outputTokens;
+  return { inputTokens, outputTokens, totalTokens, costUsd };
+}
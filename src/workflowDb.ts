@@ -0,0 +1,439 @@
+import { Database } from "bun:sqlite";
+import { existsSync } from "node:fs";
+import { TICKET_OUTPUT_STAGES, pipelineStageIndex } from "./durability";
+import { reviewRoundNodeId, reviewRoundOfNodeId, stripReviewRound } from "./reviewLoop";
+import { CODE_REVIEWER_SLOTS } from "./reviewConsensus";
+import { applyManualTickets, normalizeTicket, type Ticket } from "./selectors";
+import { JOB_TYPE_TO_OUTPUT_KEY, jobNodeId } from "./scheduledTasks";
+import { loadLandingDecisions, type LandingDecision } from "./landingApproval";
+import { loadManualTicketOverrides } from "./manualTickets";
+import { loadTicketLifecycle, ticketLifecycleState, type TicketLifecycleChange, type TicketLifecycleState } from "./ticketLifecycle";
+import { computeTicketBlockers } from "./ticketGraph";
+import { getPendingLanding, loadQueueEntries, type PendingLanding, type PersistedQueueEntry } from "./mergeQueue/store";
+
+/**
+ * Read-only views over `.super-ralph/workflow.db` for tooling outside the scheduling
+ * loop (the CLI's inspection commands, the Monitor and the web dashboard). Smithers writes
+ * one row per task output, with the schema's top-level fields as columns; nested values
+ * are stored as JSON.
+ */
+
+export type OutputRow = {
+  table: string;
+  runId: string;
+  nodeId: string;
+  iteration: number;
+  values: Record<string, unknown>;
+};
+
+export type RunSummary = {
+  runId: string;
+  /** Decoded from CLI-generated run IDs (`sr-<base36 ms>-…`); null for other IDs */
+  startedAtMs: number | null;
+  outputCount: number;
+  ticketCount: number;
+  reportCount: number;
+  landedCount: number;
+};
+
+export type TicketSummary = {
+  ticket: Ticket;
+  /** Furthest pipeline stage with an output ("not_started" when none) */
+  stage: string;
+  reviewRound: number;
+  reportStatus: string | null;
+  landed: boolean;
+  /** Set from the CLI; only "active" tickets are scheduled */
+  lifecycle: TicketLifecycleState;
+};
+
+export type ActiveJob = { jobId: string; jobType: string; agentId: string; ticketId: string | null };
+
+export type RunStatus = {
+  runId: string;
+  activeJobs: ActiveJob[];
+  stageCounts: Record<string, number>;
+  /** Active tickets with a complete report that haven't landed, with their latest landing decision */
+  mergeQueue: Array<{ ticket: Ticket; decision: LandingDecision | null }>;
+  landedCount: number;
+  spendUsd: number;
+};
+
+/** A ticket's place in the pipeline, for the Monitor's per-ticket view */
+export type TicketPipeline = TicketSummary & {
+  activeJob: ActiveJob | null;
+  /** Severities of the current review round's reviews, by reviewer ("spec" or a code reviewer slot) */
+  reviews: Array<{ reviewer: string; severity: string }>;
+  /** Its latest land attempt was evicted from the merge queue */
+  evicted: boolean;
+};
+
+export type MergeQueueWindowEntry = {
+  ticketId: string;
+  title: string;
+  priority: string;
+  reportIteration: number;
+  /** Times it was sent back because an entry ahead of it was evicted */
+  invalidatedCount: number;
+  flakyRequeues: number;
+};
+
+/**
+ * The speculative merge queue as persisted by the coordinator: pending entries in landing
+ * order, the first `windowSize` of which are rebased and tested together
+ */
+export type MergeQueueState = {
+  window: MergeQueueWindowEntry[];
+  waiting: MergeQueueWindowEntry[];
+  /** A landing between fast-forwarding main and resolving its tickets */
+  landing: PendingLanding | null;
+  /** Latest resolved entries, newest first */
+  resolved: Array<MergeQueueWindowEntry & { merged: boolean; evictionReason: string | null }>;
+};
+
+export type AgentPoolEntry = {
+  agentId: string;
+  type: string | null;
+  model: string | null;
+  successCount: number;
+  failureCount: number;
+  rateLimitCount: number;
+  avgDurationMs: number;
+  rateLimitedUntil: number | null;
+  /** Active jobs assigned to this agent */
+  jobs: string[];
+};
+
+const ROW_KEYS = new Set(["run_id", "node_id", "iteration"]);
+
+export function openWorkflowDb(dbPath: string): Database {
+  if (!existsSync(dbPath)) throw new Error(`No workflow database at ${dbPath}.`);
+  return new Database(dbPath, { readonly: true });
+}
+
+export function hasTable(db: Database, table: string): boolean {
+  return !!db.prepare("SELECT name FROM sqlite_master WHERE type='table' AND name=?").get(table);
+}
+
+function decodeValue(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  const text = value.trim();
+  if (!(text.startsWith("{") || text.startsWith("["))) return value;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return value;
+  }
+}
+
+/** Output rows of one table, oldest first; filtered by run and/or node ID prefix */
+export function readOutputRows(db: Database, table: string, filter: { runId?: string; nodeIdPrefix?: string } = {}): OutputRow[] {
+  if (!hasTable(db, table)) return [];
+  const clauses: string[] = [];
+  const params: string[] = [];
+  if (filter.runId) {
+    clauses.push("run_id = ?");
+    params.push(filter.runId);
+  }
+  if (filter.nodeIdPrefix) {
+    clauses.push("substr(node_id, 1, ?) = ?");
+    params.push(String(filter.nodeIdPrefix.length), filter.nodeIdPrefix);
+  }
+  const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
+  const rows = db.prepare(`SELECT * FROM "${table}" ${where} ORDER BY rowid ASC`).all(...params) as Array<Record<string, unknown>>;
+  return rows.map((row) => ({
+    table,
+    runId: String(row.run_id),
+    nodeId: String(row.node_id),
+    iteration: Number(row.iteration ?? 0),
+    values: Object.fromEntries(Object.entries(row).filter(([k]) => !ROW_KEYS.has(k)).map(([k, v]) => [k, decodeValue(v)])),
+  }));
+}
+
+/** Rows of a ticket node in every review round (`T-1:report`, `T-1:report:r2`, …), in write order */
+export function readRoundRows(db: Database, table: string, runId: string | undefined, nodeId: string): OutputRow[] {
+  return readOutputRows(db, table, { runId, nodeIdPrefix: nodeId }).filter((row) => stripReviewRound(row.nodeId) === nodeId);
+}
+
+/** Number of reports written for a ticket in the run, as `selectReportIteration` counts them */
+export function readReportIteration(db: Database, runId: string, ticketId: string): number {
+  return readOutputRows(db, "report", { runId }).filter((row) => row.values.ticketId === ticketId).length;
+}
+
+/** Start time encoded in CLI-generated run IDs (`sr-<base36 ms>-…`) */
+export function runStartedAtMs(runId: string): number | null {
+  const match = runId.match(/^sr-([0-9a-z]+)-/);
+  if (!match) return null;
+  const ms = parseInt(match[1]!, 36);
+  return Number.isFinite(ms) ? ms : null;
+}
+
+/**
+ * Tickets suggested by codebase reviews, imported or discovered, deduplicated by ID,
+ * with hand-made overrides applied
+ */
+export function readTickets(db: Database, runId?: string, options: { manual?: boolean } = {}): Ticket[] {
+  const byId = new Map<string, Ticket>();
+  const collect = (raw: unknown) => {
+    for (const candidate of Array.isArray(raw) ? raw : []) {
+      const ticket = normalizeTicket(candidate);
+      if (ticket && !byId.has(ticket.id)) byId.set(ticket.id, ticket);
+    }
+  };
+  for (const row of readOutputRows(db, "category_review", { runId })) collect(row.values.suggestedTickets);
+  for (const row of readOutputRows(db, "ticket_import", { runId })) collect(row.values.tickets);
+  for (const row of readOutputRows(db, "discover", { runId })) collect(row.values.tickets);
+  const overrides = options.manual !== false && hasTable(db, "manual_tickets") ? [...loadManualTicketOverrides(db).values()] : [];
+  return applyManualTickets([...byId.values()], overrides);
+}
+
+export function listRuns(db: Database): RunSummary[] {
+  const runs = new Map<string, RunSummary>();
+  const runOf = (runId: string) => {
+    let run = runs.get(runId);
+    if (!run) {
+      run = { runId, startedAtMs: runStartedAtMs(runId), outputCount: 0, ticketCount: 0, reportCount: 0, landedCount: 0 };
+      runs.set(runId, run);
+    }
+    return run;
+  };
+  const tables = (db.prepare("SELECT name FROM sqlite_master WHERE type='table'").all() as Array<{ name: string }>)
+    .map((t) => t.name)
+    .filter((name) => !name.startsWith("_") && !name.startsWith("sqlite_"));
+  for (const table of tables) {
+    const columns = db.prepare(`PRAGMA table_info("${table}")`).all() as Array<{ name: string }>;
+    if (!columns.some((c) => c.name === "run_id") || !columns.some((c) => c.name === "node_id")) continue;
+    const counts = db.prepare(`SELECT run_id, COUNT(*) as n FROM "${table}" GROUP BY run_id`).all() as Array<{ run_id: string; n: number }>;
+    for (const { run_id, n } of counts) runOf(String(run_id)).outputCount += n;
+  }
+  for (const run of runs.values()) {
+    run.ticketCount = readTickets(db, run.runId, { manual: false }).length;
+    run.reportCount = readOutputRows(db, "report", { runId: run.runId }).length;
+    run.landedCount = readOutputRows(db, "land", { runId: run.runId }).filter((r) => !!r.values.merged).length;
+  }
+  return [...runs.values()].sort((a, b) => (b.startedAtMs ?? 0) - (a.startedAtMs ?? 0));
+}
+
+/**
+ * The most recent run: whichever wrote the last schedule (the scheduler runs every pass),
+ * else the last interpreted config, else the newest CLI run ID. Write order counts rather
+ * than the time encoded in run IDs, which runs started with --run-id don't have.
+ */
+export function latestRunId(db: Database): string | null {
+  for (const table of ["ticket_schedule", "interpret_config"]) {
+    if (!hasTable(db, table)) continue;
+    const row = db.prepare(`SELECT run_id FROM "${table}" ORDER BY rowid DESC LIMIT 1`).get() as { run_id: string } | null;
+    if (row) return String(row.run_id);
+  }
+  return listRuns(db).find((r) => r.startedAtMs !== null)?.runId ?? null;
+}
+
+const stageRank = (stage: string) => pipelineStageIndex(stage === "landed" ? "land" : stage);
+
+/**
+ * Every ticket known to the run (or to any run) with the furthest stage it reached.
+ * Stages come from the ticket's own output rows, so they match across runs.
+ */
+export function readTicketSummaries(db: Database, runId?: string): TicketSummary[] {
+  const tickets = readTickets(db, runId);
+  const ids = new Set(tickets.map((t) => t.id));
+  const lifecycle = hasTable(db, "ticket_lifecycle") ? loadTicketLifecycle(db) : new Map<string, TicketLifecycleChange>();
+  const reachedById = new Map<string, { stage: string; round: number }>();
+  const roundById = new Map<string, number>();
+  for (const { table, suffix, stage } of TICKET_OUTPUT_STAGES) {
+    for (const row of readOutputRows(db, table, { runId })) {
+      const ticketId = stripReviewRound(row.nodeId).replace(new RegExp(`:${suffix}$`), "");
+      if (!ids.has(ticketId)) continue;
+      // An unmerged land row is an eviction: the ticket is back at report
+      const reached = stage === "land" ? (row.values.merged ? "landed" : "report") : stage;
+      // A later round outranks any stage of an earlier one: a rework reopens implement
+      const round = reviewRoundOfNodeId(row.nodeId);
+      const current = reachedById.get(ticketId);
+      if (!current || round > current.round || (round === current.round && stageRank(reached) > stageRank(current.stage))) {
+        reachedById.set(ticketId, { stage: reached, round });
+      }
+      roundById.set(ticketId, Math.max(roundById.get(ticketId) ?? 1, round));
+    }
+  }
+  return tickets.map((ticket) => {
+    const report = readRoundRows(db, "report", runId, `${ticket.id}:report`).pop();
+    const stage = reachedById.get(ticket.id)?.stage ?? "not_started";
+    return {
+      ticket,
+      stage,
+      reviewRound: roundById.get(ticket.id) ?? 1,
+      reportStatus: report ? String(report.values.status ?? "") || null : null,
+      landed: stage === "landed",
+      lifecycle: ticketLifecycleState(lifecycle, ticket.id),
+    };
+  });
+}
+
+/** Every output row written for a ticket, in pipeline order then write order */
+export function readTicketHistory(db: Database, ticketId: string): OutputRow[] {
+  const rows: OutputRow[] = [];
+  for (const { table } of [...TICKET_OUTPUT_STAGES].reverse()) {
+    rows.push(...readOutputRows(db, table, { nodeIdPrefix: `${ticketId}:` }));
+  }
+  rows.push(...readOutputRows(db, "agent_usage").filter((r) => r.values.ticketId === ticketId));
+  return rows;
+}
+
+/**
+ * Scheduled jobs whose output hasn't been written yet. Jobs SuperRalph drops are left out
+ * too: ones of landed tickets, of paused, cancelled or abandoned tickets, and implement
+ * jobs of tickets whose dependencies haven't landed.
+ */
+export function readActiveJobs(db: Database, runId: string): ActiveJob[] {
+  const jobs = new Map<string, ActiveJob>();
+  for (const row of readOutputRows(db, "ticket_schedule", { runId })) {
+    const scheduled = Array.isArray(row.values.jobs) ? row.values.jobs as Array<Record<string, unknown>> : [];
+    for (const job of scheduled) {
+      if (typeof job?.jobId !== "string" || typeof job.jobType !== "string") continue;
+      jobs.set(job.jobId, {
+        jobId: job.jobId,
+        jobType: job.jobType,
+        agentId: String(job.agentId ?? ""),
+        ticketId: typeof job.ticketId === "string" ? job.ticketId : null,
+      });
+    }
+  }
+  const summaries = new Map(readTicketSummaries(db, runId).map((t) => [t.ticket.id, t]));
+  const blockers = computeTicketBlockers(
+    [...summaries.values()].map((t) => t.ticket),
+    [...summaries.values()].filter((t) => t.landed).map((t) => t.ticket.id),
+  );
+  return [...jobs.values()].filter((job) => {
+    const ticket = job.ticketId ? summaries.get(job.ticketId) : undefined;
+    if (ticket && (ticket.landed || ticket.lifecycle !== "active")) return false;
+    if (job.jobType === "ticket:implement" && job.ticketId && blockers.has(job.ticketId)) return false;
+    const table = JOB_TYPE_TO_OUTPUT_KEY[job.jobType];
+    if (!table || !hasTable(db, table)) return true;
+    const nodeId = jobNodeId(job);
+    return !db.prepare(`SELECT 1 FROM "${table}" WHERE run_id = ? AND node_id = ? LIMIT 1`).get(runId, nodeId);
+  });
+}
+
+export function readRunStatus(db: Database, runId: string): RunStatus {
+  const activeJobs = readActiveJobs(db, runId);
+  const tickets = readTicketSummaries(db, runId);
+  const stageCounts: Record<string, number> = {};
+  for (const t of tickets) stageCounts[t.stage] = (stageCounts[t.stage] ?? 0) + 1;
+
+  // A decision shows only while it holds: for the ticket's latest report
+  const decisions = hasTable(db, "landing_approvals") ? loadLandingDecisions(db, runId) : new Map<string, LandingDecision>();
+  const mergeQueue = tickets
+    .filter((t) => t.reportStatus === "complete" && !t.landed && t.lifecycle === "active")
+    .map((t) => {
+      const decision = decisions.get(t.ticket.id);
+      return { ticket: t.ticket, decision: decision?.reportIteration === readReportIteration(db, runId, t.ticket.id) ? decision : null };
+    });
+
+  const spendUsd = readOutputRows(db, "agent_usage", { runId }).reduce((sum, r) => sum + (Number(r.values.costUsd) || 0), 0);
+  return { runId, activeJobs, stageCounts, mergeQueue, landedCount: tickets.filter((t) => t.landed).length, spendUsd };
+}
+
+function latestRow(db: Database, table: string, runId: string, nodeId: string): OutputRow | undefined {
+  return readOutputRows(db, table, { runId, nodeIdPrefix: nodeId }).filter((row) => row.nodeId === nodeId).pop();
+}
+
+/** Every ticket of the run with its active job, current review severities and eviction state */
+export function readTicketPipelines(db: Database, runId: string): TicketPipeline[] {
+  const jobsByTicket = new Map<string, ActiveJob>();
+  for (const job of readActiveJobs(db, runId)) {
+    if (job.ticketId && !jobsByTicket.has(job.ticketId)) jobsByTicket.set(job.ticketId, job);
+  }
+  return readTicketSummaries(db, runId).map((summary) => {
+    const id = summary.ticket.id;
+    const reviews: TicketPipeline["reviews"] = [];
+    const spec = latestRow(db, "spec_review", runId, reviewRoundNodeId(`${id}:spec-review`, summary.reviewRound));
+    if (spec) reviews.push({ reviewer: "spec", severity: String(spec.values.severity ?? "none") });
+    for (const [slot, { output, nodeSuffix }] of Object.entries(CODE_REVIEWER_SLOTS)) {
+      const review = latestRow(db, output, runId, reviewRoundNodeId(`${id}:${nodeSuffix}`, summary.reviewRound));
+      if (review) reviews.push({ reviewer: slot, severity: String(review.values.severity ?? "none") });
+    }
+    const land = latestRow(db, "land", runId, reviewRoundNodeId(`${id}:land`, summary.reviewRound));
+    return { ...summary, activeJob: jobsByTicket.get(id) ?? null, reviews, evicted: !summary.landed && !!land?.values.evicted };
+  });
+}
+
+function windowEntry(entry: PersistedQueueEntry): MergeQueueWindowEntry {
+  return {
+    ticketId: entry.ticket.ticketId,
+    title: entry.ticket.ticketTitle,
+    priority: entry.ticket.priority,
+    reportIteration: entry.ticket.reportIteration,
+    invalidatedCount: entry.invalidatedCount,
+    flakyRequeues: entry.flakyRequeues,
+  };
+}
+
+/**
+ * The run's speculative merge queues, merged; null when none has persisted state.
+ * Pending entries are in the coordinator's default order (report iteration, then arrival).
+ */
+export function readMergeQueueState(db: Database, runId: string, windowSize: number): MergeQueueState | null {
+  if (!hasTable(db, "merge_queue_entries")) return null;
+  const keys = (db.prepare(`SELECT DISTINCT queue_key FROM merge_queue_entries WHERE substr(queue_key, 1, ?) = ?`)
+    .all(runId.length + 2, `${runId}::`) as Array<{ queue_key: string }>).map((row) => row.queue_key);
+  if (keys.length === 0) return null;
+
+  const entries = keys.flatMap((key) => loadQueueEntries(db, key));
+  const pending = entries
+    .filter((entry) => entry.status === "pending" && entry.readyForQueue)
+    .sort((a, b) => a.ticket.reportIteration - b.ticket.reportIteration || a.enqueueSeq - b.enqueueSeq)
+    .map(windowEntry);
+  const resolved = entries
+    .filter((entry) => entry.status === "resolved" && entry.result)
+    .sort((a, b) => b.enqueueSeq - a.enqueueSeq)
+    .slice(0, 5)
+    .map((entry) => ({ ...windowEntry(entry), merged: entry.result!.merged, evictionReason: entry.result!.evictionReason ?? null }));
+  const landing = hasTable(db, "merge_queue_landings") ? keys.map((key) => getPendingLanding(db, key)).find(Boolean) ?? null : null;
+  return { window: pending.slice(0, windowSize), waiting: pending.slice(windowSize), landing, resolved };
+}
+
+/** Agents with persisted stats or active jobs in the run, with the jobs each is on */
+export function readAgentPool(db: Database, runId: string): AgentPoolEntry[] {
+  const pool = new Map<string, AgentPoolEntry>();
+  const entryOf = (agentId: string) => {
+    let entry = pool.get(agentId);
+    if (!entry) {
+      entry = { agentId, type: null, model: null, successCount: 0, failureCount: 0, rateLimitCount: 0, avgDurationMs: 0, rateLimitedUntil: null, jobs: [] };
+      pool.set(agentId, entry);
+    }
+    return entry;
+  };
+  if (hasTable(db, "agent_stats")) {
+    const rows = db.prepare(
+      `SELECT agent_id, metadata_json, success_count, failure_count, rate_limit_count, total_duration_ms, rate_limited_until FROM agent_stats ORDER BY agent_id`
+    ).all() as Array<{ agent_id: string; metadata_json: string; success_count: number; failure_count: number; rate_limit_count: number; total_duration_ms: number; rate_limited_until: number | null }>;
+    for (const row of rows) {
+      let metadata: { type?: string; model?: string } = {};
+      try {
+        metadata = JSON.parse(row.metadata_json);
+      } catch { /* stats without metadata */ }
+      const total = row.success_count + row.failure_count;
+      Object.assign(entryOf(row.agent_id), {
+        type: metadata.type ?? null,
+        model: metadata.model ?? null,
+        successCount: row.success_count,
+        failureCount: row.failure_count,
+        rateLimitCount: row.rate_limit_count,
+        avgDurationMs: total > 0 ? row.total_duration_ms / total : 0,
+        rateLimitedUntil: row.rate_limited_until,
+      });
+    }
+  }
+  // The scheduler's latest view of rate limits, for agents whose stats aren't persisted
+  const lastSchedule = readOutputRows(db, "ticket_schedule", { runId }).pop();
+  const limited = Array.isArray(lastSchedule?.values.rateLimitedAgents) ? lastSchedule.values.rateLimitedAgents as Array<Record<string, unknown>> : [];
+  for (const { agentId, resumeAtMs } of limited) {
+    if (typeof agentId !== "string" || typeof resumeAtMs !== "number") continue;
+    const entry = entryOf(agentId);
+    entry.rateLimitedUntil = Math.max(entry.rateLimitedUntil ?? 0, resumeAtMs);
+  }
+  for (const job of readActiveJobs(db, runId)) {
+    if (job.agentId) entryOf(job.agentId).jobs.push(job.jobId);
+  }
+  return [...pool.values()];
+}
@@ -0,0 +1,235 @@
+import { runJj, workspaceClose } from "smithers-orchestrator";
+import type { AgentLike } from "smithers-orchestrator";
+import { spawn } from "node:child_process";
+import { readdir, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ScheduledJob } from "./scheduledTasks";
+
+/**
+ * Worktree layout and garbage collection.
+ * Every job runs in a worktree named `workflow-wt-<id>` under one root directory per
+ * project (or per run, with `{runId}` in the root template), so runs of different
+ * projects never share paths. The jj workspace for a worktree takes the directory's
+ * name, which is how the merge queue closes it after landing.
+ *
+ * The GC pass removes worktrees, and closes jj workspaces, whose ticket has landed or
+ * is no longer known, then evicts the least recently used idle worktrees while the
+ * root is over its disk cap. Worktrees with a running job are never touched.
+ */
+
+export const WORKTREE_DIR_PREFIX = "workflow-wt-";
+
+export const DEFAULT_WORKTREE_ROOT = join(tmpdir(), "super-ralph", "{projectId}");
+
+function pathSegment(value: string): string {
+  return value.replace(/[^A-Za-z0-9._-]+/g, "-") || "default";
+}
+
+/** Expand `{projectId}` and `{runId}` in a worktree root template */
+export function resolveWorktreeRoot(template: string | undefined, ids: { projectId: string; runId: string }): string {
+  return (template ?? DEFAULT_WORKTREE_ROOT)
+    .replaceAll("{projectId}", pathSegment(ids.projectId))
+    .replaceAll("{runId}", pathSegment(ids.runId));
+}
+
+export function worktreePathFor(root: string, id: string): string {
+  return join(root, `${WORKTREE_DIR_PREFIX}${id}`);
+}
+
+/** Worktree a job runs in: tickets share one per ticket, global jobs one per job kind and focus */
+export function jobWorktreeId(job: Pick<ScheduledJob, "jobType" | "ticketId" | "focusId">): string | null {
+  switch (job.jobType) {
+    case "discovery":
+      return "discover";
+    case "progress-update":
+      return "update-progress";
+    case "codebase-review":
+      return job.focusId ? `codebase-review-${job.focusId}` : null;
+    case "integration-test":
+      return job.focusId ? `integration-test-${job.focusId}` : null;
+    default:
+      return job.ticketId;
+  }
+}
+
+export type WorktreeGcRequest = {
+  root: string;
+  repoRoot: string;
+  vcs: "jj" | "git";
+  /** Worktree IDs that still have work ahead: unlanded tickets and global jobs */
+  liveIds: string[];
+  /** Worktree IDs with a job running right now */
+  activeIds: string[];
+  /** Disk cap for everything under `root`; null for no cap */
+  maxDiskBytes: number | null;
+};
+
+export type WorktreeGcRemoval = {
+  id: string;
+  path: string;
+  reason: "orphaned" | "disk-cap";
+  bytes: number;
+};
+
+export type WorktreeGcResult = {
+  ranAtMs: number;
+  root: string;
+  /** Disk used under `root` after the pass */
+  totalBytes: number;
+  removed: WorktreeGcRemoval[];
+  /** jj workspaces closed whose directory was already gone */
+  workspacesClosed: string[];
+};
+
+type ManagedWorktree = { id: string; path: string; bytes: number; lastUsedMs: number };
+
+type CommandResult = { code: number; stdout: string; stderr: string };
+
+const REQUEST_MARKER = "WORKTREE_GC_REQUEST_JSON";
+
+async function runProcess(file: string, args: string[], cwd: string): Promise<CommandResult> {
+  return await new Promise<CommandResult>((resolve) => {
+    const child = spawn(file, args, { cwd, stdio: ["ignore", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
+    child.stdout?.on("data", (chunk: Buffer) => {
+      stdout += chunk.toString("utf8");
+    });
+    child.stderr?.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString("utf8");
+    });
+    child.on("error", (err) => resolve({ code: 127, stdout, stderr: err.message }));
+    child.on("close", (code) => resolve({ code: code ?? 1, stdout, stderr }));
+  });
+}
+
+async function directoryBytes(path: string): Promise<number> {
+  const res = await runProcess("du", ["-sk", path], "/");
+  const kb = Number(res.stdout.trim().split(/\s+/)[0]);
+  return Number.isFinite(kb) ? kb * 1024 : 0;
+}
+
+async function scanWorktrees(root: string): Promise<ManagedWorktree[]> {
+  const entries = await readdir(root, { withFileTypes: true }).catch(() => []);
+  const worktrees: ManagedWorktree[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory() || !entry.name.startsWith(WORKTREE_DIR_PREFIX)) continue;
+    const path = join(root, entry.name);
+    const info = await stat(path).catch(() => null);
+    worktrees.push({
+      id: entry.name.slice(WORKTREE_DIR_PREFIX.length),
+      path,
+      bytes: await directoryBytes(path),
+      lastUsedMs: info?.mtimeMs ?? 0,
+    });
+  }
+  return worktrees;
+}
+
+async function listJjWorkspaces(repoRoot: string): Promise<string[]> {
+  const res = await runJj(["workspace", "list"], { cwd: repoRoot }).catch(() => null);
+  if (!res || res.code !== 0) return [];
+  return (res.stdout ?? "")
+    .split("\n")
+    .map((line: string) => line.match(/^([^:\s]+):/)?.[1])
+    .filter((name: string | undefined): name is string => !!name);
+}
+
+async function removeWorktree(request: WorktreeGcRequest, worktree: ManagedWorktree): Promise<void> {
+  if (request.vcs === "jj") {
+    await workspaceClose(`${WORKTREE_DIR_PREFIX}${worktree.id}`, { cwd: request.repoRoot }).catch(() => undefined);
+  } else {
+    await runProcess("git", ["worktree", "remove", "--force", worktree.path], request.repoRoot);
+  }
+  await rm(worktree.path, { recursive: true, force: true }).catch(() => undefined);
+}
+
+export async function collectWorktreeGarbage(request: WorktreeGcRequest): Promise<WorktreeGcResult> {
+  const live = new Set(request.liveIds);
+  const active = new Set(request.activeIds);
+  const removed: WorktreeGcRemoval[] = [];
+
+  let remaining: ManagedWorktree[] = [];
+  for (const worktree of await scanWorktrees(request.root)) {
+    if (active.has(worktree.id) || live.has(worktree.id)) {
+      remaining.push(worktree);
+      continue;
+    }
+    await removeWorktree(request, worktree);
+    removed.push({ id: worktree.id, path: worktree.path, reason: "orphaned", bytes: worktree.bytes });
+  }
+
+  // Workspaces whose directory is gone (removed above, or by hand) but jj still tracks
+  const workspacesClosed: string[] = [];
+  if (request.vcs === "jj") {
+    const present = new Set(remaining.map((w) => `${WORKTREE_DIR_PREFIX}${w.id}`));
+    for (const name of await listJjWorkspaces(request.repoRoot)) {
+      if (!name.startsWith(WORKTREE_DIR_PREFIX) || present.has(name)) continue;
+      const id = name.slice(WORKTREE_DIR_PREFIX.length);
+      if (active.has(id) || live.has(id) || removed.some((r) => r.id === id)) continue;
+      await workspaceClose(name, { cwd: request.repoRoot }).catch(() => undefined);
+      workspacesClosed.push(name);
+    }
+  } else {
+    await runProcess("git", ["worktree", "prune"], request.repoRoot);
+  }
+
+  // Over the cap: evict idle worktrees, least recently used first. The next job for
+  // that ticket recreates its worktree from the pushed bookmark.
+  let totalBytes = remaining.reduce((sum, w) => sum + w.bytes, 0);
+  if (request.maxDiskBytes !== null && totalBytes > request.maxDiskBytes) {
+    const idle = remaining.filter((w) => !active.has(w.id)).sort((a, b) => a.lastUsedMs - b.lastUsedMs);
+    for (const worktree of idle) {
+      if (totalBytes <= request.maxDiskBytes) break;
+      await removeWorktree(request, worktree);
+      removed.push({ id: worktree.id, path: worktree.path, reason: "disk-cap", bytes: worktree.bytes });
+      totalBytes -= worktree.bytes;
+      remaining = remaining.filter((w) => w !== worktree);
+    }
+  }
+
+  return { ranAtMs: Date.now(), root: request.root, totalBytes, removed, workspacesClosed };
+}
+
+/**
+ * A worktree's changes against the mainline, summary first. Uncommitted edits are
+ * included, so a job's work shows while it is still running.
+ */
+export async function readWorktreeDiff(worktreePath: string, vcs: "jj" | "git", mainBranch = "main"): Promise<string> {
+  if (!(await stat(worktreePath).catch(() => null))) return `No worktree at ${worktreePath}`;
+  const args = vcs === "jj" ? ["diff", "--from", mainBranch] : ["diff", mainBranch];
+  const [summary, diff] = await Promise.all([
+    runProcess(vcs, [...args, "--stat"], worktreePath),
+    runProcess(vcs, vcs === "jj" ? [...args, "--git"] : args, worktreePath),
+  ]);
+  if (diff.code !== 0) return `${vcs} ${args.join(" ")} failed in ${worktreePath}:\n${diff.stderr.trim()}`;
+  return [summary.stdout.trimEnd(), diff.stdout.trimEnd()].filter(Boolean).join("\n\n") || `No changes against ${mainBranch}`;
+}
+
+export function buildWorktreeGcPrompt(request: WorktreeGcRequest): string {
+  return [
+    `WORKTREE GC — Root: ${request.root}`,
+    "",
+    `Remove worktrees for landed or unknown tickets${request.maxDiskBytes !== null ? ` and keep the root under ${Math.round(request.maxDiskBytes / 1024 / 1024)} MB` : ""}.`,
+    "",
+    REQUEST_MARKER,
+    JSON.stringify(request),
+  ].join("\n");
+}
+
+function extractWorktreeGcRequest(prompt: string): WorktreeGcRequest {
+  const markerIndex = prompt.indexOf(REQUEST_MARKER);
+  if (markerIndex === -1) throw new Error("Worktree GC request marker not found in prompt.");
+  return JSON.parse(prompt.slice(markerIndex + REQUEST_MARKER.length).trim()) as WorktreeGcRequest;
+}
+
+export function createWorktreeGcAgent(id = "super-ralph-worktree-gc"): AgentLike {
+  return {
+    id,
+    async generate(args) {
+      const output = await collectWorktreeGarbage(extractWorktreeGcRequest(args.prompt ?? ""));
+      return { output };
+    },
+  };
+}